@@ -17,21 +17,33 @@
  *   RPC_BASE             — Base RPC URL (default: public endpoint)
  *   PORT                 — Server port (default: 3000)
  *   PORTAL_DIR           — Path to portal static files (default: ./apps/facilitator-portal)
+ *   ADMIN_TOKEN          — Bearer token enabling the /admin webhook routes
+ *   DATABASE_URL         — postgres:// URL or sqlite:<path> for history (default: in-memory)
  */
 
 import { resolve } from 'node:path';
 import { startFacilitator } from '../facilitator/index.js';
-import { loadConfig, createClients } from '../facilitator/config.js';
+import { loadConfig, createClients, createStore } from '../facilitator/config.js';
 
 const config = loadConfig();
 const { publicClients, walletClients } = createClients(config);
 
 const portalDir = resolve(config.portalDir || 'apps/facilitator-portal');
 
-startFacilitator(config.port, {
-  portalDir,
-  treasuryAddress: config.treasuryAddress,
-  settlementAddresses: config.settlementAddresses,
-  publicClients,
-  walletClients,
-});
+createStore(config)
+  .then(store => {
+    startFacilitator(config.port, {
+      portalDir,
+      store,
+      treasuryAddress: config.treasuryAddress,
+      settlementAddresses: config.settlementAddresses,
+      publicClients,
+      walletClients,
+      adminToken: config.adminToken,
+      reconcile: {},
+    });
+  })
+  .catch(error => {
+    console.error('[facilitator] Failed to open the database:', error);
+    process.exit(1);
+  });
@@ -48,6 +48,7 @@ export const BASE_USDC: TokenConfig = {
   decimals: 6,
   name: 'USD Coin',
   supportsERC3009: true,
+  stablecoin: true,
 } as const;
 
 /**
@@ -31,6 +31,7 @@ export const BSC_USDT: TokenConfig = {
   symbol: 'USDT',
   decimals: 18,
   name: 'Tether USD',
+  stablecoin: true,
 } as const;
 
 export const BSC_USDC: TokenConfig = {
@@ -38,6 +39,7 @@ export const BSC_USDC: TokenConfig = {
   symbol: 'USDC',
   decimals: 18,
   name: 'USD Coin',
+  stablecoin: true,
 } as const;
 
 export const BSC_WBNB: TokenConfig = {
@@ -48,6 +48,7 @@ export const ETH_USDC: TokenConfig = {
   decimals: 6,
   name: 'USD Coin',
   supportsERC3009: true,
+  stablecoin: true,
 } as const;
 
 /**
@@ -59,6 +60,7 @@ export const ETH_USDT: TokenConfig = {
   symbol: 'USDT',
   decimals: 6,
   name: 'Tether USD',
+  stablecoin: true,
 } as const;
 
 /**
@@ -48,3 +48,14 @@ export function getTokenForNetwork(caipId: string, symbol: string): TokenConfig
   if (!network) return undefined;
   return network.tokens[symbol.toUpperCase()];
 }
+
+/**
+ * Get token config by contract address on a given network
+ */
+export function getTokenByAddress(caipId: string, address: string): TokenConfig | undefined {
+  const network = SUPPORTED_NETWORKS[caipId];
+  if (!network) return undefined;
+  return Object.values(network.tokens).find(
+    token => token.address.toLowerCase() === address.toLowerCase()
+  );
+}
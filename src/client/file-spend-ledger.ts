@@ -0,0 +1,73 @@
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+
+import type { SpendLedger, SpendRecord } from '../types/index.js';
+import { sumRecords } from './spend-ledger.js';
+
+// ============================================================================
+// File-Backed Spend Ledger
+// ============================================================================
+
+/**
+ * Spend ledger kept in a JSON file, so budgets survive restarts.
+ *
+ * The file holds an array of {@link SpendRecord}s. It is read once, on first
+ * use, and rewritten in full after each payment through a temporary file and
+ * a rename, so a crash never leaves it half-written. Give each process its
+ * own file: concurrent writers would overwrite each other's records.
+ *
+ * @example
+ * ```typescript
+ * const client = new X402Client({
+ *   privateKey: process.env.X402_PRIVATE_KEY,
+ *   spendingPolicy: { budget: { [BASE_USDC.address]: '100000000' } },
+ *   spendLedger: new FileSpendLedger('/var/lib/agent/spend.json'),
+ * });
+ * ```
+ */
+export class FileSpendLedger implements SpendLedger {
+  private readonly path: string;
+  private records: Promise<SpendRecord[]> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async record(entry: SpendRecord): Promise<void> {
+    const records = await this.load();
+    records.push(entry);
+    // Writes go out in order; each one carries every record so far
+    this.writing = this.writing.catch(() => undefined).then(() => this.write(records));
+    return this.writing;
+  }
+
+  async total(query: { token: string; host?: string; since?: number }): Promise<bigint> {
+    return sumRecords(await this.load(), query);
+  }
+
+  private load(): Promise<SpendRecord[]> {
+    this.records ??= this.read();
+    return this.records;
+  }
+
+  private async read(): Promise<SpendRecord[]> {
+    try {
+      const records: unknown = JSON.parse(await fs.readFile(this.path, 'utf8'));
+      if (!Array.isArray(records)) {
+        throw new Error(`Spend ledger ${this.path} does not hold a JSON array`);
+      }
+      return records as SpendRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async write(records: SpendRecord[]): Promise<void> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(records, null, 2));
+    await fs.rename(temp, this.path);
+  }
+}
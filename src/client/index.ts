@@ -6,26 +6,33 @@ import axios, {
 import {
   createWalletClient,
   createPublicClient,
+  custom,
   http,
-  type WalletClient,
+  type Account,
   type PublicClient,
   maxUint256,
 } from 'viem';
-import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { privateKeyToAccount } from 'viem/accounts';
 import { bsc, base, mainnet } from 'viem/chains';
 import type { Chain } from 'viem';
 
 import {
   type PaymentRequirement,
+  type PaymentAcceptEntry,
+  type PaymentApprovalContext,
   type PaymentPayload,
   type Permit2Payload,
   type ERC3009Payload,
   type X402ClientConfig,
+  type SpendLedger,
   PaymentRequirementSchema,
   PaymentRequiredError,
   PaymentVerificationError,
   UnsupportedNetworkError,
   Permit2ApprovalRequiredError,
+  PaymentDeclinedError,
+  BudgetExceededError,
+  X402Error,
   PERMIT2_ADDRESS,
   X402_HEADERS,
   PERMIT2_BATCH_WITNESS_TYPES,
@@ -41,6 +48,9 @@ import {
 import { ETH_CAIP_ID, ETH_DEFAULT_RPC } from '../chains/ethereum.js';
 import { BSC_CAIP_ID, BSC_DEFAULT_RPC } from '../chains/bnb.js';
 import { BASE_CAIP_ID, BASE_DEFAULT_RPC } from '../chains/base.js';
+import { createSigner, type X402Signer } from './signer.js';
+import { InMemorySpendLedger, enforceSpendingPolicy } from './spend-ledger.js';
+import { offerUsdCost, selectCheapestAffordable } from './selection.js';
 
 /** Map CAIP-2 network IDs to viem chain objects */
 const CHAIN_LOOKUP: Record<string, { chain: Chain; rpc: string }> = {
@@ -50,10 +60,17 @@ const CHAIN_LOOKUP: Record<string, { chain: Chain; rpc: string }> = {
 };
 
 // ============================================================================
-// Minimal ERC-20 ABI for allowance check and approval
+// Minimal ERC-20 ABI for balance and allowance checks and approval
 // ============================================================================
 
 const ERC20_ABI = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
   {
     name: 'allowance',
     type: 'function',
@@ -76,6 +93,29 @@ const ERC20_ABI = [
   },
 ] as const;
 
+/** Clients an X402Client uses on one network */
+interface NetworkClients {
+  chain: Chain;
+  signer: X402Signer | null;
+  publicClient: PublicClient | null;
+}
+
+function isPublicClient(
+  client: PublicClient | Record<string, PublicClient>
+): client is PublicClient {
+  return typeof (client as PublicClient).readContract === 'function';
+}
+
+/** Whether two accept entries ask for the same payment; addresses compare case-insensitively */
+function isSameAcceptEntry(a: PaymentAcceptEntry, b: PaymentAcceptEntry): boolean {
+  return a.scheme === b.scheme &&
+    a.network === b.network &&
+    a.token.toLowerCase() === b.token.toLowerCase() &&
+    a.amount === b.amount &&
+    a.recipient.toLowerCase() === b.recipient.toLowerCase() &&
+    a.settlement.toLowerCase() === b.settlement.toLowerCase();
+}
+
 // ============================================================================
 // X402 Client Class
 // ============================================================================
@@ -91,17 +131,29 @@ const ERC20_ABI = [
  *
  * Automatically checks and handles Permit2 ERC-20 approvals when needed.
  *
+ * Signs with the first of `walletClient`, `provider`, `account` or
+ * `privateKey` that is configured; with none, the client is read-only.
+ *
  * @example
  * ```typescript
  * const client = new X402Client({ privateKey: '0x...' });
  * const response = await client.fetch('https://api.example.com/paid-resource');
+ *
+ * // Injected browser wallet
+ * const browserClient = new X402Client({ provider: window.ethereum });
  * ```
  */
 export class X402Client {
   private readonly axiosInstance: AxiosInstance;
-  private readonly walletClient: WalletClient | null = null;
-  private readonly publicClient: PublicClient | null = null;
-  private readonly account: PrivateKeyAccount | null = null;
+  /** Key-based signer; wallets are created per network from it */
+  private readonly account: Account | null = null;
+  /** Wallet-based signer, shared by every network */
+  private readonly walletSigner: X402Signer | null = null;
+  /** Lazily created clients by CAIP-2 network id */
+  private readonly networkClients = new Map<string, NetworkClients>();
+  private readonly spendLedger: SpendLedger;
+  /** Policy checks, signing and recording run one payment at a time */
+  private spendQueue: Promise<unknown> = Promise.resolve();
   private readonly config: Required<Pick<X402ClientConfig,
     'supportedNetworks' | 'defaultDeadline' | 'autoRetry' | 'maxRetries' | 'autoApprovePermit2'
   >> & X402ClientConfig;
@@ -122,37 +174,77 @@ export class X402Client {
       ...config.axiosConfig,
     });
 
-    if (config.privateKey) {
+    this.spendLedger = config.spendLedger ?? new InMemorySpendLedger();
+
+    if (config.walletClient) {
+      this.walletSigner = createSigner(config.walletClient);
+    } else if (config.provider) {
+      const { chain } = CHAIN_LOOKUP[this.primaryNetwork] ?? CHAIN_LOOKUP[BASE_CAIP_ID]!;
+      this.walletSigner = createSigner(
+        createWalletClient({ chain, transport: custom(config.provider) })
+      );
+    } else if (config.account) {
+      this.account = config.account;
+    } else if (config.privateKey) {
       const normalizedKey = config.privateKey.startsWith('0x')
         ? config.privateKey as `0x${string}`
         : `0x${config.privateKey}` as `0x${string}`;
-
       this.account = privateKeyToAccount(normalizedKey);
-
-      const primaryNetwork = this.config.supportedNetworks[0] ?? BASE_CAIP_ID;
-      const lookup = CHAIN_LOOKUP[primaryNetwork] ?? CHAIN_LOOKUP[BASE_CAIP_ID]!;
-
-      const transport = http(config.rpcUrl ?? lookup.rpc);
-
-      this.walletClient = createWalletClient({
-        account: this.account,
-        chain: lookup.chain,
-        transport,
-      });
-
-      this.publicClient = createPublicClient({
-        chain: lookup.chain,
-        transport,
-      });
     }
   }
 
+  /** Payer address, or null until an injected wallet has exposed one */
   get signerAddress(): `0x${string}` | null {
-    return this.account?.address ?? null;
+    return this.account?.address ?? this.walletSigner?.address ?? null;
   }
 
   get canSign(): boolean {
-    return this.account !== null;
+    return this.account !== null || this.walletSigner !== null;
+  }
+
+  private get primaryNetwork(): string {
+    return this.config.supportedNetworks[0] ?? BASE_CAIP_ID;
+  }
+
+  /**
+   * Signer and public client for a network, created on first use. Reads and
+   * approvals for an accept entry always go through its own network's clients.
+   */
+  private clientsFor(network: string): NetworkClients {
+    const cached = this.networkClients.get(network);
+    if (cached) return cached;
+
+    const lookup = CHAIN_LOOKUP[network];
+    if (!lookup) {
+      throw new UnsupportedNetworkError(network, Object.keys(CHAIN_LOOKUP));
+    }
+
+    const rpcUrl = this.config.rpcUrls?.[network] ??
+      (network === this.primaryNetwork ? this.config.rpcUrl : undefined);
+    const transport = http(rpcUrl ?? lookup.rpc);
+
+    const signer = this.account
+      ? createSigner(
+          createWalletClient({ account: this.account, chain: lookup.chain, transport }),
+          this.account
+        )
+      : this.walletSigner;
+
+    // Key-based signers read over RPC by default; wallets only with an explicit client or URL
+    const { publicClient } = this.config;
+    let networkPublicClient: PublicClient | null = null;
+    if (publicClient && isPublicClient(publicClient)) {
+      if (network === this.primaryNetwork) networkPublicClient = publicClient;
+    } else if (publicClient?.[network]) {
+      networkPublicClient = publicClient[network]!;
+    }
+    if (!networkPublicClient && (rpcUrl || this.account)) {
+      networkPublicClient = createPublicClient({ chain: lookup.chain, transport });
+    }
+
+    const clients: NetworkClients = { chain: lookup.chain, signer, publicClient: networkPublicClient };
+    this.networkClients.set(network, clients);
+    return clients;
   }
 
   /**
@@ -164,6 +256,10 @@ export class X402Client {
   ): Promise<AxiosResponse<T>> {
     let lastError: Error | null = null;
     let attempts = 0;
+    // Host the spending policy applies to, resolved before anything is sent
+    const host = this.config.spendingPolicy || this.config.spendLedger
+      ? this.requestHost(url, options.baseURL ?? this.axiosInstance.defaults?.baseURL)
+      : '';
 
     while (attempts <= this.config.maxRetries) {
       try {
@@ -186,21 +282,36 @@ export class X402Client {
           if (!this.canSign) {
             throw new PaymentRequiredError(
               requirement,
-              'Payment required but no signer configured. Provide a privateKey in client config.'
+              'Payment required but no signer configured. Provide a privateKey, account, walletClient or provider in client config.'
             );
           }
 
           // Select an accept entry for a supported network
-          const accept = this.selectAcceptEntry(requirement);
-          if (!accept) {
+          const candidates = requirement.accepts.filter(a =>
+            this.config.supportedNetworks.includes(a.network)
+          );
+          if (candidates.length === 0) {
             throw new UnsupportedNetworkError(
               'none',
               this.config.supportedNetworks
             );
           }
+          const selected = await this.selectAcceptEntry(candidates);
+          if (!selected) {
+            throw new PaymentRequiredError(
+              requirement,
+              'Payment required but no accepted offer can be paid from this wallet'
+            );
+          }
+
+          const accept = await this.approvePayment(requirement, candidates, {
+            url,
+            method: (options.method ?? 'GET').toUpperCase(),
+            selected,
+          });
 
-          // Sign the payment
-          const payment = await this.signPayment(accept);
+          // Sign the payment, within the spending policy
+          const payment = await this.signWithinPolicy(host, accept);
 
           if (this.config.onPaymentSigned) {
             await this.config.onPaymentSigned(payment);
@@ -221,7 +332,9 @@ export class X402Client {
         return response;
       } catch (error) {
         if (error instanceof PaymentRequiredError ||
-            error instanceof UnsupportedNetworkError) {
+            error instanceof UnsupportedNetworkError ||
+            error instanceof PaymentDeclinedError ||
+            error instanceof BudgetExceededError) {
           throw error;
         }
         lastError = error as Error;
@@ -257,32 +370,142 @@ export class X402Client {
   }
 
   /**
-   * Select the best accept entry from a payment requirement.
-   * Prefers erc3009 (no Permit2 approval needed), falls back to permit2.
+   * Select the accept entry to pay among those on supported networks, with
+   * the configured strategy (default: `selectCheapestAffordable`).
    */
-  private selectAcceptEntry(
-    requirement: PaymentRequirement
-  ): PaymentRequirement['accepts'][0] | null {
-    const supported = requirement.accepts.filter(a =>
-      this.config.supportedNetworks.includes(a.network)
-    );
-    if (supported.length === 0) return null;
+  private async selectAcceptEntry(
+    candidates: PaymentAcceptEntry[]
+  ): Promise<PaymentAcceptEntry | null> {
+    const strategy = this.config.selectAccept ?? selectCheapestAffordable;
+    return strategy(candidates, {
+      balanceOf: accept => this.readToken(accept, 'balanceOf'),
+      needsApproval: async accept => {
+        if (accept.scheme !== 'permit2') return false;
+        const allowance = await this.readToken(accept, 'allowance');
+        return allowance === null || allowance < BigInt(accept.amount);
+      },
+      usdCost: accept => offerUsdCost(accept, this.config.priceSource),
+    });
+  }
+
+  /** Payer's token balance or Permit2 allowance for an offer; null if it cannot be read */
+  private async readToken(
+    accept: PaymentAcceptEntry,
+    functionName: 'balanceOf' | 'allowance'
+  ): Promise<bigint | null> {
+    try {
+      const { signer, publicClient } = this.clientsFor(accept.network);
+      if (!signer || !publicClient) return null;
+      const payer = await signer.getAddress();
+      const address = accept.token as `0x${string}`;
+      return functionName === 'balanceOf'
+        ? await publicClient.readContract({ address, abi: ERC20_ABI, functionName, args: [payer] })
+        : await publicClient.readContract({ address, abi: ERC20_ABI, functionName, args: [payer, PERMIT2_ADDRESS] });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Ask the `approvePayment` hook, if any, before paying. Resolves the entry
+   * to pay, or rejects with `PaymentDeclinedError`. The hook's choice is
+   * matched to a candidate by value, so a copy of one is accepted.
+   */
+  private async approvePayment(
+    requirement: PaymentRequirement,
+    candidates: PaymentAcceptEntry[],
+    context: PaymentApprovalContext
+  ): Promise<PaymentAcceptEntry> {
+    if (!this.config.approvePayment) return context.selected;
+
+    const decision = await this.config.approvePayment(requirement, candidates, context);
+    if (!decision.approve) {
+      throw new PaymentDeclinedError(requirement, decision.reason);
+    }
+    if (!decision.accept) return context.selected;
+
+    const chosen = decision.accept;
+    const match = candidates.find(candidate => isSameAcceptEntry(candidate, chosen));
+    if (!match) {
+      throw new PaymentDeclinedError(requirement, 'approvePayment chose an entry that is not among the candidates');
+    }
+    return match;
+  }
+
+  /**
+   * Hostname of a request URL, resolving relative URLs against `baseURL` or,
+   * in browsers, the page.
+   *
+   * @throws X402Error (INVALID_URL) when the URL cannot be resolved
+   */
+  private requestHost(url: string, baseURL?: string): string {
+    const base = baseURL ?? (globalThis as { location?: { href: string } }).location?.href;
+    try {
+      return new URL(url, base).hostname;
+    } catch {
+      throw new X402Error(
+        base === undefined
+          ? `Cannot apply the spending policy to "${url}": relative URLs need a baseURL`
+          : `Cannot apply the spending policy to "${url}": not a valid URL against "${base}"`,
+        'INVALID_URL',
+        { url, baseURL: base }
+      );
+    }
+  }
+
+  /**
+   * Sign a payment to `host`, refusing with `BudgetExceededError` if it would
+   * break the spending policy. Signed payments are recorded in the spend
+   * ledger when a policy or ledger is configured.
+   */
+  private async signWithinPolicy(
+    host: string,
+    accept: PaymentRequirement['accepts'][0]
+  ): Promise<PaymentPayload> {
+    const { spendingPolicy, spendLedger } = this.config;
+    if (!spendingPolicy && !spendLedger) return this.signAccept(accept);
 
-    // Prefer erc3009 (no Permit2 approval needed for USDC)
-    const erc3009 = supported.find(a => a.scheme === 'erc3009');
-    if (erc3009) return erc3009;
+    const spend = {
+      host,
+      network: accept.network,
+      token: accept.token,
+      recipient: accept.recipient,
+      amount: accept.amount,
+    };
 
-    return supported.find(a => a.scheme === 'permit2') ?? null;
+    const pay = async () => {
+      if (spendingPolicy) await enforceSpendingPolicy(spendingPolicy, this.spendLedger, spend);
+      const payment = await this.signAccept(accept);
+      await this.spendLedger.record({ ...spend, timestamp: Date.now() });
+      return payment;
+    };
+    const result = this.spendQueue.then(pay, pay);
+    this.spendQueue = result.catch(() => undefined);
+    return result;
   }
 
   /**
-   * Sign a payment authorization for a specific accept entry.
-   * Returns a Permit2Payload or ERC3009Payload depending on scheme.
+   * Sign a payment authorization for a specific accept entry, within the
+   * spending policy. Returns a Permit2Payload or ERC3009Payload depending on scheme.
+   *
+   * @param url - The resource being paid for, for the policy's host rules. Without
+   *   one the payment has no host: `allowHosts` refuses it, and per-host limits
+   *   count it under the empty host.
    */
   async signPayment(
+    accept: PaymentRequirement['accepts'][0],
+    url?: string
+  ): Promise<PaymentPayload> {
+    const host = url !== undefined && (this.config.spendingPolicy || this.config.spendLedger)
+      ? this.requestHost(url, this.axiosInstance.defaults?.baseURL)
+      : '';
+    return this.signWithinPolicy(host, accept);
+  }
+
+  private async signAccept(
     accept: PaymentRequirement['accepts'][0]
   ): Promise<PaymentPayload> {
-    if (!this.walletClient || !this.account) {
+    if (!this.canSign) {
       throw new PaymentVerificationError('Cannot sign payment: no wallet configured');
     }
 
@@ -302,20 +525,26 @@ export class X402Client {
    *
    * @param token - ERC-20 token address
    * @param amount - Required transfer amount (approval is for MAX_UINT256)
+   * @param network - CAIP-2 network of the token (default: the first supported network)
    */
   async ensurePermit2Approval(
     token: `0x${string}`,
-    amount: bigint
+    amount: bigint,
+    network: string = this.primaryNetwork
   ): Promise<void> {
-    if (!this.publicClient || !this.walletClient || !this.account) {
+    const { chain, signer, publicClient } = this.clientsFor(network);
+    if (!signer) {
       throw new PaymentVerificationError('Cannot check approval: no wallet configured');
     }
+    if (!publicClient) {
+      throw new PaymentVerificationError(`Cannot check approval: no public client configured for ${network}`);
+    }
 
-    const allowance = await this.publicClient.readContract({
+    const allowance = await publicClient.readContract({
       address: token,
       abi: ERC20_ABI,
       functionName: 'allowance',
-      args: [this.account.address, PERMIT2_ADDRESS],
+      args: [await signer.getAddress(), PERMIT2_ADDRESS],
     });
 
     if (allowance >= amount) return;
@@ -328,22 +557,24 @@ export class X402Client {
       await this.config.onPermit2ApprovalNeeded(token, PERMIT2_ADDRESS);
     }
 
-    const hash = await this.walletClient.writeContract({
+    await signer.useChain(chain);
+    const hash = await signer.walletClient.writeContract({
       address: token,
       abi: ERC20_ABI,
       functionName: 'approve',
       args: [PERMIT2_ADDRESS, maxUint256],
-      account: this.account,
-      chain: this.walletClient.chain!,
+      account: await signer.getAccount(),
+      chain,
     });
 
-    await this.publicClient.waitForTransactionReceipt({ hash });
+    await publicClient.waitForTransactionReceipt({ hash });
   }
 
   /**
    * Sign a Permit2 batch witness authorization.
    *
-   * Checks Permit2 allowance first and approves if needed.
+   * Checks Permit2 allowance first and approves if needed. Without a public
+   * client the check is skipped, and a missing approval surfaces at settlement.
    *
    * The payer signs a PermitBatchWitnessTransferFrom with:
    *   permitted[0] = { token, netAmount }   → goes to recipient
@@ -356,11 +587,16 @@ export class X402Client {
     const chainId = extractChainId(accept.network);
     const grossAmount = BigInt(accept.amount);
 
-    // Ensure Permit2 has sufficient allowance for this token
-    await this.ensurePermit2Approval(
-      accept.token as `0x${string}`,
-      grossAmount
-    );
+    const { chain, signer, publicClient } = this.clientsFor(accept.network);
+
+    // Ensure Permit2 has sufficient allowance for this token, on its chain
+    if (publicClient) {
+      await this.ensurePermit2Approval(
+        accept.token as `0x${string}`,
+        grossAmount,
+        accept.network
+      );
+    }
     const { net, fee } = calculateFeeSplit(grossAmount, accept.feeBps);
 
     const nonce = generatePermit2Nonce();
@@ -385,8 +621,10 @@ export class X402Client {
 
     const domain = getPermit2Domain(chainId);
 
-    const signature = await this.walletClient!.signTypedData({
-      account: this.account!,
+    const payer = await signer!.getAddress();
+    await signer!.useChain(chain);
+
+    const signature = await signer!.signTypedData({
       domain,
       types: PERMIT2_BATCH_WITNESS_TYPES,
       primaryType: 'PermitBatchWitnessTransferFrom',
@@ -411,7 +649,7 @@ export class X402Client {
       permit,
       witness,
       spender: accept.settlement,
-      payer: this.account!.address,
+      payer,
       signature,
     };
   }
@@ -440,13 +678,16 @@ export class X402Client {
       chainId
     );
 
-    const signature = await this.walletClient!.signTypedData({
-      account: this.account!,
+    const { chain, signer } = this.clientsFor(accept.network);
+    const payer = await signer!.getAddress();
+    await signer!.useChain(chain);
+
+    const signature = await signer!.signTypedData({
       domain,
       types: ERC3009_TYPES,
       primaryType: 'TransferWithAuthorization',
       message: {
-        from: this.account!.address,
+        from: payer,
         to: accept.settlement as `0x${string}`,
         value: grossAmount,
         validAfter: BigInt(validAfter),
@@ -459,7 +700,7 @@ export class X402Client {
       scheme: 'erc3009',
       network: accept.network,
       authorization: {
-        from: this.account!.address,
+        from: payer,
         to: accept.settlement,
         value: grossAmount.toString(),
         validAfter,
@@ -467,7 +708,7 @@ export class X402Client {
         nonce,
       },
       recipient: accept.recipient,
-      payer: this.account!.address,
+      payer,
       signature,
     };
   }
@@ -548,8 +789,23 @@ export {
   UnsupportedNetworkError,
   PaymentExpiredError,
   Permit2ApprovalRequiredError,
+  PaymentDeclinedError,
+  type PaymentAcceptEntry,
+  type PaymentApproval,
+  type PaymentApprovalContext,
+  type AcceptSelectionStrategy,
+  type AcceptSelectionContext,
+  BudgetExceededError,
+  type SpendingPolicy,
+  type SpendLedger,
+  type SpendRecord,
+  type TokenAmounts,
+  type SpendingRule,
 } from '../types/index.js';
 
+export { InMemorySpendLedger, enforceSpendingPolicy, type PendingSpend } from './spend-ledger.js';
+export { selectCheapestAffordable, preferERC3009, offerUsdCost } from './selection.js';
+
 export {
   ETH_CAIP_ID,
   ETH_CHAIN_ID,
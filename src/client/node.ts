@@ -0,0 +1,12 @@
+/**
+ * Node.js-only client helpers. They use `node:fs`, so they live outside the
+ * main client entry to keep it loadable in browsers.
+ *
+ * @example
+ * ```typescript
+ * import { X402Client } from '@wazabiai/x402/client';
+ * import { FileSpendLedger } from '@wazabiai/x402/client/node';
+ * ```
+ */
+
+export { FileSpendLedger } from './file-spend-ledger.js';
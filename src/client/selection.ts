@@ -0,0 +1,71 @@
+import type {
+  AcceptSelectionStrategy,
+  PaymentAcceptEntry,
+  UsdPriceSource,
+} from '../types/index.js';
+import { getTokenByAddress } from '../chains/index.js';
+
+// ============================================================================
+// Offer Pricing
+// ============================================================================
+
+/**
+ * Gross amount of an offer in USD. Stablecoins listed in SUPPORTED_NETWORKS
+ * count 1:1; other listed tokens need `priceSource`. Unlisted tokens, whose
+ * decimals are unknown, resolve null.
+ */
+export async function offerUsdCost(
+  accept: PaymentAcceptEntry,
+  priceSource?: UsdPriceSource
+): Promise<number | null> {
+  const token = getTokenByAddress(accept.network, accept.token);
+  if (!token) return null;
+
+  let tokenUsd = 1;
+  if (!token.stablecoin) {
+    if (!priceSource) return null;
+    tokenUsd = Number(await priceSource(token, accept.network));
+    if (!Number.isFinite(tokenUsd)) return null;
+  }
+  return (Number(accept.amount) / 10 ** token.decimals) * tokenUsd;
+}
+
+// ============================================================================
+// Selection Strategies
+// ============================================================================
+
+/**
+ * Default strategy. Drops offers the payer's balance cannot cover, prefers
+ * offers that need no Permit2 approval transaction, then the cheapest in USD.
+ * Offers whose balance cannot be read are kept; unpriced offers rank last.
+ * Ties go to ERC-3009, then to the server's order.
+ */
+export const selectCheapestAffordable: AcceptSelectionStrategy = async (candidates, context) => {
+  const offers = await Promise.all(candidates.map(async (accept, index) => {
+    const [balance, needsApproval, usd] = await Promise.all([
+      context.balanceOf(accept),
+      context.needsApproval(accept),
+      context.usdCost(accept),
+    ]);
+    return { accept, index, affordable: balance === null || balance >= BigInt(accept.amount), needsApproval, usd };
+  }));
+
+  const ranked = offers
+    .filter(offer => offer.affordable)
+    .sort((a, b) =>
+      Number(a.needsApproval) - Number(b.needsApproval) ||
+      (a.usd ?? Infinity) - (b.usd ?? Infinity) ||
+      Number(a.accept.scheme !== 'erc3009') - Number(b.accept.scheme !== 'erc3009') ||
+      a.index - b.index
+    );
+  return ranked[0]?.accept ?? null;
+};
+
+/**
+ * Strategy without chain reads: the first ERC-3009 entry (no Permit2
+ * approval needed), falling back to the first Permit2 entry.
+ */
+export const preferERC3009: AcceptSelectionStrategy = (candidates) =>
+  candidates.find(a => a.scheme === 'erc3009') ??
+  candidates.find(a => a.scheme === 'permit2') ??
+  null;
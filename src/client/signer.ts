@@ -0,0 +1,75 @@
+import type { Account, Chain, TypedData, TypedDataDefinition, WalletClient } from 'viem';
+import { PaymentVerificationError } from '../types/index.js';
+
+// ============================================================================
+// Signer Abstraction
+// ============================================================================
+
+/**
+ * What X402Client needs from a wallet: the payer address, EIP-712 signatures,
+ * and a wallet client to send the one-time Permit2 approval.
+ *
+ * Every supported source (private key, viem Account, WalletClient, EIP-1193
+ * provider) is reduced to a WalletClient, so they all sign the same way.
+ */
+export interface X402Signer {
+  readonly walletClient: WalletClient;
+  /** Payer address, or null until the wallet has exposed one */
+  readonly address: `0x${string}` | null;
+  /** Account or address to sign and send with; an injected wallet may prompt on first use */
+  getAccount(): Promise<Account | `0x${string}`>;
+  getAddress(): Promise<`0x${string}`>;
+  /** Switch the wallet to `chain` before signing or sending there; local accounts need not */
+  useChain(chain: Chain): Promise<void>;
+  signTypedData<
+    const typedData extends TypedData | Record<string, unknown>,
+    primaryType extends keyof typedData | 'EIP712Domain',
+  >(definition: TypedDataDefinition<typedData, primaryType>): Promise<`0x${string}`>;
+}
+
+/**
+ * Wrap a wallet client, signing as `account` (default: the client's own).
+ * Without either, the first address the wallet exposes is used, requesting
+ * access if none is exposed yet.
+ */
+export function createSigner(
+  walletClient: WalletClient,
+  account: Account | undefined = walletClient.account
+): X402Signer {
+  let address: `0x${string}` | undefined = account?.address;
+
+  const getAddress = async (): Promise<`0x${string}`> => {
+    if (address) return address;
+    let addresses = await walletClient.getAddresses();
+    if (addresses.length === 0) addresses = await walletClient.requestAddresses();
+    if (!addresses[0]) {
+      throw new PaymentVerificationError('Wallet did not expose an account to pay from');
+    }
+    address = addresses[0];
+    return address;
+  };
+
+  const getAccount = async (): Promise<Account | `0x${string}`> =>
+    account ?? getAddress();
+
+  return {
+    walletClient,
+    get address() {
+      return address ?? null;
+    },
+    getAccount,
+    getAddress,
+    async useChain(chain) {
+      if (account?.type === 'local') return;
+      if (await walletClient.getChainId() !== chain.id) {
+        await walletClient.switchChain({ id: chain.id });
+      }
+    },
+    async signTypedData(definition) {
+      return walletClient.signTypedData({
+        ...definition,
+        account: await getAccount(),
+      } as Parameters<WalletClient['signTypedData']>[0]);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import {
+  type SpendingPolicy,
+  type SpendLedger,
+  type SpendRecord,
+  type TokenAmounts,
+  BudgetExceededError,
+} from '../types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// Policy Enforcement
+// ============================================================================
+
+/** A payment about to be signed */
+export type PendingSpend = Omit<SpendRecord, 'timestamp'>;
+
+/** Cap for `token`, matching addresses case-insensitively */
+function capFor(amounts: TokenAmounts | undefined, token: string): bigint | null {
+  if (!amounts) return null;
+  const key = Object.keys(amounts).find(k => k.toLowerCase() === token.toLowerCase());
+  return key === undefined ? null : BigInt(amounts[key]!);
+}
+
+/** Whether `host` is listed, exactly or under a `*.domain` pattern */
+function matchesHost(patterns: string[], host: string): boolean {
+  const name = host.toLowerCase();
+  return patterns.some(pattern => {
+    const p = pattern.toLowerCase();
+    return p.startsWith('*.') ? name.endsWith(p.slice(1)) : name === p;
+  });
+}
+
+function includesAddress(addresses: string[], address: string): boolean {
+  return addresses.some(a => a.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * Throw `BudgetExceededError` if paying `spend` would break `policy`, given
+ * what `ledger` has recorded so far. Lists are checked before amounts.
+ */
+export async function enforceSpendingPolicy(
+  policy: SpendingPolicy,
+  ledger: SpendLedger,
+  spend: PendingSpend
+): Promise<void> {
+  const { host, token, recipient } = spend;
+  const amount = BigInt(spend.amount);
+
+  if (policy.denyHosts && matchesHost(policy.denyHosts, host)) {
+    throw new BudgetExceededError('host', `Host ${host} is denied by the spending policy`, { host });
+  }
+  if (policy.allowHosts && !matchesHost(policy.allowHosts, host)) {
+    throw new BudgetExceededError('host', `Host ${host} is not allowed by the spending policy`, { host });
+  }
+  if (policy.denyRecipients && includesAddress(policy.denyRecipients, recipient)) {
+    throw new BudgetExceededError('recipient', `Recipient ${recipient} is denied by the spending policy`, { recipient });
+  }
+  if (policy.allowRecipients && !includesAddress(policy.allowRecipients, recipient)) {
+    throw new BudgetExceededError('recipient', `Recipient ${recipient} is not allowed by the spending policy`, { recipient });
+  }
+
+  const maxPerPayment = capFor(policy.maxPerPayment, token);
+  if (maxPerPayment !== null && amount > maxPerPayment) {
+    throw new BudgetExceededError(
+      'maxPerPayment',
+      `Payment of ${amount} exceeds the per-payment limit of ${maxPerPayment}`,
+      { host, token, amount: amount.toString(), limit: maxPerPayment.toString() }
+    );
+  }
+
+  const now = Date.now();
+  const windows = [
+    { rule: 'maxPerHostHourly', cap: capFor(policy.maxPerHostHourly, token), host, since: now - HOUR_MS, label: `hourly limit for ${host}` },
+    { rule: 'maxPerHostDaily', cap: capFor(policy.maxPerHostDaily, token), host, since: now - DAY_MS, label: `daily limit for ${host}` },
+    { rule: 'budget', cap: capFor(policy.budget, token), host: undefined, since: undefined, label: 'budget' },
+  ] as const;
+
+  for (const window of windows) {
+    if (window.cap === null) continue;
+    const spent = await ledger.total({ token, host: window.host, since: window.since });
+    if (spent + amount > window.cap) {
+      throw new BudgetExceededError(
+        window.rule,
+        `Payment of ${amount} would exceed the ${window.label} (${spent} of ${window.cap} spent)`,
+        {
+          host,
+          token,
+          amount: amount.toString(),
+          limit: window.cap.toString(),
+          spent: spent.toString(),
+        }
+      );
+    }
+  }
+}
+
+// ============================================================================
+// In-Memory Spend Ledger
+// ============================================================================
+
+/**
+ * Process-local spend ledger. Spend is forgotten on restart, so a budget only
+ * holds for the life of the process; use `FileSpendLedger` from
+ * `@wazabiai/x402/client/node` to keep it.
+ */
+export class InMemorySpendLedger implements SpendLedger {
+  private readonly records: SpendRecord[] = [];
+
+  async record(entry: SpendRecord): Promise<void> {
+    this.records.push(entry);
+  }
+
+  async total(query: { token: string; host?: string; since?: number }): Promise<bigint> {
+    return sumRecords(this.records, query);
+  }
+}
+
+/** Sum of records matching a {@link SpendLedger.total} query */
+export function sumRecords(
+  records: SpendRecord[],
+  { token, host, since }: { token: string; host?: string; since?: number }
+): bigint {
+  const tokenKey = token.toLowerCase();
+  const hostKey = host?.toLowerCase();
+  let total = BigInt(0);
+  for (const record of records) {
+    if (record.token.toLowerCase() !== tokenKey) continue;
+    if (hostKey !== undefined && record.host.toLowerCase() !== hostKey) continue;
+    if (since !== undefined && record.timestamp < since) continue;
+    total += BigInt(record.amount);
+  }
+  return total;
+}
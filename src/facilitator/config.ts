@@ -1,6 +1,9 @@
 import { privateKeyToAccount } from 'viem/accounts';
 import { createWalletClient, createPublicClient, http, type PublicClient, type WalletClient, type Chain } from 'viem';
 import { mainnet, bsc, base } from 'viem/chains';
+import { InMemoryStore, type DataStore } from './db/schema.js';
+import { PostgresStore } from './db/postgres.js';
+import { SqliteStore } from './db/sqlite.js';
 
 // ============================================================================
 // Defaults
@@ -32,6 +35,9 @@ export interface FacilitatorEnvConfig {
   rpcUrls: Record<string, string>;
   port: number;
   portalDir: string;
+  adminToken?: string;
+  /** `postgres://` or `sqlite:<path>` URL of the history database; unset keeps history in memory */
+  databaseUrl?: string;
 }
 
 function requireEnv(name: string): string {
@@ -85,6 +91,8 @@ export function loadConfig(): FacilitatorEnvConfig {
     },
     port: parseInt(optionalEnv('PORT', '3000')),
     portalDir: optionalEnv('PORTAL_DIR', 'apps/facilitator-portal'),
+    adminToken: process.env.ADMIN_TOKEN || undefined,
+    databaseUrl: process.env.DATABASE_URL || undefined,
   };
 }
 
@@ -118,3 +126,20 @@ export function createClients(config: FacilitatorEnvConfig): {
 
   return { publicClients, walletClients };
 }
+
+// ============================================================================
+// Create Data Store
+// ============================================================================
+
+/**
+ * Open the store `DATABASE_URL` points at, applying migrations, or an
+ * in-memory store when it is unset. `sqlite:./x402.db` opens a SQLite file
+ * relative to the working directory.
+ */
+export async function createStore(config: Pick<FacilitatorEnvConfig, 'databaseUrl'>): Promise<DataStore> {
+  const url = config.databaseUrl;
+  if (!url) return new InMemoryStore();
+  if (/^postgres(ql)?:\/\//.test(url)) return PostgresStore.connect(url);
+  if (url.startsWith('sqlite:')) return SqliteStore.open(url.slice('sqlite:'.length).replace(/^\/\//, ''));
+  throw new Error(`Unsupported DATABASE_URL scheme: ${url.split(':')[0]}`);
+}
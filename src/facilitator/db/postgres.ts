@@ -0,0 +1,361 @@
+/**
+ * PostgreSQL DataStore
+ *
+ * Persists transactions and webhook deliveries in PostgreSQL through `pg`
+ * (an optional peer dependency). Pending migrations are applied on startup,
+ * and every query is parameterized.
+ */
+
+import type {
+  Transaction,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../types.js';
+import {
+  CREATE_ALL_TABLES,
+  ADD_TRANSACTIONS_ORPHANED_AT,
+  CREATE_DELIVERY_DUE_INDEX,
+  toStatusList,
+  type DataStore,
+  type TransactionQuery,
+} from './schema.js';
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/** Ordered schema migrations; applied versions are recorded in `schema_migrations` */
+export const POSTGRES_MIGRATIONS: ReadonlyArray<{ version: number; sql: string }> = [
+  { version: 1, sql: CREATE_ALL_TABLES },
+  { version: 2, sql: ADD_TRANSACTIONS_ORPHANED_AT },
+  { version: 3, sql: CREATE_DELIVERY_DUE_INDEX },
+];
+
+// ============================================================================
+// Connection Types
+// ============================================================================
+
+interface PgResult<R> {
+  rows: R[];
+  rowCount: number | null;
+}
+
+/** The slice of a `pg` client the store uses */
+export interface PgClient {
+  query<R = Record<string, unknown>>(text: string, values?: unknown[]): Promise<PgResult<R>>;
+}
+
+/** The slice of a `pg.Pool` the store uses */
+export interface PgPool extends PgClient {
+  connect(): Promise<PgClient & { release(): void }>;
+  end?(): Promise<void>;
+}
+
+// ============================================================================
+// Row Mapping
+// ============================================================================
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// NUMERIC columns are read back as text so uint256 amounts stay exact
+const TRANSACTION_COLUMNS = `id, from_address, to_address, amount::text AS amount, token, network,
+  fee::text AS fee, gas_cost::text AS gas_cost, tx_hash, status, created_at`;
+
+const WEBHOOK_DELIVERY_COLUMNS = [
+  'webhook_id',
+  'transaction_id',
+  'event',
+  'payload',
+  'status',
+  'attempts',
+  'last_status_code',
+  'last_error',
+  'next_attempt_at',
+  'created_at',
+  'delivered_at',
+] as const;
+
+/** DECIMAL(36,18) pads with zeros; drop them so values read back as written */
+function trimDecimal(value: string): string {
+  return value.includes('.') ? value.replace(/\.?0+$/, '') : value;
+}
+
+function toTransaction(row: Transaction): Transaction {
+  return { ...row, gas_cost: trimDecimal(row.gas_cost), created_at: new Date(row.created_at) };
+}
+
+function toWebhookDelivery(row: WebhookDelivery): WebhookDelivery {
+  return {
+    ...row,
+    attempts: Number(row.attempts),
+    created_at: new Date(row.created_at),
+    next_attempt_at: row.next_attempt_at && new Date(row.next_attempt_at),
+    delivered_at: row.delivered_at && new Date(row.delivered_at),
+  };
+}
+
+// ============================================================================
+// PostgreSQL Store Implementation
+// ============================================================================
+
+export class PostgresStore implements DataStore {
+  private readonly pool: PgPool;
+
+  constructor(pool: PgPool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Connect with a `postgres://` URL and apply pending migrations.
+   *
+   * @example
+   * ```typescript
+   * const store = await PostgresStore.connect(process.env.DATABASE_URL!);
+   * createFacilitator(app, { store, ...clients });
+   * ```
+   */
+  static async connect(connectionString: string): Promise<PostgresStore> {
+    const { default: pg } = await import('pg');
+    const store = new PostgresStore(new pg.Pool({ connectionString }) as unknown as PgPool);
+    await store.migrate();
+    return store;
+  }
+
+  /** Apply migrations not yet recorded in `schema_migrations`, each in its own transaction */
+  async migrate(): Promise<void> {
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+    const { rows } = await this.pool.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map(row => Number(row.version)));
+
+    for (const migration of POSTGRES_MIGRATIONS) {
+      if (applied.has(migration.version)) continue;
+      const client = await this.pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version) VALUES ($1) ON CONFLICT (version) DO NOTHING',
+          [migration.version]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end?.();
+  }
+
+  // ==========================================================================
+  // Transactions
+  // ==========================================================================
+
+  async createTransaction(tx: Transaction): Promise<Transaction> {
+    await this.pool.query(
+      `INSERT INTO transactions
+        (id, from_address, to_address, amount, token, network, fee, gas_cost, tx_hash, status, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        tx.id, tx.from_address, tx.to_address, tx.amount, tx.token, tx.network,
+        tx.fee, tx.gas_cost, tx.tx_hash, tx.status, tx.created_at,
+      ]
+    );
+    return tx;
+  }
+
+  async getTransaction(id: string): Promise<Transaction | null> {
+    // Non-UUID ids cannot exist, and would make Postgres reject the query
+    if (!UUID_RE.test(id)) return null;
+    const { rows } = await this.pool.query<Transaction>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE id = $1`,
+      [id]
+    );
+    return rows[0] ? toTransaction(rows[0]) : null;
+  }
+
+  async getTransactionByHash(txHash: string): Promise<Transaction | null> {
+    const { rows } = await this.pool.query<Transaction>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE tx_hash = $1`,
+      [txHash]
+    );
+    return rows[0] ? toTransaction(rows[0]) : null;
+  }
+
+  async findTransactions(
+    query: TransactionQuery = {}
+  ): Promise<{ transactions: Transaction[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const param = (value: unknown) => `$${params.push(value)}`;
+
+    if (query.address) {
+      const address = param(query.address);
+      conditions.push(`(from_address = ${address} OR to_address = ${address})`);
+    }
+    const statuses = toStatusList(query.status);
+    if (statuses) {
+      conditions.push(`status IN (${statuses.map(status => param(status)).join(', ')})`);
+    }
+    if (query.from) conditions.push(`created_at >= ${param(query.from)}`);
+    if (query.to) conditions.push(`created_at < ${param(query.to)}`);
+    if (query.orphaned !== undefined) {
+      conditions.push(query.orphaned ? 'orphaned_at IS NOT NULL' : 'orphaned_at IS NULL');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const count = await this.pool.query<{ total: string | number }>(
+      `SELECT COUNT(*) AS total FROM transactions ${where}`,
+      params
+    );
+    const { rows } = await this.pool.query<Transaction>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM transactions ${where}
+       ORDER BY created_at DESC
+       LIMIT ${param(query.limit ?? 20)} OFFSET ${param(query.offset ?? 0)}`,
+      params
+    );
+    return {
+      transactions: rows.map(toTransaction),
+      total: Number(count.rows[0]?.total ?? 0),
+    };
+  }
+
+  async getTransactionsByAddress(
+    address: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ transactions: Transaction[]; total: number }> {
+    const { rows } = await this.pool.query<Transaction>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM transactions
+       WHERE from_address = $1 OR to_address = $1
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [address, limit, offset]
+    );
+    const count = await this.pool.query<{ total: string | number }>(
+      'SELECT COUNT(*) AS total FROM transactions WHERE from_address = $1 OR to_address = $1',
+      [address]
+    );
+    return {
+      transactions: rows.map(toTransaction),
+      total: Number(count.rows[0]?.total ?? 0),
+    };
+  }
+
+  async updateTransactionStatus(id: string, status: string, txHash?: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE transactions SET status = $2, tx_hash = COALESCE($3, tx_hash) WHERE id = $1',
+      [id, status, txHash ?? null]
+    );
+  }
+
+  async updateTransactionGas(id: string, gasCost: string): Promise<void> {
+    await this.pool.query('UPDATE transactions SET gas_cost = $2 WHERE id = $1', [id, gasCost]);
+  }
+
+  async markTransactionOrphaned(id: string, at: Date): Promise<void> {
+    await this.pool.query(
+      'UPDATE transactions SET orphaned_at = COALESCE(orphaned_at, $2) WHERE id = $1',
+      [id, at]
+    );
+  }
+
+  async getTransactionCount(): Promise<number> {
+    const { rows } = await this.pool.query<{ total: string | number }>(
+      'SELECT COUNT(*) AS total FROM transactions'
+    );
+    return Number(rows[0]?.total ?? 0);
+  }
+
+  // ==========================================================================
+  // Webhooks
+  // ==========================================================================
+
+  async createWebhook(webhook: Webhook): Promise<Webhook> {
+    await this.pool.query(
+      'INSERT INTO webhooks (id, recipient_address, url, secret, created_at) VALUES ($1, $2, $3, $4, $5)',
+      [webhook.id, webhook.recipient_address, webhook.url, webhook.secret, webhook.created_at]
+    );
+    return webhook;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    if (!UUID_RE.test(id)) return null;
+    const { rows } = await this.pool.query<Webhook>('SELECT * FROM webhooks WHERE id = $1', [id]);
+    return rows[0] ? { ...rows[0], created_at: new Date(rows[0].created_at) } : null;
+  }
+
+  async getWebhooksByRecipient(address: string): Promise<Webhook[]> {
+    const { rows } = await this.pool.query<Webhook>(
+      'SELECT * FROM webhooks WHERE recipient_address = $1 ORDER BY created_at',
+      [address.toLowerCase()]
+    );
+    return rows.map(row => ({ ...row, created_at: new Date(row.created_at) }));
+  }
+
+  async createWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const placeholders = WEBHOOK_DELIVERY_COLUMNS.map((_, i) => `$${i + 2}`).join(', ');
+    await this.pool.query(
+      `INSERT INTO webhook_deliveries (id, ${WEBHOOK_DELIVERY_COLUMNS.join(', ')}) VALUES ($1, ${placeholders})`,
+      [delivery.id, ...WEBHOOK_DELIVERY_COLUMNS.map(column => delivery[column])]
+    );
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+    if (!UUID_RE.test(id)) return null;
+    const { rows } = await this.pool.query<WebhookDelivery>(
+      'SELECT * FROM webhook_deliveries WHERE id = $1',
+      [id]
+    );
+    return rows[0] ? toWebhookDelivery(rows[0]) : null;
+  }
+
+  async getWebhookDeliveries(
+    filter: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    const { rows } = await this.pool.query<WebhookDelivery>(
+      `SELECT * FROM webhook_deliveries
+       WHERE ($1::text IS NULL OR status = $1)
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [filter.status ?? null, filter.limit ?? 50]
+    );
+    return rows.map(toWebhookDelivery);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const { rows } = await this.pool.query<WebhookDelivery>(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= $1
+       ORDER BY next_attempt_at ASC
+       LIMIT $2`,
+      [now, limit]
+    );
+    return rows.map(toWebhookDelivery);
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    update: Partial<Omit<WebhookDelivery, 'id'>>
+  ): Promise<void> {
+    // Column names come from a fixed list, values are parameters
+    const columns = WEBHOOK_DELIVERY_COLUMNS.filter(column => column in update);
+    if (columns.length === 0) return;
+    const assignments = columns.map((column, i) => `${column} = $${i + 2}`).join(', ');
+    await this.pool.query(
+      `UPDATE webhook_deliveries SET ${assignments} WHERE id = $1`,
+      [id, ...columns.map(column => update[column])]
+    );
+  }
+}
@@ -4,21 +4,29 @@
  * Transaction storage for settlement history and auditing.
  */
 
-import type { Transaction } from '../types.js';
+import type {
+  Transaction,
+  TransactionStatus,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../types.js';
 
 // ============================================================================
 // SQL Schema (for PostgreSQL migration)
 // ============================================================================
 
+// Amounts and fees are in the token's smallest unit, up to uint256
+
 export const CREATE_TRANSACTIONS_TABLE = `
 CREATE TABLE IF NOT EXISTS transactions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   from_address VARCHAR(42) NOT NULL,
   to_address VARCHAR(42) NOT NULL,
-  amount DECIMAL(36,18) NOT NULL,
-  token VARCHAR(10) NOT NULL,
+  amount NUMERIC(78,0) NOT NULL,
+  token VARCHAR(42) NOT NULL,
   network VARCHAR(20) NOT NULL,
-  fee DECIMAL(36,18) NOT NULL DEFAULT 0,
+  fee NUMERIC(78,0) NOT NULL DEFAULT 0,
   gas_cost DECIMAL(36,18) NOT NULL DEFAULT 0,
   tx_hash VARCHAR(66),
   status VARCHAR(20) NOT NULL DEFAULT 'pending',
@@ -34,19 +42,105 @@ CREATE INDEX IF NOT EXISTS idx_tx_created ON transactions(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_tx_hash ON transactions(tx_hash) WHERE tx_hash IS NOT NULL;
 `;
 
-export const CREATE_ALL_TABLES = CREATE_TRANSACTIONS_TABLE;
+export const CREATE_WEBHOOKS_TABLE = `
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_address VARCHAR(42) NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_recipient ON webhooks(recipient_address);
+`;
+
+export const CREATE_WEBHOOK_DELIVERIES_TABLE = `
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL,
+  event VARCHAR(40) NOT NULL,
+  payload TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE,
+
+  CONSTRAINT valid_delivery_status CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_status ON webhook_deliveries(status);
+CREATE INDEX IF NOT EXISTS idx_delivery_created ON webhook_deliveries(created_at DESC);
+`;
+
+export const CREATE_ALL_TABLES = CREATE_TRANSACTIONS_TABLE + CREATE_WEBHOOKS_TABLE + CREATE_WEBHOOK_DELIVERIES_TABLE;
+
+// Set by the reconciler on pending rows it found stranded, for review
+export const ADD_TRANSACTIONS_ORPHANED_AT = `
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS orphaned_at TIMESTAMP WITH TIME ZONE;
+`;
+
+// Serves the webhook sweep's due-retry lookup
+export const CREATE_DELIVERY_DUE_INDEX = `
+CREATE INDEX IF NOT EXISTS idx_delivery_due ON webhook_deliveries(status, next_attempt_at);
+`;
 
 // ============================================================================
 // DataStore Interface
 // ============================================================================
 
+/** Filter for `DataStore.findTransactions`; omitted fields match everything */
+export interface TransactionQuery {
+  /** Matches either side of the transfer */
+  address?: string;
+  status?: TransactionStatus | TransactionStatus[];
+  /** Inclusive lower bound on `created_at` */
+  from?: Date;
+  /** Exclusive upper bound on `created_at` */
+  to?: Date;
+  /** Only rows flagged (true) or not flagged (false) by `markTransactionOrphaned` */
+  orphaned?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Persistence used by the facilitator. Implementations must pass the shared
+ * conformance suite in `tests/datastore-conformance.ts`.
+ */
 export interface DataStore {
   createTransaction(tx: Transaction): Promise<Transaction>;
   getTransaction(id: string): Promise<Transaction | null>;
+  getTransactionByHash(txHash: string): Promise<Transaction | null>;
+  /** Matching transactions newest first, with the total before paging */
+  findTransactions(query?: TransactionQuery): Promise<{ transactions: Transaction[]; total: number }>;
   updateTransactionStatus(id: string, status: string, txHash?: string): Promise<void>;
   updateTransactionGas(id: string, gasCost: string): Promise<void>;
+  /** Flag a stranded pending row for review; the first flag's time is kept */
+  markTransactionOrphaned(id: string, at: Date): Promise<void>;
   getTransactionsByAddress(address: string, limit?: number, offset?: number): Promise<{ transactions: Transaction[]; total: number }>;
   getTransactionCount(): Promise<number>;
+
+  createWebhook(webhook: Webhook): Promise<Webhook>;
+  getWebhook(id: string): Promise<Webhook | null>;
+  getWebhooksByRecipient(address: string): Promise<Webhook[]>;
+  createWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | null>;
+  getWebhookDeliveries(filter?: { status?: WebhookDeliveryStatus; limit?: number }): Promise<WebhookDelivery[]>;
+  /** Pending deliveries with `next_attempt_at` at or before `now`, most overdue first */
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, update: Partial<Omit<WebhookDelivery, 'id'>>): Promise<void>;
+}
+
+/** Normalize a status filter; `undefined` (or an empty list) means any status */
+export function toStatusList(
+  status: TransactionQuery['status']
+): TransactionStatus[] | undefined {
+  const list = status === undefined ? [] : Array.isArray(status) ? status : [status];
+  return list.length > 0 ? list : undefined;
 }
 
 // ============================================================================
@@ -55,6 +149,10 @@ export interface DataStore {
 
 export class InMemoryStore implements DataStore {
   private transactions: Transaction[] = [];
+  /** `markTransactionOrphaned` times, by transaction id */
+  private orphanedAt = new Map<string, Date>();
+  private webhooks: Webhook[] = [];
+  private webhookDeliveries: WebhookDelivery[] = [];
 
   async createTransaction(tx: Transaction): Promise<Transaction> {
     this.transactions.push(tx);
@@ -65,6 +163,31 @@ export class InMemoryStore implements DataStore {
     return this.transactions.find(t => t.id === id) ?? null;
   }
 
+  async getTransactionByHash(txHash: string): Promise<Transaction | null> {
+    return this.transactions.find(t => t.tx_hash === txHash) ?? null;
+  }
+
+  async findTransactions(
+    query: TransactionQuery = {}
+  ): Promise<{ transactions: Transaction[]; total: number }> {
+    const statuses = toStatusList(query.status);
+    const filtered = this.transactions.filter(tx =>
+      (!query.address || tx.from_address === query.address || tx.to_address === query.address) &&
+      (!statuses || statuses.includes(tx.status)) &&
+      (!query.from || tx.created_at >= query.from) &&
+      (!query.to || tx.created_at < query.to) &&
+      (query.orphaned === undefined || this.orphanedAt.has(tx.id) === query.orphaned)
+    );
+    const sorted = filtered.sort(
+      (a, b) => b.created_at.getTime() - a.created_at.getTime()
+    );
+    const offset = query.offset ?? 0;
+    return {
+      transactions: sorted.slice(offset, offset + (query.limit ?? 20)),
+      total: sorted.length,
+    };
+  }
+
   async getTransactionsByAddress(
     address: string,
     limit: number = 20,
@@ -101,7 +224,59 @@ export class InMemoryStore implements DataStore {
     }
   }
 
+  async markTransactionOrphaned(id: string, at: Date): Promise<void> {
+    if (!this.orphanedAt.has(id)) this.orphanedAt.set(id, at);
+  }
+
   async getTransactionCount(): Promise<number> {
     return this.transactions.length;
   }
+
+  async createWebhook(webhook: Webhook): Promise<Webhook> {
+    this.webhooks.push(webhook);
+    return webhook;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    return this.webhooks.find(w => w.id === id) ?? null;
+  }
+
+  async getWebhooksByRecipient(address: string): Promise<Webhook[]> {
+    return this.webhooks.filter(w => w.recipient_address === address.toLowerCase());
+  }
+
+  async createWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    this.webhookDeliveries.push(delivery);
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+    return this.webhookDeliveries.find(d => d.id === id) ?? null;
+  }
+
+  async getWebhookDeliveries(
+    filter: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    const filtered = this.webhookDeliveries.filter(
+      d => !filter.status || d.status === filter.status
+    );
+    return filtered
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+      .slice(0, filter.limit ?? 50);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.webhookDeliveries
+      .filter(d => d.status === 'pending' && d.next_attempt_at !== null && d.next_attempt_at <= now)
+      .sort((a, b) => a.next_attempt_at!.getTime() - b.next_attempt_at!.getTime())
+      .slice(0, limit);
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    update: Partial<Omit<WebhookDelivery, 'id'>>
+  ): Promise<void> {
+    const delivery = this.webhookDeliveries.find(d => d.id === id);
+    if (delivery) Object.assign(delivery, update);
+  }
 }
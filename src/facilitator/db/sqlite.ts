@@ -0,0 +1,401 @@
+/**
+ * SQLite DataStore
+ *
+ * Persists transactions and webhook deliveries in a single SQLite file, for
+ * single-node deployments that need history to survive restarts. Uses
+ * `better-sqlite3` (an optional peer dependency); any driver with the same
+ * synchronous `prepare`/`exec` API, such as `node:sqlite`, can be passed in.
+ *
+ * Follows the semantics of CREATE_TRANSACTIONS_TABLE. SQLite has no exact
+ * NUMERIC type, so amounts and fees are stored as decimal strings in TEXT
+ * columns, never as floats.
+ */
+
+import type {
+  Transaction,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../types.js';
+import { toStatusList, type DataStore, type TransactionQuery } from './schema.js';
+
+// ============================================================================
+// SQL Schema (SQLite dialect)
+// ============================================================================
+
+export const SQLITE_CREATE_TABLES = `
+CREATE TABLE IF NOT EXISTS transactions (
+  id TEXT PRIMARY KEY,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  amount TEXT NOT NULL CHECK (amount <> '' AND amount NOT GLOB '*[^0-9]*'),
+  token TEXT NOT NULL,
+  network TEXT NOT NULL,
+  fee TEXT NOT NULL DEFAULT '0' CHECK (fee <> '' AND fee NOT GLOB '*[^0-9]*'),
+  gas_cost TEXT NOT NULL DEFAULT '0',
+  tx_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TEXT NOT NULL,
+
+  CONSTRAINT valid_status CHECK (status IN ('pending', 'submitted', 'confirmed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tx_from ON transactions(from_address);
+CREATE INDEX IF NOT EXISTS idx_tx_to ON transactions(to_address);
+CREATE INDEX IF NOT EXISTS idx_tx_status ON transactions(status);
+CREATE INDEX IF NOT EXISTS idx_tx_created ON transactions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tx_hash ON transactions(tx_hash) WHERE tx_hash IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  recipient_address TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_recipient ON webhooks(recipient_address);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  transaction_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  next_attempt_at TEXT,
+  created_at TEXT NOT NULL,
+  delivered_at TEXT,
+
+  CONSTRAINT valid_delivery_status CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_status ON webhook_deliveries(status);
+CREATE INDEX IF NOT EXISTS idx_delivery_created ON webhook_deliveries(created_at DESC);
+`;
+
+// Set by the reconciler on pending rows it found stranded, for review
+export const SQLITE_ADD_TRANSACTIONS_ORPHANED_AT = `
+ALTER TABLE transactions ADD COLUMN orphaned_at TEXT;
+`;
+
+// Serves the webhook sweep's due-retry lookup
+export const SQLITE_CREATE_DELIVERY_DUE_INDEX = `
+CREATE INDEX IF NOT EXISTS idx_delivery_due ON webhook_deliveries(status, next_attempt_at);
+`;
+
+/** Ordered schema migrations; the applied version is kept in `PRAGMA user_version` */
+export const SQLITE_MIGRATIONS: ReadonlyArray<{ version: number; sql: string }> = [
+  { version: 1, sql: SQLITE_CREATE_TABLES },
+  { version: 2, sql: SQLITE_ADD_TRANSACTIONS_ORPHANED_AT },
+  { version: 3, sql: SQLITE_CREATE_DELIVERY_DUE_INDEX },
+];
+
+// ============================================================================
+// Driver Types
+// ============================================================================
+
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/** The slice of a `better-sqlite3` / `node:sqlite` database the store uses */
+export interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): unknown;
+  close?(): unknown;
+}
+
+// ============================================================================
+// Row Mapping
+// ============================================================================
+
+// Timestamps are ISO-8601 strings, which sort chronologically as text
+type Row<T> = { [K in keyof T]: T[K] extends Date | null ? string | null : T[K] };
+
+const TRANSACTION_COLUMNS = `id, from_address, to_address, amount, token, network,
+  fee, gas_cost, tx_hash, status, created_at`;
+
+const WEBHOOK_DELIVERY_COLUMNS = [
+  'webhook_id',
+  'transaction_id',
+  'event',
+  'payload',
+  'status',
+  'attempts',
+  'last_status_code',
+  'last_error',
+  'next_attempt_at',
+  'created_at',
+  'delivered_at',
+] as const;
+
+/** SQLite binds strings, numbers and null only */
+function toParam(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+function toDate(value: string | null): Date | null {
+  return value === null ? null : new Date(value);
+}
+
+function toTransaction(row: Row<Transaction>): Transaction {
+  return { ...row, created_at: new Date(row.created_at!) };
+}
+
+function toWebhook(row: Row<Webhook>): Webhook {
+  return { ...row, created_at: new Date(row.created_at!) };
+}
+
+function toWebhookDelivery(row: Row<WebhookDelivery>): WebhookDelivery {
+  return {
+    ...row,
+    created_at: new Date(row.created_at!),
+    next_attempt_at: toDate(row.next_attempt_at),
+    delivered_at: toDate(row.delivered_at),
+  };
+}
+
+// ============================================================================
+// SQLite Store Implementation
+// ============================================================================
+
+export class SqliteStore implements DataStore {
+  private readonly db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Open (or create) a database file with `better-sqlite3` and apply pending migrations.
+   *
+   * @example
+   * ```typescript
+   * const store = await SqliteStore.open('./x402.db');
+   * createFacilitator(app, { store, ...clients });
+   * ```
+   */
+  static async open(filename: string): Promise<SqliteStore> {
+    const { default: Database } = await import('better-sqlite3');
+    const db = new Database(filename);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    const store = new SqliteStore(db as unknown as SqliteDatabase);
+    store.migrate();
+    return store;
+  }
+
+  /** Apply migrations newer than `PRAGMA user_version`, each in its own transaction */
+  migrate(): void {
+    const { user_version: current } = this.db.prepare('PRAGMA user_version').get() as { user_version: number };
+
+    for (const migration of SQLITE_MIGRATIONS) {
+      if (migration.version <= current) continue;
+      this.db.exec('BEGIN');
+      try {
+        this.db.exec(migration.sql);
+        this.db.exec(`PRAGMA user_version = ${migration.version}`);
+        this.db.exec('COMMIT');
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db.close?.();
+  }
+
+  private run(sql: string, ...params: unknown[]): void {
+    this.db.prepare(sql).run(...params.map(toParam));
+  }
+
+  private get<T>(sql: string, ...params: unknown[]): T | undefined {
+    return this.db.prepare(sql).get(...params.map(toParam)) as T | undefined;
+  }
+
+  private all<T>(sql: string, ...params: unknown[]): T[] {
+    return this.db.prepare(sql).all(...params.map(toParam)) as T[];
+  }
+
+  // ==========================================================================
+  // Transactions
+  // ==========================================================================
+
+  async createTransaction(tx: Transaction): Promise<Transaction> {
+    this.run(
+      `INSERT INTO transactions
+        (id, from_address, to_address, amount, token, network, fee, gas_cost, tx_hash, status, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      tx.id, tx.from_address, tx.to_address, tx.amount, tx.token, tx.network,
+      tx.fee, tx.gas_cost, tx.tx_hash, tx.status, tx.created_at
+    );
+    return tx;
+  }
+
+  async getTransaction(id: string): Promise<Transaction | null> {
+    const row = this.get<Row<Transaction>>(`SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE id = ?`, id);
+    return row ? toTransaction(row) : null;
+  }
+
+  async getTransactionByHash(txHash: string): Promise<Transaction | null> {
+    const row = this.get<Row<Transaction>>(`SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE tx_hash = ?`, txHash);
+    return row ? toTransaction(row) : null;
+  }
+
+  async findTransactions(
+    query: TransactionQuery = {}
+  ): Promise<{ transactions: Transaction[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.address) {
+      conditions.push('(from_address = ? OR to_address = ?)');
+      params.push(query.address, query.address);
+    }
+    const statuses = toStatusList(query.status);
+    if (statuses) {
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      params.push(...statuses);
+    }
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('created_at < ?');
+      params.push(query.to);
+    }
+    if (query.orphaned !== undefined) {
+      conditions.push(query.orphaned ? 'orphaned_at IS NOT NULL' : 'orphaned_at IS NULL');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.all<Row<Transaction>>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM transactions ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      ...params, query.limit ?? 20, query.offset ?? 0
+    );
+    const count = this.get<{ total: number }>(`SELECT COUNT(*) AS total FROM transactions ${where}`, ...params);
+    return { transactions: rows.map(toTransaction), total: count?.total ?? 0 };
+  }
+
+  async getTransactionsByAddress(
+    address: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ transactions: Transaction[]; total: number }> {
+    const rows = this.all<Row<Transaction>>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM transactions
+       WHERE from_address = ? OR to_address = ?
+       ORDER BY created_at DESC
+       LIMIT ? OFFSET ?`,
+      address, address, limit, offset
+    );
+    const count = this.get<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM transactions WHERE from_address = ? OR to_address = ?',
+      address, address
+    );
+    return { transactions: rows.map(toTransaction), total: count?.total ?? 0 };
+  }
+
+  async updateTransactionStatus(id: string, status: string, txHash?: string): Promise<void> {
+    this.run(
+      'UPDATE transactions SET status = ?, tx_hash = COALESCE(?, tx_hash) WHERE id = ?',
+      status, txHash, id
+    );
+  }
+
+  async updateTransactionGas(id: string, gasCost: string): Promise<void> {
+    this.run('UPDATE transactions SET gas_cost = ? WHERE id = ?', gasCost, id);
+  }
+
+  async markTransactionOrphaned(id: string, at: Date): Promise<void> {
+    this.run('UPDATE transactions SET orphaned_at = COALESCE(orphaned_at, ?) WHERE id = ?', at, id);
+  }
+
+  async getTransactionCount(): Promise<number> {
+    return this.get<{ total: number }>('SELECT COUNT(*) AS total FROM transactions')?.total ?? 0;
+  }
+
+  // ==========================================================================
+  // Webhooks
+  // ==========================================================================
+
+  async createWebhook(webhook: Webhook): Promise<Webhook> {
+    this.run(
+      'INSERT INTO webhooks (id, recipient_address, url, secret, created_at) VALUES (?, ?, ?, ?, ?)',
+      webhook.id, webhook.recipient_address, webhook.url, webhook.secret, webhook.created_at
+    );
+    return webhook;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    const row = this.get<Row<Webhook>>('SELECT * FROM webhooks WHERE id = ?', id);
+    return row ? toWebhook(row) : null;
+  }
+
+  async getWebhooksByRecipient(address: string): Promise<Webhook[]> {
+    return this.all<Row<Webhook>>(
+      'SELECT * FROM webhooks WHERE recipient_address = ? ORDER BY created_at',
+      address.toLowerCase()
+    ).map(toWebhook);
+  }
+
+  async createWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const placeholders = WEBHOOK_DELIVERY_COLUMNS.map(() => '?').join(', ');
+    this.run(
+      `INSERT INTO webhook_deliveries (id, ${WEBHOOK_DELIVERY_COLUMNS.join(', ')}) VALUES (?, ${placeholders})`,
+      delivery.id, ...WEBHOOK_DELIVERY_COLUMNS.map(column => delivery[column])
+    );
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+    const row = this.get<Row<WebhookDelivery>>('SELECT * FROM webhook_deliveries WHERE id = ?', id);
+    return row ? toWebhookDelivery(row) : null;
+  }
+
+  async getWebhookDeliveries(
+    filter: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    return this.all<Row<WebhookDelivery>>(
+      `SELECT * FROM webhook_deliveries
+       WHERE (? IS NULL OR status = ?)
+       ORDER BY created_at DESC
+       LIMIT ?`,
+      filter.status, filter.status, filter.limit ?? 50
+    ).map(toWebhookDelivery);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.all<Row<WebhookDelivery>>(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at ASC
+       LIMIT ?`,
+      now, limit
+    ).map(toWebhookDelivery);
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    update: Partial<Omit<WebhookDelivery, 'id'>>
+  ): Promise<void> {
+    // Column names come from a fixed list, values are parameters
+    const columns = WEBHOOK_DELIVERY_COLUMNS.filter(column => column in update);
+    if (columns.length === 0) return;
+    const assignments = columns.map(column => `${column} = ?`).join(', ');
+    this.run(
+      `UPDATE webhook_deliveries SET ${assignments} WHERE id = ?`,
+      ...columns.map(column => update[column]), id
+    );
+  }
+}
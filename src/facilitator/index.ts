@@ -10,6 +10,7 @@
 export {
   loadConfig,
   createClients,
+  createStore,
   CHAIN_MAP,
   KNOWN_SETTLEMENTS,
   type FacilitatorEnvConfig,
@@ -19,11 +20,30 @@ export {
 export { createFacilitator, startFacilitator, RateLimiter, type FacilitatorConfig } from './server.js';
 
 // Services
-export { SettlementService, SettlementError } from './services/settlement.js';
-export type { SettlementConfig } from './services/settlement.js';
+export { SettlementService, SettlementError, toSettlementStatus } from './services/settlement.js';
+export type { SettlementConfig, SettleOptions, SettlementStatus } from './services/settlement.js';
+export { VerificationService, checkPaymentOnChain } from './services/verification.js';
+export type { VerificationConfig, OnChainCheckOptions } from './services/verification.js';
+export {
+  WebhookService,
+  WebhookError,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+} from './services/webhooks.js';
+export type { WebhookConfig } from './services/webhooks.js';
+export { SettlementReconciler } from './services/reconciler.js';
+export type { ReconcilerConfig, ReconcileReport } from './services/reconciler.js';
 
 // Database
 export { InMemoryStore, CREATE_ALL_TABLES } from './db/schema.js';
+export type { DataStore, TransactionQuery } from './db/schema.js';
+export { PostgresStore, POSTGRES_MIGRATIONS } from './db/postgres.js';
+export type { PgPool, PgClient } from './db/postgres.js';
+export { SqliteStore, SQLITE_MIGRATIONS } from './db/sqlite.js';
+export type { SqliteDatabase, SqliteStatement } from './db/sqlite.js';
 
 // Types
 export type {
@@ -32,11 +52,24 @@ export type {
   HistoryResponse,
   SupportedResponse,
   VerifyRequest,
+  X402VerifyRequest,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookRegistration,
+  SettlementResolution,
 } from './types.js';
 
 export {
   SUPPORTED_NETWORK_IDS,
   VerifyRequestSchema,
+  X402VerifyRequestSchema,
+  WebhookRegistrationSchema,
+  HistoryFilterSchema,
+  AdminListQuerySchema,
+  DeliveryListQuerySchema,
+  SettlementResolutionSchema,
   isAddress,
   calculateFee,
   calculateNet,
@@ -6,11 +6,25 @@
  * The facilitator pays gas but cannot redirect funds (non-custodial).
  */
 
+import { timingSafeEqual } from 'crypto';
 import type { Express, Request, Response } from 'express';
 import type { PublicClient, WalletClient } from 'viem';
-import { InMemoryStore } from './db/schema.js';
+import { InMemoryStore, type DataStore } from './db/schema.js';
 import { SettlementService, SettlementError } from './services/settlement.js';
-import { VerifyRequestSchema, SUPPORTED_NETWORK_IDS, isAddress } from './types.js';
+import { VerificationService } from './services/verification.js';
+import { WebhookService, WebhookError, type WebhookConfig } from './services/webhooks.js';
+import { SettlementReconciler, type ReconcilerConfig } from './services/reconciler.js';
+import {
+  VerifyRequestSchema,
+  X402VerifyRequestSchema,
+  WebhookRegistrationSchema,
+  HistoryFilterSchema,
+  AdminListQuerySchema,
+  DeliveryListQuerySchema,
+  SettlementResolutionSchema,
+  SUPPORTED_NETWORK_IDS,
+  isAddress,
+} from './types.js';
 import { PaymentPayloadSchema, DEFAULT_FEE_BPS } from '../types/index.js';
 
 // ============================================================================
@@ -61,7 +75,8 @@ export class RateLimiter {
 // ============================================================================
 
 export interface FacilitatorConfig {
-  store?: InMemoryStore;
+  /** Defaults to a process-local InMemoryStore */
+  store?: DataStore;
   treasuryAddress: `0x${string}`;
   settlementAddresses?: Record<string, `0x${string}`>;
   publicClients: Record<string, PublicClient>;
@@ -69,6 +84,20 @@ export interface FacilitatorConfig {
   cors?: boolean;
   rateLimitMax?: number;
   portalDir?: string;
+  /** Bearer token for the /admin routes; they are not mounted without one */
+  adminToken?: string;
+  /** Retry policy and sweep interval for webhook deliveries */
+  webhooks?: WebhookConfig;
+  /** Recover settlements stranded by a restart, on startup and periodically; off when unset */
+  reconcile?: ReconcilerConfig;
+}
+
+/** Constant-time check of an `Authorization: Bearer <token>` header */
+function isAuthorized(req: Partial<Request>, token: string): boolean {
+  const header = (req.headers as Record<string, string> | undefined)?.authorization ?? '';
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
 }
 
 // ============================================================================
@@ -128,11 +157,31 @@ Submit a signed x402 payment for on-chain settlement.
 }
 \`\`\`
 
+Add \`?mode=async\` to get \`{ "success": true, "settlementId": "...", "txHash": "0x...", "status": "submitted" }\` as soon as the transaction is broadcast, instead of waiting for confirmation.
+
+### GET /x402/settlement/:id
+Status of a settlement: \`pending\`, \`submitted\`, \`confirmed\` or \`failed\`, with its tx hash once broadcast. \`:id\` is the \`settlementId\` or the tx hash.
+
+### POST /x402/verify
+Check that a signed payment would settle, without settling it: binding to the requirement, signature, deadline, balance, Permit2 allowance, unused nonce, and fee.
+
+**Body:**
+\`\`\`json
+{
+  "payload": { "scheme": "permit2", "...": "as for /x402/settle" },
+  "requirement": { "accepts": [{ "scheme": "permit2", "network": "eip155:8453", "token": "0x...", "amount": "10000000", "recipient": "0x...", "settlement": "0x...", "treasury": "0x...", "feeBps": 50, "maxDeadline": 1700000000 }] }
+}
+\`\`\`
+
+**Response:** \`{ "valid": true, "signer": "0x..." }\` or \`{ "valid": false, "code": "INSUFFICIENT_BALANCE", "error": "..." }\`
+
 ### POST /verify
 Verify a payment sender address.
 
 ### GET /history/:address
-Transaction history for an Ethereum address.
+Transaction history for an Ethereum address, newest first.
+
+**Query:** \`limit\`, \`offset\`, \`status\` (comma-separated, e.g. \`confirmed,failed\`), \`from\` and \`to\` (ISO-8601 dates; \`from\` inclusive, \`to\` exclusive)
 
 ### GET /supported
 List supported networks, tokens, and settlement schemes.
@@ -156,11 +205,24 @@ Health check.
 
 export function createFacilitator(app: Express, config: FacilitatorConfig): void {
   const store = config.store ?? new InMemoryStore();
+  const webhooks = new WebhookService(store, config.webhooks);
+  // Pick up retries left pending by a previous process
+  webhooks.start();
   const settlement = new SettlementService(store, {
     treasuryAddress: config.treasuryAddress,
     settlementAddresses: config.settlementAddresses ?? {},
     publicClients: config.publicClients,
     walletClients: config.walletClients,
+    onStatusChange: async transaction => { await webhooks.notify(transaction); },
+  });
+
+  if (config.reconcile) {
+    new SettlementReconciler(store, settlement, config.reconcile).start();
+  }
+
+  const verification = new VerificationService({
+    publicClients: config.publicClients,
+    settlementAddresses: config.settlementAddresses,
   });
 
   const rateLimiter = new RateLimiter(60_000, config.rateLimitMax ?? 60);
@@ -202,17 +264,73 @@ export function createFacilitator(app: Express, config: FacilitatorConfig): void
         return;
       }
 
-      const result = await settlement.settleX402(parsed.data);
+      // ?mode=async answers once the transaction is broadcast
+      const mode = ((req.query ?? {}) as Record<string, string>).mode ?? 'sync';
+      if (mode !== 'sync' && mode !== 'async') {
+        res.status(400).json({ error: 'INVALID_REQUEST', message: 'mode must be "sync" or "async".' });
+        return;
+      }
+
+      const result = await settlement.settleX402(parsed.data, { mode });
       res.status(200).json(result);
     } catch (err) {
       if (err instanceof SettlementError) {
-        res.status(400).json({ error: err.code, message: err.message });
+        res.status(400).json({ error: err.code, message: err.message, ...err.details });
       } else {
         res.status(500).json({ error: 'INTERNAL_ERROR', message: 'Settlement failed' });
       }
     }
   });
 
+  // --------------------------------------------------------------------------
+  // GET /x402/settlement/:id — Status of a settlement, by id or tx hash
+  // --------------------------------------------------------------------------
+  app.get('/x402/settlement/:id', async (req: Partial<Request>, res: Response) => {
+    try {
+      const id = (req.params as Record<string, string>)?.id ?? '';
+      const status = await settlement.getSettlement(id);
+      if (!status) {
+        res.status(404).json({ error: 'NOT_FOUND', message: `No settlement with id "${id}".` });
+        return;
+      }
+      res.status(200).json(status);
+    } catch {
+      res.status(500).json({ error: 'INTERNAL_ERROR' });
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // POST /x402/verify — Check a payload would settle, without settling it
+  // --------------------------------------------------------------------------
+  app.post('/x402/verify', async (req: Partial<Request>, res: Response) => {
+    const clientKey = (req as Record<string, any>).ip ??
+                       (req as Record<string, any>).socket?.remoteAddress ??
+                       'unknown';
+    if (!rateLimiter.isAllowed(clientKey)) {
+      res.status(429).json({
+        error: 'RATE_LIMITED',
+        message: 'Too many requests. Try again later.',
+      });
+      return;
+    }
+
+    try {
+      const parsed = X402VerifyRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'INVALID_REQUEST',
+          details: parsed.error.issues.map(i => i.message),
+        });
+        return;
+      }
+
+      const result = await verification.verifyX402(parsed.data.payload, parsed.data.requirement);
+      res.status(200).json(result);
+    } catch (err) {
+      res.status(500).json({ error: 'INTERNAL_ERROR', message: 'Verification failed' });
+    }
+  });
+
   // --------------------------------------------------------------------------
   // POST /verify — Verify payment sender
   // --------------------------------------------------------------------------
@@ -248,8 +366,16 @@ export function createFacilitator(app: Express, config: FacilitatorConfig): void
       const query = (req.query ?? {}) as Record<string, string>;
       const limit = parseInt(query.limit || '20');
       const offset = parseInt(query.offset || '0');
+      const filter = HistoryFilterSchema.safeParse(query);
+      if (!filter.success) {
+        res.status(400).json({
+          error: 'INVALID_REQUEST',
+          details: filter.error.issues.map(i => i.message),
+        });
+        return;
+      }
 
-      const history = await settlement.getHistory(address, limit, offset);
+      const history = await settlement.getHistory(address, limit, offset, filter.data);
       res.status(200).json(history);
     } catch (err) {
       if (err instanceof SettlementError) {
@@ -287,6 +413,132 @@ export function createFacilitator(app: Express, config: FacilitatorConfig): void
     res.send(generateSkillMarkdown(baseUrl));
   });
 
+  if (config.adminToken) {
+    const adminToken = config.adminToken;
+    const requireAdmin = (req: Partial<Request>, res: Response): boolean => {
+      if (isAuthorized(req, adminToken)) return true;
+      res.status(401).json({ error: 'UNAUTHORIZED', message: 'Admin token required.' });
+      return false;
+    };
+
+    // ------------------------------------------------------------------------
+    // POST /admin/webhooks — Register a webhook for a recipient address
+    // ------------------------------------------------------------------------
+    app.post('/admin/webhooks', async (req: Partial<Request>, res: Response) => {
+      if (!requireAdmin(req, res)) return;
+      try {
+        const parsed = WebhookRegistrationSchema.safeParse(req.body);
+        if (!parsed.success) {
+          res.status(400).json({
+            error: 'INVALID_REQUEST',
+            details: parsed.error.issues.map(i => i.message),
+          });
+          return;
+        }
+
+        const { recipient, url, secret } = parsed.data;
+        const webhook = await webhooks.register(recipient, url, secret);
+        res.status(201).json(webhook);
+      } catch (err) {
+        if (err instanceof WebhookError) {
+          res.status(400).json({ error: err.code, message: err.message });
+        } else {
+          res.status(500).json({ error: 'INTERNAL_ERROR' });
+        }
+      }
+    });
+
+    // ------------------------------------------------------------------------
+    // GET /admin/webhooks/deliveries — Recorded deliveries, newest first
+    // ------------------------------------------------------------------------
+    app.get('/admin/webhooks/deliveries', async (req: Partial<Request>, res: Response) => {
+      if (!requireAdmin(req, res)) return;
+      try {
+        const query = DeliveryListQuerySchema.safeParse(req.query ?? {});
+        if (!query.success) {
+          res.status(400).json({
+            error: 'INVALID_REQUEST',
+            details: query.error.issues.map(i => i.message),
+          });
+          return;
+        }
+
+        const deliveries = await store.getWebhookDeliveries(query.data);
+        res.status(200).json({ deliveries });
+      } catch {
+        res.status(500).json({ error: 'INTERNAL_ERROR' });
+      }
+    });
+
+    // ------------------------------------------------------------------------
+    // GET /admin/settlements/orphaned — Pending settlements flagged by the reconciler
+    // ------------------------------------------------------------------------
+    app.get('/admin/settlements/orphaned', async (req: Partial<Request>, res: Response) => {
+      if (!requireAdmin(req, res)) return;
+      try {
+        const query = AdminListQuerySchema.safeParse(req.query ?? {});
+        if (!query.success) {
+          res.status(400).json({
+            error: 'INVALID_REQUEST',
+            details: query.error.issues.map(i => i.message),
+          });
+          return;
+        }
+
+        const { limit, offset } = query.data;
+        const { settlements, total } = await settlement.getOrphanedSettlements(limit, offset);
+        res.status(200).json({ settlements, pagination: { limit, offset, total } });
+      } catch {
+        res.status(500).json({ error: 'INTERNAL_ERROR' });
+      }
+    });
+
+    // ------------------------------------------------------------------------
+    // POST /admin/settlements/:id/resolve — Record the outcome of a pending settlement
+    // ------------------------------------------------------------------------
+    app.post('/admin/settlements/:id/resolve', async (req: Partial<Request>, res: Response) => {
+      if (!requireAdmin(req, res)) return;
+      try {
+        const parsed = SettlementResolutionSchema.safeParse(req.body);
+        if (!parsed.success) {
+          res.status(400).json({
+            error: 'INVALID_REQUEST',
+            details: parsed.error.issues.map(i => i.message),
+          });
+          return;
+        }
+
+        const id = (req.params as Record<string, string>)?.id ?? '';
+        const resolved = await settlement.resolveSettlement(id, parsed.data);
+        res.status(200).json(resolved);
+      } catch (err) {
+        if (err instanceof SettlementError) {
+          res.status(err.code === 'NOT_FOUND' ? 404 : 409).json({ error: err.code, message: err.message });
+        } else {
+          res.status(500).json({ error: 'INTERNAL_ERROR' });
+        }
+      }
+    });
+
+    // ------------------------------------------------------------------------
+    // POST /admin/webhooks/deliveries/:id/replay — Send a delivery again
+    // ------------------------------------------------------------------------
+    app.post('/admin/webhooks/deliveries/:id/replay', async (req: Partial<Request>, res: Response) => {
+      if (!requireAdmin(req, res)) return;
+      try {
+        const id = (req.params as Record<string, string>)?.id ?? '';
+        const delivery = await webhooks.replay(id);
+        res.status(200).json(delivery);
+      } catch (err) {
+        if (err instanceof WebhookError) {
+          res.status(404).json({ error: err.code, message: err.message });
+        } else {
+          res.status(500).json({ error: 'INTERNAL_ERROR' });
+        }
+      }
+    });
+  }
+
   // --------------------------------------------------------------------------
   // Serve portal dashboard if configured
   // --------------------------------------------------------------------------
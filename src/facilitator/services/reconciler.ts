@@ -0,0 +1,141 @@
+/**
+ * Settlement Reconciler
+ *
+ * Recovers settlements stranded by a facilitator restart:
+ *   - `submitted` rows died waiting for their receipt; it is re-fetched by
+ *     tx hash and the row marked confirmed or failed once mined
+ *   - `pending` rows died before broadcast, or are still being submitted
+ *     elsewhere; once older than `orphanAfterMs` they are flagged as orphaned
+ *     in the store (once each) for review, and their status is left alone.
+ *     Flagged rows are listed and resolved through the facilitator's
+ *     `/admin/settlements/orphaned` routes
+ *
+ * Runs once on start, then periodically in the background.
+ */
+
+import type { DataStore } from '../db/schema.js';
+import type { Transaction, TransactionStatus } from '../types.js';
+import type { SettlementService } from './settlement.js';
+
+// ============================================================================
+// Reconciler Configuration
+// ============================================================================
+
+export interface ReconcilerConfig {
+  /** Time between scans (default: 60000) */
+  intervalMs?: number;
+  /** Leave `submitted` rows younger than this to whoever is settling them (default: 60000) */
+  minAgeMs?: number;
+  /** Age at which a `pending` row is treated as orphaned (default: 600000) */
+  orphanAfterMs?: number;
+  /** Rows fetched per query (default: 100) */
+  batchSize?: number;
+}
+
+/** Settlement ids by outcome of one reconciliation pass */
+export interface ReconcileReport {
+  confirmed: string[];
+  failed: string[];
+  /** Pending rows flagged as orphaned in this pass: older than `orphanAfterMs`, not being submitted here */
+  orphaned: string[];
+  /** Still unmined, or the lookup failed; retried on the next pass */
+  unresolved: string[];
+}
+
+// ============================================================================
+// Settlement Reconciler
+// ============================================================================
+
+export class SettlementReconciler {
+  private readonly store: DataStore;
+  private readonly settlement: SettlementService;
+  private readonly intervalMs: number;
+  private readonly minAgeMs: number;
+  private readonly orphanAfterMs: number;
+  private readonly batchSize: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<ReconcileReport> | null = null;
+
+  constructor(store: DataStore, settlement: SettlementService, config: ReconcilerConfig = {}) {
+    this.store = store;
+    this.settlement = settlement;
+    this.intervalMs = config.intervalMs ?? 60_000;
+    this.minAgeMs = config.minAgeMs ?? 60_000;
+    this.orphanAfterMs = config.orphanAfterMs ?? 600_000;
+    this.batchSize = config.batchSize ?? 100;
+  }
+
+  /** Reconcile now, then every `intervalMs` until `stop()` */
+  start(): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.run().catch(error => console.error('[facilitator] Reconciliation error:', error));
+    };
+    this.timer = setInterval(tick, this.intervalMs);
+    this.timer.unref?.();
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** One pass over stranded rows; concurrent calls share the pass in progress */
+  run(): Promise<ReconcileReport> {
+    this.running ??= this.reconcile().finally(() => { this.running = null; });
+    return this.running;
+  }
+
+  private async reconcile(): Promise<ReconcileReport> {
+    const report: ReconcileReport = { confirmed: [], failed: [], orphaned: [], unresolved: [] };
+    const now = Date.now();
+
+    for (const tx of await this.find('submitted', new Date(now - this.minAgeMs))) {
+      try {
+        const status = await this.settlement.recoverSettlement(tx.id);
+        if (status === 'confirmed') report.confirmed.push(tx.id);
+        else if (status === 'failed') report.failed.push(tx.id);
+        else report.unresolved.push(tx.id);
+      } catch (error) {
+        console.error(`[facilitator] Could not reconcile settlement ${tx.id}:`, error);
+        report.unresolved.push(tx.id);
+      }
+    }
+
+    // Without a tx hash there is nothing to look up, and a submit may still be
+    // in flight in another process, so orphans are only flagged; flagged rows
+    // are not scanned again
+    for (const tx of await this.find('pending', new Date(now - this.orphanAfterMs), false)) {
+      if (this.settlement.isSettling(tx.id)) {
+        report.unresolved.push(tx.id);
+        continue;
+      }
+      await this.store.markTransactionOrphaned(tx.id, new Date(now));
+      console.warn(
+        `[facilitator] Settlement ${tx.id} has been pending since ${tx.created_at.toISOString()} ` +
+        'without a transaction; check the settlement wallet, then resolve it with ' +
+        `POST /admin/settlements/${tx.id}/resolve`
+      );
+      report.orphaned.push(tx.id);
+    }
+
+    return report;
+  }
+
+  /** Every row in `status` created before `before`, read in full before any is updated */
+  private async find(status: TransactionStatus, before: Date, orphaned?: boolean): Promise<Transaction[]> {
+    const rows: Transaction[] = [];
+    for (let offset = 0; ; offset += this.batchSize) {
+      const { transactions } = await this.store.findTransactions({
+        status,
+        to: before,
+        orphaned,
+        limit: this.batchSize,
+        offset,
+      });
+      rows.push(...transactions);
+      if (transactions.length < this.batchSize) return rows;
+    }
+  }
+}
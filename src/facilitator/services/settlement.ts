@@ -14,10 +14,10 @@
  * cryptographically commits to the recipient and fee rate.
  */
 
-import { randomUUID } from 'crypto';
-import type { PublicClient, WalletClient } from 'viem';
-import type { InMemoryStore } from '../db/schema.js';
-import type { Transaction } from '../types.js';
+import { TransactionReceiptNotFoundError } from 'viem';
+import type { PublicClient, TransactionReceipt, WalletClient } from 'viem';
+import type { DataStore, TransactionQuery } from '../db/schema.js';
+import type { SettlementResolution, Transaction, TransactionStatus } from '../types.js';
 import {
   isAddress,
 } from '../types.js';
@@ -97,6 +97,50 @@ export interface SettlementConfig {
   settlementAddresses: Record<string, `0x${string}`>;
   publicClients: Record<string, PublicClient>;
   walletClients: Record<string, WalletClient>;
+  /**
+   * Called after each status transition (pending, submitted, confirmed, failed)
+   * with the updated transaction. Errors are logged and never fail a settlement.
+   */
+  onStatusChange?: (transaction: Transaction) => void | Promise<void>;
+}
+
+export interface SettleOptions {
+  /**
+   * 'sync' (default) waits for the receipt. 'async' returns as soon as the
+   * transaction is broadcast; poll `getSettlement` for the outcome.
+   */
+  mode?: 'sync' | 'async';
+}
+
+/** A settlement as seen by callers polling for its outcome */
+export interface SettlementStatus {
+  settlementId: string;
+  status: TransactionStatus;
+  txHash: string | null;
+  network: string;
+  payer: string;
+  recipient: string;
+  amount: string;
+  token: string;
+  fee: string;
+  gasCost: string;
+  createdAt: string;
+}
+
+export function toSettlementStatus(tx: Transaction): SettlementStatus {
+  return {
+    settlementId: tx.id,
+    status: tx.status,
+    txHash: tx.tx_hash,
+    network: tx.network,
+    payer: tx.from_address,
+    recipient: tx.to_address,
+    amount: tx.amount,
+    token: tx.token,
+    fee: tx.fee,
+    gasCost: tx.gas_cost,
+    createdAt: tx.created_at.toISOString(),
+  };
 }
 
 // ============================================================================
@@ -116,10 +160,12 @@ function splitSignature(sig: string): { v: number; r: `0x${string}`; s: `0x${str
 // ============================================================================
 
 export class SettlementService {
-  private readonly store: InMemoryStore;
+  private readonly store: DataStore;
   private readonly config: SettlementConfig;
+  /** Settlements this process is still driving; recovery leaves them alone */
+  private readonly inFlight = new Set<string>();
 
-  constructor(store: InMemoryStore, config: SettlementConfig) {
+  constructor(store: DataStore, config: SettlementConfig) {
     this.store = store;
     this.config = config;
   }
@@ -128,7 +174,7 @@ export class SettlementService {
   // x402 Settlement (non-custodial, via WazabiSettlement contract)
   // ==========================================================================
 
-  async settleX402(payload: PaymentPayload): Promise<PaymentResponse> {
+  async settleX402(payload: PaymentPayload, options: SettleOptions = {}): Promise<PaymentResponse> {
     const { network } = payload;
 
     const publicClient = this.config.publicClients[network];
@@ -186,7 +232,7 @@ export class SettlementService {
       }
     }
 
-    const settlementId = randomUUID();
+    const settlementId = globalThis.crypto.randomUUID();
     const payer = payload.payer;
     const recipient = payload.scheme === 'permit2'
       ? payload.witness.recipient
@@ -218,41 +264,198 @@ export class SettlementService {
       created_at: new Date(),
     };
 
+    this.inFlight.add(settlementId);
     await this.store.createTransaction(transaction);
+    await this.emitStatusChange(settlementId);
 
+    let tracking = false;
+    let txHash: `0x${string}` | undefined;
     try {
-      let txHash: `0x${string}`;
-
       if (payload.scheme === 'permit2') {
         txHash = await this.executePermit2Settlement(payload, settlementAddress, walletClient);
       } else {
         txHash = await this.executeERC3009Settlement(payload, settlementAddress, walletClient);
       }
 
-      await this.store.updateTransactionStatus(settlementId, 'submitted', txHash);
-
-      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
-
-      if (receipt.status === 'success') {
-        const gasCostWei = receipt.gasUsed * receipt.effectiveGasPrice;
-        const nativeUsdPrice = this.getNativeTokenUsdPrice(network);
-        const gasCostUsd = Number(gasCostWei) / 1e18 * nativeUsdPrice;
-        const gasStr = gasCostUsd < 0.01 ? gasCostUsd.toFixed(6) : gasCostUsd.toFixed(2);
-
-        await this.store.updateTransactionGas(settlementId, gasStr);
-        await this.store.updateTransactionStatus(settlementId, 'confirmed', txHash);
-
-        return { success: true, txHash, network, settlementId };
-      } else {
-        await this.store.updateTransactionStatus(settlementId, 'failed', txHash);
-        throw new SettlementError(`Transaction reverted on-chain. Tx hash: ${txHash}`, 'TX_REVERTED');
+      await this.setStatus(settlementId, 'submitted', txHash);
+
+      if (options.mode === 'async') {
+        // Receipt is tracked in the background and recorded in the store
+        tracking = true;
+        // A failed receipt wait says nothing about the transaction: the row stays
+        // submitted with its hash for recoverSettlement to resolve
+        this.confirmSettlement(settlementId, txHash, network, publicClient)
+          .catch(err => {
+            if (err instanceof SettlementError) return;
+            console.error(`[facilitator] Could not confirm settlement ${settlementId} (${txHash}):`, err);
+          })
+          .finally(() => this.inFlight.delete(settlementId));
+        return { success: true, txHash, network, settlementId, status: 'submitted' };
       }
+
+      await this.confirmSettlement(settlementId, txHash, network, publicClient);
+      return { success: true, txHash, network, settlementId };
     } catch (err) {
       if (err instanceof SettlementError) throw err;
       const errorMessage = err instanceof Error ? err.message : String(err);
-      await this.store.updateTransactionStatus(settlementId, 'failed');
+      if (txHash) {
+        // Broadcast but unconfirmed: it may still mine, so leave it for recoverSettlement
+        await this.setStatus(settlementId, 'submitted', txHash).catch(() => undefined);
+        throw new SettlementError(
+          `Settlement ${txHash} was submitted but not confirmed: ${errorMessage}`,
+          'SETTLEMENT_PENDING',
+          { txHash, settlementId }
+        );
+      }
+      await this.setStatus(settlementId, 'failed');
       throw new SettlementError(`On-chain settlement failed: ${errorMessage}`, 'SETTLEMENT_FAILED');
+    } finally {
+      if (!tracking) this.inFlight.delete(settlementId);
+    }
+  }
+
+  private async setStatus(settlementId: string, status: TransactionStatus, txHash?: string): Promise<void> {
+    await this.store.updateTransactionStatus(settlementId, status, txHash);
+    await this.emitStatusChange(settlementId);
+  }
+
+  private async emitStatusChange(settlementId: string): Promise<void> {
+    if (!this.config.onStatusChange) return;
+    try {
+      const transaction = await this.store.getTransaction(settlementId);
+      if (transaction) await this.config.onStatusChange(transaction);
+    } catch (error) {
+      console.error('[facilitator] Status change listener error:', error);
+    }
+  }
+
+  /** Wait for the receipt and record its outcome; throws TX_REVERTED on revert */
+  private async confirmSettlement(
+    settlementId: string,
+    txHash: `0x${string}`,
+    network: string,
+    publicClient: PublicClient
+  ): Promise<void> {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+
+    if (receipt.status !== 'success') {
+      await this.setStatus(settlementId, 'failed', txHash);
+      throw new SettlementError(`Transaction reverted on-chain. Tx hash: ${txHash}`, 'TX_REVERTED');
+    }
+
+    await this.recordConfirmation(settlementId, txHash, network, receipt);
+  }
+
+  private async recordConfirmation(
+    settlementId: string,
+    txHash: `0x${string}`,
+    network: string,
+    receipt: Pick<TransactionReceipt, 'gasUsed' | 'effectiveGasPrice'>
+  ): Promise<void> {
+    const gasCostWei = receipt.gasUsed * receipt.effectiveGasPrice;
+    const nativeUsdPrice = this.getNativeTokenUsdPrice(network);
+    const gasCostUsd = Number(gasCostWei) / 1e18 * nativeUsdPrice;
+    const gasStr = gasCostUsd < 0.01 ? gasCostUsd.toFixed(6) : gasCostUsd.toFixed(2);
+
+    await this.store.updateTransactionGas(settlementId, gasStr);
+    await this.setStatus(settlementId, 'confirmed', txHash);
+  }
+
+  /** Whether this process is still submitting or confirming the settlement */
+  isSettling(settlementId: string): boolean {
+    return this.inFlight.has(settlementId);
+  }
+
+  /**
+   * Resolve a settlement left `submitted` by a restart: confirmed or failed from
+   * its receipt, and still submitted while the transaction is unmined. Pending
+   * rows have no transaction to look up and are left as they are, since another
+   * process may still be submitting them. Settlements this process is still
+   * driving are left alone.
+   *
+   * @returns The resulting status, or null if the id is unknown
+   */
+  async recoverSettlement(settlementId: string): Promise<TransactionStatus | null> {
+    const tx = await this.store.getTransaction(settlementId);
+    if (!tx) return null;
+    if (this.inFlight.has(tx.id) || (tx.status !== 'pending' && tx.status !== 'submitted')) {
+      return tx.status;
+    }
+
+    if (!tx.tx_hash) return tx.status;
+
+    const publicClient = this.config.publicClients[tx.network];
+    if (!publicClient) {
+      throw new SettlementError(
+        `No clients configured for network "${tx.network}".`,
+        'NETWORK_NOT_CONFIGURED'
+      );
+    }
+
+    const txHash = tx.tx_hash as `0x${string}`;
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+    } catch (err) {
+      // Not mined yet (or the node has not seen it); try again on the next pass
+      if (err instanceof TransactionReceiptNotFoundError) return tx.status;
+      throw err;
+    }
+
+    if (receipt.status !== 'success') {
+      await this.setStatus(tx.id, 'failed', txHash);
+      return 'failed';
     }
+    await this.recordConfirmation(tx.id, txHash, tx.network, receipt);
+    return 'confirmed';
+  }
+
+  /** Current state of a settlement by id or transaction hash, or null if unknown */
+  async getSettlement(idOrTxHash: string): Promise<SettlementStatus | null> {
+    const tx = /^0x[0-9a-fA-F]{64}$/.test(idOrTxHash)
+      ? await this.store.getTransactionByHash(idOrTxHash.toLowerCase())
+      : await this.store.getTransaction(idOrTxHash);
+    return tx ? toSettlementStatus(tx) : null;
+  }
+
+  /** Pending settlements the reconciler flagged as orphaned, newest first */
+  async getOrphanedSettlements(
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ settlements: SettlementStatus[]; total: number }> {
+    const { transactions, total } = await this.store.findTransactions({
+      status: 'pending',
+      orphaned: true,
+      limit,
+      offset,
+    });
+    return { settlements: transactions.map(toSettlementStatus), total };
+  }
+
+  /**
+   * Settle the fate of a pending settlement once the settlement wallet has
+   * been checked: 'failed' if nothing was broadcast, or 'submitted' with the
+   * transaction that was, whose receipt is then looked up (and retried by the
+   * reconciler while unmined).
+   */
+  async resolveSettlement(id: string, resolution: SettlementResolution): Promise<SettlementStatus> {
+    const tx = await this.store.getTransaction(id);
+    if (!tx) {
+      throw new SettlementError(`No settlement with id "${id}".`, 'NOT_FOUND');
+    }
+    if (tx.status !== 'pending' || this.inFlight.has(id)) {
+      throw new SettlementError(`Settlement ${id} is ${tx.status}, not stranded in pending.`, 'NOT_PENDING');
+    }
+
+    if (resolution.status === 'failed') {
+      await this.setStatus(id, 'failed');
+    } else {
+      await this.setStatus(id, 'submitted', resolution.txHash.toLowerCase());
+      await this.recoverSettlement(id).catch(error => {
+        console.error(`[facilitator] Could not look up the receipt of settlement ${id}:`, error);
+      });
+    }
+    return toSettlementStatus((await this.store.getTransaction(id))!);
   }
 
   private async executePermit2Settlement(
@@ -347,12 +550,17 @@ export class SettlementService {
   // History (address-based lookups)
   // ==========================================================================
 
-  async getHistory(address: string, limit: number = 20, offset: number = 0) {
+  async getHistory(
+    address: string,
+    limit: number = 20,
+    offset: number = 0,
+    filter: Pick<TransactionQuery, 'status' | 'from' | 'to'> = {}
+  ) {
     if (!isAddress(address)) {
       throw new SettlementError(`"${address}" is not a valid Ethereum address.`, 'INVALID_ADDRESS');
     }
 
-    const { transactions, total } = await this.store.getTransactionsByAddress(address, limit, offset);
+    const { transactions, total } = await this.store.findTransactions({ ...filter, address, limit, offset });
 
     return {
       address,
@@ -366,6 +574,7 @@ export class SettlementService {
         from: tx.from_address,
         tx_hash: tx.tx_hash ?? '',
         network: tx.network,
+        status: tx.status,
         timestamp: tx.created_at.toISOString(),
       })),
       pagination: { limit, offset, total },
@@ -405,8 +614,17 @@ export class SettlementService {
 // Error Types
 // ============================================================================
 
+/**
+ * Settlement failure with a machine-readable `code`. SETTLEMENT_PENDING means
+ * the transaction was broadcast but not confirmed; `details` then carries its
+ * `txHash` and `settlementId`.
+ */
 export class SettlementError extends Error {
-  constructor(message: string, public code: string) {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
     super(message);
     this.name = 'SettlementError';
     Object.setPrototypeOf(this, SettlementError.prototype);
@@ -0,0 +1,252 @@
+/**
+ * Verification Service
+ *
+ * Checks that an x402 payload would settle, without settling it:
+ *   1. Binding — the payload pays the requirement's recipient, token, amount and fee
+ *   2. Signature — the EIP-712 signature recovers to the declared payer
+ *   3. Validity window — the Permit2 deadline / ERC-3009 validBefore has not passed
+ *   4. Chain state — balance, Permit2 allowance, unused nonce, and the
+ *      settlement contract's current feeBps
+ *
+ * Merchants can verify before serving and settle afterwards.
+ */
+
+import type { PublicClient } from 'viem';
+import type {
+  PaymentPayload,
+  PaymentRequirement,
+  PaymentAcceptEntry,
+  PaymentVerificationResult,
+} from '../../types/index.js';
+import { PERMIT2_ADDRESS, PaymentMismatchError } from '../../types/index.js';
+import { checkValidityWindow, findAcceptCandidates, verifyPayment } from '../../server/verify.js';
+
+// ============================================================================
+// Contract ABIs (minimal, read-only)
+// ============================================================================
+
+const erc20Abi = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'allowance',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+const erc3009Abi = [
+  {
+    name: 'authorizationState',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'authorizer', type: 'address' },
+      { name: 'nonce', type: 'bytes32' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+const permit2Abi = [
+  {
+    name: 'nonceBitmap',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'wordPos', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+const settlementFeeAbi = [
+  {
+    name: 'feeBps',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+// ============================================================================
+// On-chain Checks
+// ============================================================================
+
+export interface OnChainCheckOptions {
+  /** Also compare the fee against the settlement contract's `feeBps()` (default: true) */
+  checkFee?: boolean;
+}
+
+/**
+ * Check that the chain state lets a payload settle against an accept entry:
+ * the payer holds the gross amount, has approved Permit2 for it (Permit2 only),
+ * has not used the nonce, and signed for the settlement contract's current fee.
+ *
+ * Assumes the payload is already bound to `accept` (see `verifyPayment`).
+ * Failures come back as `valid: false` with INSUFFICIENT_BALANCE,
+ * ALLOWANCE_MISSING, NONCE_USED or FEE_MISMATCH; RPC errors are thrown.
+ */
+export async function checkPaymentOnChain(
+  payload: PaymentPayload,
+  accept: PaymentAcceptEntry,
+  publicClient: PublicClient,
+  options: OnChainCheckOptions = {}
+): Promise<PaymentVerificationResult> {
+  const payer = payload.payer as `0x${string}`;
+  const token = accept.token as `0x${string}`;
+  const gross = payload.scheme === 'permit2'
+    ? BigInt(payload.permit.permitted[0]!.amount) + BigInt(payload.permit.permitted[1]!.amount)
+    : BigInt(payload.authorization.value);
+  const fail = (code: string, error: string): PaymentVerificationResult =>
+    ({ valid: false, code, error, payload });
+
+  if (options.checkFee ?? true) {
+    // Permit2 signs the fee rate; ERC-3009 settles at whatever rate the contract holds
+    const contractFeeBps = Number(await publicClient.readContract({
+      address: accept.settlement as `0x${string}`,
+      abi: settlementFeeAbi,
+      functionName: 'feeBps',
+    }));
+    const feeBps = payload.scheme === 'permit2' ? payload.witness.feeBps : accept.feeBps;
+    if (feeBps !== contractFeeBps) {
+      return fail('FEE_MISMATCH', `Settlement contract charges ${contractFeeBps} bps, payment expects ${feeBps}`);
+    }
+  }
+
+  const balance = await publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [payer],
+  });
+  if (balance < gross) {
+    return fail('INSUFFICIENT_BALANCE', `Payer balance ${balance.toString()} is below ${gross.toString()}`);
+  }
+
+  if (payload.scheme === 'permit2') {
+    const allowance = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [payer, PERMIT2_ADDRESS],
+    });
+    if (allowance < gross) {
+      return fail('ALLOWANCE_MISSING', `Permit2 allowance ${allowance.toString()} is below ${gross.toString()}`);
+    }
+
+    // Permit2 tracks unordered nonces as bits: word = nonce >> 8, bit = nonce & 0xff
+    const nonce = BigInt(payload.permit.nonce);
+    const bitmap = await publicClient.readContract({
+      address: PERMIT2_ADDRESS,
+      abi: permit2Abi,
+      functionName: 'nonceBitmap',
+      args: [payer, nonce >> BigInt(8)],
+    });
+    if ((bitmap >> (nonce & BigInt(0xff))) & BigInt(1)) {
+      return fail('NONCE_USED', `Permit2 nonce ${payload.permit.nonce} has already been used`);
+    }
+  } else {
+    const used = await publicClient.readContract({
+      address: token,
+      abi: erc3009Abi,
+      functionName: 'authorizationState',
+      args: [payload.authorization.from as `0x${string}`, payload.authorization.nonce as `0x${string}`],
+    });
+    if (used) {
+      return fail('NONCE_USED', `Authorization nonce ${payload.authorization.nonce} has already been used`);
+    }
+  }
+
+  return { valid: true, signer: payer, payload };
+}
+
+// ============================================================================
+// Verification Service
+// ============================================================================
+
+export interface VerificationConfig {
+  publicClients: Record<string, PublicClient>;
+  /** When set, payments must go through the configured contract for their network */
+  settlementAddresses?: Record<string, `0x${string}`>;
+}
+
+export class VerificationService {
+  private readonly config: VerificationConfig;
+
+  constructor(config: VerificationConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Verify a payload against the requirement it answers, off-chain and on-chain.
+   * Never settles; every failure is reported as `valid: false` with a code.
+   */
+  async verifyX402(
+    payload: PaymentPayload,
+    requirement: Pick<PaymentRequirement, 'accepts'>
+  ): Promise<PaymentVerificationResult> {
+    let candidates: PaymentAcceptEntry[];
+    try {
+      candidates = findAcceptCandidates(payload, requirement.accepts);
+    } catch (error) {
+      if (error instanceof PaymentMismatchError) {
+        return { valid: false, code: error.code, error: error.message, payload };
+      }
+      throw error;
+    }
+
+    const outsideWindow = checkValidityWindow(payload);
+    if (outsideWindow) {
+      return { valid: false, ...outsideWindow, payload };
+    }
+
+    // Binding and signature; several candidates only arise for ERC-3009
+    let accept = candidates[0]!;
+    let result = await verifyPayment(payload, accept);
+    for (const candidate of candidates.slice(1)) {
+      if (result.valid) break;
+      const attempt = await verifyPayment(payload, candidate);
+      if (attempt.valid) {
+        accept = candidate;
+        result = attempt;
+      }
+    }
+    if (!result.valid) return result;
+
+    const settlementAddress = this.config.settlementAddresses?.[payload.network];
+    if (settlementAddress && settlementAddress.toLowerCase() !== accept.settlement.toLowerCase()) {
+      return {
+        valid: false,
+        code: 'SETTLEMENT_MISMATCH',
+        error: `This facilitator settles through ${settlementAddress} on ${payload.network}, not ${accept.settlement}`,
+        payload,
+      };
+    }
+
+    const publicClient = this.config.publicClients[payload.network];
+    if (!publicClient) {
+      return {
+        valid: false,
+        code: 'NETWORK_NOT_CONFIGURED',
+        error: `No client configured for network "${payload.network}".`,
+        payload,
+      };
+    }
+
+    const onChain = await checkPaymentOnChain(payload, accept, publicClient);
+    return onChain.valid ? result : onChain;
+  }
+}
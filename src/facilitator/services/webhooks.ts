@@ -0,0 +1,306 @@
+/**
+ * Webhook Service
+ *
+ * Tells merchants about their settlements. Each status transition of a
+ * transaction is POSTed to every webhook registered for its recipient:
+ *   - The body is signed with HMAC-SHA256 over `${timestamp}.${body}` using the
+ *     webhook's secret, sent as `x-wazabi-signature: t=<unix>,v1=<hex>`
+ *   - Non-2xx answers and network errors are retried with exponential backoff
+ *   - Every delivery and attempt is recorded in the store, and failed deliveries
+ *     can be replayed
+ *   - Retries are timers in this process; `start()` also sweeps the store for
+ *     due pending deliveries, so retries survive a restart
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import axios from 'axios';
+import type { DataStore } from '../db/schema.js';
+import type { Transaction, Webhook, WebhookDelivery, WebhookEvent } from '../types.js';
+import { isAddress } from '../types.js';
+import { toSettlementStatus } from './settlement.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-wazabi-signature';
+export const WEBHOOK_EVENT_HEADER = 'x-wazabi-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-wazabi-delivery';
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+/** Signature header value for a webhook body */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a received webhook's signature header against its raw body.
+ * Rejects signatures older than `toleranceSeconds` to limit replays.
+ *
+ * @example
+ * ```typescript
+ * app.post('/hooks/x402', express.text({ type: '*\/*' }), (req, res) => {
+ *   if (!verifyWebhookSignature(secret, req.body, req.header('x-wazabi-signature'))) {
+ *     return res.status(401).end();
+ *   }
+ *   const event = JSON.parse(req.body);
+ *   res.status(204).end();
+ * });
+ * ```
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | undefined,
+  toleranceSeconds: number = 300
+): boolean {
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header ?? '');
+  if (!match) return false;
+  const timestamp = Number(match[1]);
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).slice(-64), 'hex');
+  return timingSafeEqual(expected, Buffer.from(match[2]!, 'hex'));
+}
+
+// ============================================================================
+// Webhook Configuration
+// ============================================================================
+
+export interface WebhookConfig {
+  /** Attempts per delivery, including the first (default: 6) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further one (default: 1000) */
+  baseDelayMs?: number;
+  /** Timeout for each POST (default: 10000) */
+  timeoutMs?: number;
+  /** Time between sweeps for due pending deliveries once started (default: 60000) */
+  sweepIntervalMs?: number;
+  /** Due deliveries loaded per sweep, most overdue first (default: 100) */
+  sweepBatchSize?: number;
+}
+
+// ============================================================================
+// Webhook Service
+// ============================================================================
+
+export class WebhookService {
+  private readonly store: DataStore;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly sweepIntervalMs: number;
+  private readonly sweepBatchSize: number;
+  /** Scheduled retries by delivery id */
+  private readonly retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Deliveries with an attempt in progress */
+  private readonly sending = new Set<string>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(store: DataStore, config: WebhookConfig = {}) {
+    this.store = store;
+    this.maxAttempts = config.maxAttempts ?? 6;
+    this.baseDelayMs = config.baseDelayMs ?? 1000;
+    this.timeoutMs = config.timeoutMs ?? 10_000;
+    this.sweepIntervalMs = config.sweepIntervalMs ?? 60_000;
+    this.sweepBatchSize = config.sweepBatchSize ?? 100;
+  }
+
+  /** Sweep now, then every `sweepIntervalMs` until `stop()` */
+  start(): void {
+    if (this.sweepTimer) return;
+    const tick = () => {
+      this.sweep().catch(error => console.error('[facilitator] Webhook sweep error:', error));
+    };
+    this.sweepTimer = setInterval(tick, this.sweepIntervalMs);
+    this.sweepTimer.unref?.();
+    tick();
+  }
+
+  /**
+   * Attempt every pending delivery whose `next_attempt_at` is due and that this
+   * process is not already handling, such as retries scheduled before a restart.
+   * Resolves with the ids attempted once their attempts finish.
+   */
+  async sweep(): Promise<string[]> {
+    const due = (await this.store.getDueWebhookDeliveries(new Date(), this.sweepBatchSize))
+      .filter(delivery => !this.retryTimers.has(delivery.id) && !this.sending.has(delivery.id));
+
+    const attempted: string[] = [];
+    await Promise.all(due.map(async delivery => {
+      const webhook = await this.store.getWebhook(delivery.webhook_id);
+      if (!webhook) return;
+      attempted.push(delivery.id);
+      await this.attempt(webhook, delivery.id);
+    }));
+    return attempted;
+  }
+
+  /** Register a URL for a recipient's settlements; a secret is generated if none is given */
+  async register(recipient: string, url: string, secret?: string): Promise<Webhook> {
+    if (!isAddress(recipient)) {
+      throw new WebhookError(`"${recipient}" is not a valid Ethereum address.`, 'INVALID_ADDRESS');
+    }
+
+    return this.store.createWebhook({
+      id: randomUUID(),
+      recipient_address: recipient.toLowerCase(),
+      url,
+      secret: secret ?? randomBytes(32).toString('hex'),
+      created_at: new Date(),
+    });
+  }
+
+  /**
+   * Queue a delivery of the transaction's current status to each of its
+   * recipient's webhooks. Resolves once recorded; sending happens in the background.
+   */
+  async notify(transaction: Transaction): Promise<WebhookDelivery[]> {
+    const webhooks = await this.store.getWebhooksByRecipient(transaction.to_address);
+    const event: WebhookEvent = `settlement.${transaction.status}`;
+    const now = new Date();
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const webhook of webhooks) {
+      const id = randomUUID();
+      const delivery = await this.store.createWebhookDelivery({
+        id,
+        webhook_id: webhook.id,
+        transaction_id: transaction.id,
+        event,
+        payload: JSON.stringify({
+          id,
+          event,
+          created_at: now.toISOString(),
+          data: toSettlementStatus(transaction),
+        }),
+        status: 'pending',
+        attempts: 0,
+        last_status_code: null,
+        last_error: null,
+        next_attempt_at: now,
+        created_at: now,
+        delivered_at: null,
+      });
+      deliveries.push(delivery);
+      void this.attempt(webhook, delivery.id);
+    }
+    return deliveries;
+  }
+
+  /**
+   * Send a delivery again now, whatever its status, with a fresh retry budget.
+   * Resolves with the delivery after this attempt.
+   */
+  async replay(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.store.getWebhookDelivery(deliveryId);
+    if (!delivery) {
+      throw new WebhookError(`No webhook delivery with id "${deliveryId}".`, 'DELIVERY_NOT_FOUND');
+    }
+    const webhook = await this.store.getWebhook(delivery.webhook_id);
+    if (!webhook) {
+      throw new WebhookError(`Webhook for delivery "${deliveryId}" no longer exists.`, 'WEBHOOK_NOT_FOUND');
+    }
+
+    // Replace any scheduled retry rather than sending twice
+    clearTimeout(this.retryTimers.get(deliveryId));
+    this.retryTimers.delete(deliveryId);
+    await this.store.updateWebhookDelivery(deliveryId, {
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date(),
+    });
+    await this.attempt(webhook, deliveryId);
+    return (await this.store.getWebhookDelivery(deliveryId))!;
+  }
+
+  /** Stop sweeping and cancel scheduled retries; their deliveries stay pending in the store */
+  stop(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+    for (const timer of this.retryTimers.values()) clearTimeout(timer);
+    this.retryTimers.clear();
+  }
+
+  private async attempt(webhook: Webhook, deliveryId: string): Promise<void> {
+    if (this.sending.has(deliveryId)) return;
+    this.sending.add(deliveryId);
+    try {
+      const delivery = await this.store.getWebhookDelivery(deliveryId);
+      if (!delivery || delivery.status !== 'pending') return;
+
+      const attempts = delivery.attempts + 1;
+      let statusCode: number | null = null;
+      let error: string | null = null;
+      try {
+        const response = await axios.post(webhook.url, delivery.payload, {
+          headers: {
+            'Content-Type': 'application/json',
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, delivery.payload),
+            [WEBHOOK_EVENT_HEADER]: delivery.event,
+            [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          },
+          timeout: this.timeoutMs,
+          validateStatus: () => true,
+        });
+        statusCode = response.status;
+        if (statusCode < 200 || statusCode >= 300) error = `Receiver answered ${statusCode}`;
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      if (!error) {
+        await this.store.updateWebhookDelivery(deliveryId, {
+          status: 'delivered',
+          attempts,
+          last_status_code: statusCode,
+          last_error: null,
+          next_attempt_at: null,
+          delivered_at: new Date(),
+        });
+        return;
+      }
+
+      // Exponential backoff: baseDelayMs, 2x, 4x, ... until the attempts run out
+      const exhausted = attempts >= this.maxAttempts;
+      const delayMs = this.baseDelayMs * 2 ** (attempts - 1);
+      await this.store.updateWebhookDelivery(deliveryId, {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        last_status_code: statusCode,
+        last_error: error,
+        next_attempt_at: exhausted ? null : new Date(Date.now() + delayMs),
+      });
+      if (!exhausted) this.scheduleRetry(webhook, deliveryId, delayMs);
+    } catch (error) {
+      console.error('[facilitator] Webhook delivery error:', error);
+    } finally {
+      this.sending.delete(deliveryId);
+    }
+  }
+
+  private scheduleRetry(webhook: Webhook, deliveryId: string, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(deliveryId);
+      void this.attempt(webhook, deliveryId);
+    }, delayMs);
+    timer.unref?.();
+    this.retryTimers.set(deliveryId, timer);
+  }
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export class WebhookError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'WebhookError';
+    Object.setPrototypeOf(this, WebhookError.prototype);
+  }
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { DEFAULT_FEE_BPS } from '../types/index.js';
+import { DEFAULT_FEE_BPS, PaymentPayloadSchema, PaymentRequirementSchema } from '../types/index.js';
 
 // ============================================================================
 // Constants
@@ -27,6 +27,41 @@ export interface Transaction {
   created_at: Date;
 }
 
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+/** Sent on every settlement status transition */
+export type WebhookEvent = `settlement.${TransactionStatus}`;
+
+export interface Webhook {
+  id: string;
+  /** Lowercased recipient address whose settlements are reported */
+  recipient_address: string;
+  url: string;
+  /** HMAC-SHA256 key for the signature header */
+  secret: string;
+  created_at: Date;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  transaction_id: string;
+  event: WebhookEvent;
+  /** JSON body, fixed when the event happened and re-sent as-is on retries */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: Date | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -40,6 +75,67 @@ export const VerifyRequestSchema = z.object({
 
 export type VerifyRequest = z.infer<typeof VerifyRequestSchema>;
 
+/** Body of `POST /x402/verify`: a payload and the requirement it answers */
+export const X402VerifyRequestSchema = z.object({
+  payload: PaymentPayloadSchema,
+  requirement: PaymentRequirementSchema.pick({ accepts: true }),
+});
+
+export type X402VerifyRequest = z.infer<typeof X402VerifyRequestSchema>;
+
+/** Body of `POST /admin/webhooks` */
+export const WebhookRegistrationSchema = z.object({
+  recipient: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address'),
+  url: z.string().url('Invalid URL').refine(url => /^https?:/.test(url), 'URL must be http(s)'),
+  secret: z.string().min(16, 'Secret must be at least 16 characters').optional(),
+});
+
+export type WebhookRegistration = z.infer<typeof WebhookRegistrationSchema>;
+
+/** Paging of the admin listings: `limit` from 1 to 200 (default 50), `offset` from 0 */
+export const AdminListQuerySchema = z.object({
+  limit: z.coerce.number({ message: 'limit must be a number' })
+    .int('limit must be an integer')
+    .min(1, 'limit must be at least 1')
+    .max(200, 'limit must be at most 200')
+    .default(50),
+  offset: z.coerce.number({ message: 'offset must be a number' })
+    .int('offset must be an integer')
+    .min(0, 'offset must not be negative')
+    .default(0),
+});
+
+/** Query of `GET /admin/webhooks/deliveries`: an optional status and a capped `limit` */
+export const DeliveryListQuerySchema = AdminListQuerySchema.pick({ limit: true }).extend({
+  status: z.enum(['pending', 'delivered', 'failed'], { message: 'Unknown status' }).optional(),
+});
+
+/**
+ * Body of `POST /admin/settlements/:id/resolve`: the outcome found in the
+ * settlement wallet for an orphaned pending settlement
+ */
+export const SettlementResolutionSchema = z.discriminatedUnion('status', [
+  /** Nothing was broadcast */
+  z.object({ status: z.literal('failed') }),
+  /** This transaction was broadcast; its receipt decides the outcome */
+  z.object({
+    status: z.literal('submitted'),
+    txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash'),
+  }),
+], { message: 'status must be "failed" or "submitted"' });
+
+export type SettlementResolution = z.infer<typeof SettlementResolutionSchema>;
+
+/** Optional filters on `GET /history/:address`; dates are ISO-8601 */
+export const HistoryFilterSchema = z.object({
+  status: z.string()
+    .transform(value => value.split(','))
+    .pipe(z.array(z.enum(['pending', 'submitted', 'confirmed', 'failed'], { message: 'Unknown status' })))
+    .optional(),
+  from: z.coerce.date({ message: 'from must be a date' }).optional(),
+  to: z.coerce.date({ message: 'to must be a date' }).optional(),
+});
+
 export interface HistoryResponse {
   address: string;
   transactions: Array<{
@@ -52,6 +148,7 @@ export interface HistoryResponse {
     from: string;
     tx_hash: string;
     network: string;
+    status: TransactionStatus;
     timestamp: string;
   }>;
   pagination: {
@@ -55,6 +55,7 @@ export { X402Client, createX402Client, createX402ClientFromEnv } from './client/
 export {
   x402Middleware,
   createPaymentRequirement,
+  createPaymentRequirementAsync,
   parsePaymentFromRequest,
   type X402Request,
 } from './server/index.js';
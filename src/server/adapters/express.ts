@@ -0,0 +1,148 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+import type { X402MiddlewareConfig } from '../../types/index.js';
+import {
+  type X402PaymentInfo,
+  type X402HttpResponse,
+  createX402Paywall,
+  headerValue,
+  internalErrorResponse,
+} from '../core.js';
+import { holdResponse } from '../hold-response.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface X402Request extends Request {
+  x402?: X402PaymentInfo;
+}
+
+function sendResponse(res: Response, response: X402HttpResponse): void {
+  res.status(response.status);
+  setHeaders(res, response.headers);
+  res.json(response.body);
+}
+
+function setHeaders(res: Response, headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+}
+
+// ============================================================================
+// Middleware Factory
+// ============================================================================
+
+/**
+ * Create x402 payment middleware for Express.
+ *
+ * Returns 402 with proper `accepts` array when no payment is present.
+ * Validates and optionally forwards payment to a facilitator for on-chain settlement.
+ *
+ * `amount`, `tokenAddress` and `recipientAddress` may be functions of the request.
+ * They are re-derived on the paid retry, so a payload must cover the price of the
+ * request it is attached to, not whatever a different request was quoted.
+ *
+ * A `routes` table prices a whole API surface from one instance: method + path
+ * pattern → price, token, description and schemes, most specific match first.
+ *
+ * `offers` advertise further (network, token) pairs in the same 402; a retried
+ * payload is verified against whichever offer it pays.
+ *
+ * `price: '$0.01'` prices in USD instead of base units: it is converted per token
+ * using its decimals. Tokens that are not stablecoins need a `priceSource`.
+ *
+ * Settlement goes through `facilitatorUrl`, or happens in-process when `settlement`
+ * is given viem clients or a `SettlementService`.
+ *
+ * With `settlementMode: 'after-handler'` the payment is verified up front but only
+ * settled once the handler has produced a 2xx; its response is held back until then.
+ *
+ * @example
+ * ```typescript
+ * app.use('/api/paid', x402Middleware({
+ *   recipientAddress: '0x...',
+ *   amount: '1000000',
+ *   tokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+ *   settlementAddress: '0x...',
+ *   treasuryAddress: '0x1b4F633B1FC5FC26Fb8b722b2373B3d4D71aCaeB',
+ *   facilitatorUrl: 'https://facilitator.wazabi.ai',
+ * }));
+ *
+ * // Priced per request
+ * app.use('/api/completions', x402Middleware({
+ *   ...config,
+ *   amount: async (req) => quoteTokens(req.body.model, req.body.maxTokens),
+ * }));
+ *
+ * // Priced per route
+ * app.use('/api', x402Middleware({
+ *   ...config,
+ *   routes: [
+ *     { method: 'GET', path: '/reports/:id', amount: '10000' },
+ *     { method: 'POST', path: '/models/:model/*', amount: (req, { params }) => price(params.model) },
+ *     { path: '/status', free: true },
+ *   ],
+ * }));
+ *
+ * // Payable in USDC on Base (primary) or USDT on BSC, one cent either way
+ * app.use('/api', x402Middleware({
+ *   ...config,
+ *   price: '$0.01',
+ *   offers: [{ networkId: 'eip155:56', tokenAddress: BSC_USDT.address, settlementAddress: '0x...' }],
+ * }));
+ * ```
+ */
+export function x402Middleware(config: X402MiddlewareConfig<Request>): RequestHandler {
+  const paywall = createX402Paywall(config);
+
+  return async (req: X402Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const decision = await paywall.handle({
+        method: req.method ?? 'GET',
+        path: req.path,
+        url: req.originalUrl,
+        header: name => headerValue(req.headers[name]),
+        raw: req,
+      });
+
+      if (decision.type === 'pass') {
+        next();
+        return;
+      }
+      if (decision.type === 'respond') {
+        sendResponse(res, decision.response);
+        return;
+      }
+
+      const { complete } = decision;
+      if (complete) {
+        // Let the handler run first; settle only if it succeeds
+        holdResponse(res, async (statusCode, discard) => {
+          const completion = await complete(statusCode);
+          if (completion.type === 'respond') {
+            discard();
+            sendResponse(res, completion.response);
+            return false;
+          }
+          setHeaders(res, completion.headers);
+          return true;
+        });
+      }
+
+      // Attach to request and return settlement info in response header
+      req.x402 = decision.payment;
+      setHeaders(res, decision.headers);
+      next();
+    } catch (error) {
+      if (config.onError && error instanceof Error) {
+        config.onError(error, req, res);
+        return;
+      }
+
+      console.error('[x402] Middleware error:', error);
+      sendResponse(res, internalErrorResponse());
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import type { X402MiddlewareConfig } from '../../types/index.js';
+import {
+  type X402PaymentInfo,
+  type X402HttpResponse,
+  type X402Completion,
+  createX402Paywall,
+  headerValue,
+} from '../core.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The parts of a `FastifyRequest` the paywall uses */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  x402?: X402PaymentInfo;
+}
+
+/** The parts of a `FastifyReply` the paywall uses */
+export interface FastifyReplyLike {
+  statusCode: number;
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  getHeaders(): Record<string, unknown>;
+  removeHeader(name: string): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+export interface X402FastifyHooks {
+  /** Register with `addHook('preHandler', ...)`; resolves to the reply once it has responded */
+  preHandler: (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<FastifyReplyLike | void>;
+  /** Register with `addHook('onSend', ...)`; settles in after-handler mode */
+  onSend: <TPayload>(
+    request: FastifyRequestLike,
+    reply: FastifyReplyLike,
+    payload: TPayload
+  ) => Promise<TPayload | string>;
+}
+
+function sendResponse(reply: FastifyReplyLike, response: X402HttpResponse): FastifyReplyLike {
+  reply.code(response.status);
+  setHeaders(reply, response.headers);
+  return reply.send(response.body);
+}
+
+/** Drop the headers the handler set, so none of them go out with a rejection */
+function clearHeaders(reply: FastifyReplyLike): void {
+  for (const name of Object.keys(reply.getHeaders())) {
+    reply.removeHeader(name);
+  }
+}
+
+function setHeaders(reply: FastifyReplyLike, headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    reply.header(name, value);
+  }
+}
+
+// ============================================================================
+// Hooks Factory
+// ============================================================================
+
+/**
+ * Create x402 payment hooks for Fastify.
+ *
+ * `preHandler` answers unpaid requests with 402 and attaches verified payments
+ * to `request.x402`. `onSend` is only needed with `settlementMode: 'after-handler'`:
+ * it settles once the handler's status code is known, and swaps in a rejection
+ * (without the handler's headers) if settlement fails. Unexpected errors go to
+ * Fastify's error handler.
+ *
+ * @example
+ * ```typescript
+ * import { x402Fastify } from '@wazabiai/x402/server/fastify';
+ *
+ * const paywall = x402Fastify({ ...config, amount: '10000' });
+ * app.addHook('preHandler', paywall.preHandler);
+ * app.addHook('onSend', paywall.onSend);
+ * ```
+ */
+export function x402Fastify(config: X402MiddlewareConfig<FastifyRequestLike>): X402FastifyHooks {
+  const paywall = createX402Paywall(config);
+  // After-handler settlements waiting for the reply to be serialized
+  const pending = new WeakMap<FastifyRequestLike, (statusCode: number) => Promise<X402Completion>>();
+
+  const preHandler = async (
+    request: FastifyRequestLike,
+    reply: FastifyReplyLike
+  ): Promise<FastifyReplyLike | void> => {
+    const decision = await paywall.handle({
+      method: request.method,
+      path: request.url.split('?')[0]!,
+      url: request.url,
+      header: name => headerValue(request.headers[name]),
+      raw: request,
+    });
+
+    if (decision.type === 'pass') return;
+    // Returning the reply tells Fastify the hook has responded
+    if (decision.type === 'respond') return sendResponse(reply, decision.response);
+
+    if (decision.complete) pending.set(request, decision.complete);
+    request.x402 = decision.payment;
+    setHeaders(reply, decision.headers);
+  };
+
+  const onSend = async <TPayload>(
+    request: FastifyRequestLike,
+    reply: FastifyReplyLike,
+    payload: TPayload
+  ): Promise<TPayload | string> => {
+    const complete = pending.get(request);
+    if (!complete) return payload;
+    pending.delete(request);
+
+    const completion = await complete(reply.statusCode);
+    if (completion.type === 'respond') {
+      clearHeaders(reply);
+      reply.code(completion.response.status);
+      setHeaders(reply, completion.response.headers);
+      reply.header('content-type', 'application/json; charset=utf-8');
+      return JSON.stringify(completion.response.body);
+    }
+    setHeaders(reply, completion.headers);
+    return payload;
+  };
+
+  return { preHandler, onSend };
+}
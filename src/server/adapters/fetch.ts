@@ -0,0 +1,84 @@
+import type { X402MiddlewareConfig } from '../../types/index.js';
+import { type X402PaymentInfo, createX402Paywall } from '../core.js';
+import { toWebResponse, withHeaders } from './web-response.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Added to the handler's context; set when the request was paid for */
+export interface X402FetchContext {
+  x402?: X402PaymentInfo;
+}
+
+export type X402FetchHandler<TContext> = (
+  request: Request,
+  context: TContext & X402FetchContext
+) => Response | Promise<Response>;
+
+// ============================================================================
+// Handler Wrapper
+// ============================================================================
+
+/**
+ * Put a web-standard `(Request) => Promise<Response>` handler behind the x402
+ * paywall, as used by Next.js route handlers, Deno, Bun and workers. Only web
+ * APIs are used.
+ *
+ * Unpaid requests get a 402 `Response` with the requirement in `x-payment-required`;
+ * paid ones reach `handler` with the verified payment as `context.x402`. Any
+ * context the platform passes (e.g. Next.js `params`) is forwarded alongside it.
+ * Errors are left to the platform, after releasing the payment's nonce.
+ *
+ * @example
+ * ```typescript
+ * // app/api/report/route.ts
+ * import { withX402 } from '@wazabiai/x402/server/fetch';
+ *
+ * export const GET = withX402(async (request, { x402 }) => {
+ *   return Response.json({ paidBy: x402?.signer });
+ * }, { ...config, price: '$0.01' });
+ *
+ * // Deno / Bun
+ * Deno.serve(withX402(handler, config));
+ * ```
+ */
+export function withX402<TContext extends object = object>(
+  handler: X402FetchHandler<TContext>,
+  config: X402MiddlewareConfig<Request>
+): (request: Request, context?: TContext) => Promise<Response> {
+  const paywall = createX402Paywall(config);
+
+  return async (request, context) => {
+    const url = new URL(request.url);
+    const decision = await paywall.handle({
+      method: request.method,
+      path: url.pathname,
+      url: request.url,
+      header: name => request.headers.get(name) ?? undefined,
+      raw: request,
+    });
+
+    if (decision.type === 'respond') return toWebResponse(decision.response);
+    if (decision.type === 'pass') {
+      return handler(request, { ...context } as TContext & X402FetchContext);
+    }
+
+    let response: Response;
+    try {
+      response = await handler(request, { ...context, x402: decision.payment } as TContext & X402FetchContext);
+    } catch (error) {
+      // Release the claimed nonce; the payment was never settled
+      await decision.complete?.(500);
+      throw error;
+    }
+
+    if (decision.complete) {
+      // Settle only now that the handler has succeeded
+      const completion = await decision.complete(response.status);
+      if (completion.type === 'respond') return toWebResponse(completion.response);
+      return withHeaders(response, completion.headers);
+    }
+    return withHeaders(response, decision.headers);
+  };
+}
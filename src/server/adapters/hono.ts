@@ -0,0 +1,78 @@
+import type { X402MiddlewareConfig } from '../../types/index.js';
+import { type X402PaymentInfo, createX402Paywall } from '../core.js';
+import { toWebResponse } from './web-response.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The parts of a Hono `Context` the paywall uses */
+export interface HonoContextLike {
+  req: {
+    method: string;
+    path: string;
+    url: string;
+    header(name: string): string | undefined;
+  };
+  res: Response;
+  header(name: string, value: string): void;
+  set(key: 'x402', value: X402PaymentInfo): void;
+}
+
+export type HonoMiddleware = (
+  c: HonoContextLike,
+  next: () => Promise<void>
+) => Promise<Response | undefined>;
+
+// ============================================================================
+// Middleware Factory
+// ============================================================================
+
+/**
+ * Create x402 payment middleware for Hono.
+ *
+ * Verified payments are available as `c.get('x402')`. In after-handler mode the
+ * handler's `c.res` is settled for once `next()` returns, and replaced with a
+ * rejection if settlement fails. Unexpected errors go to `app.onError`.
+ *
+ * @example
+ * ```typescript
+ * import { x402Hono } from '@wazabiai/x402/server/hono';
+ *
+ * app.use('/api/*', x402Hono({ ...config, price: '$0.01' }));
+ * app.get('/api/report', (c) => c.json({ paidBy: c.get('x402').signer }));
+ * ```
+ */
+export function x402Hono(config: X402MiddlewareConfig<HonoContextLike>): HonoMiddleware {
+  const paywall = createX402Paywall(config);
+
+  return async (c, next): Promise<Response | undefined> => {
+    const decision = await paywall.handle({
+      method: c.req.method,
+      path: c.req.path,
+      url: c.req.url,
+      header: name => c.req.header(name),
+      raw: c,
+    });
+
+    if (decision.type === 'pass') {
+      await next();
+      return undefined;
+    }
+    if (decision.type === 'respond') return toWebResponse(decision.response);
+
+    c.set('x402', decision.payment);
+    for (const [name, value] of Object.entries(decision.headers)) c.header(name, value);
+    await next();
+
+    if (decision.complete) {
+      const completion = await decision.complete(c.res.status);
+      if (completion.type === 'respond') {
+        c.res = toWebResponse(completion.response);
+        return undefined;
+      }
+      for (const [name, value] of Object.entries(completion.headers)) c.header(name, value);
+    }
+    return undefined;
+  };
+}
@@ -0,0 +1,107 @@
+import type { X402MiddlewareConfig } from '../../types/index.js';
+import {
+  type X402HttpResponse,
+  createX402Paywall,
+} from '../core.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The parts of a Koa `Context` the paywall uses */
+export interface KoaContextLike {
+  method: string;
+  path: string;
+  originalUrl: string;
+  status: number;
+  body: unknown;
+  state: Record<string, unknown>;
+  response: { headers: Record<string, unknown> };
+  get(field: string): string;
+  set(field: string, value: string): void;
+  remove(field: string): void;
+}
+
+export type KoaMiddleware = (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<void>;
+
+function sendResponse(ctx: KoaContextLike, response: X402HttpResponse): void {
+  ctx.status = response.status;
+  setHeaders(ctx, response.headers);
+  ctx.body = response.body;
+}
+
+/** Drop the headers the handler set, so none of them go out with a rejection */
+function clearHeaders(ctx: KoaContextLike): void {
+  for (const name of Object.keys(ctx.response.headers)) {
+    ctx.remove(name);
+  }
+}
+
+function setHeaders(ctx: KoaContextLike, headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    ctx.set(name, value);
+  }
+}
+
+// ============================================================================
+// Middleware Factory
+// ============================================================================
+
+/**
+ * Create x402 payment middleware for Koa.
+ *
+ * Verified payments are attached to `ctx.state.x402`. Koa only writes the
+ * response once the middleware chain unwinds, so in after-handler mode the
+ * payment is settled after `next()` with the handler's `ctx.status`, and
+ * `ctx.body` and the handler's headers are replaced with a rejection if
+ * settlement fails. Unexpected errors propagate to Koa's error handling.
+ *
+ * @example
+ * ```typescript
+ * import { x402Koa } from '@wazabiai/x402/server/koa';
+ *
+ * app.use(x402Koa({ ...config, routes: [{ path: '/reports/:id', price: '$0.05' }] }));
+ * ```
+ */
+export function x402Koa(config: X402MiddlewareConfig<KoaContextLike>): KoaMiddleware {
+  const paywall = createX402Paywall(config);
+
+  return async (ctx, next) => {
+    const decision = await paywall.handle({
+      method: ctx.method,
+      path: ctx.path,
+      url: ctx.originalUrl,
+      header: name => ctx.get(name) || undefined,
+      raw: ctx,
+    });
+
+    if (decision.type === 'pass') {
+      await next();
+      return;
+    }
+    if (decision.type === 'respond') {
+      sendResponse(ctx, decision.response);
+      return;
+    }
+
+    ctx.state.x402 = decision.payment;
+    setHeaders(ctx, decision.headers);
+    try {
+      await next();
+    } catch (error) {
+      // Release the claimed nonce before Koa turns the error into a response
+      await decision.complete?.(500);
+      throw error;
+    }
+
+    if (decision.complete) {
+      const completion = await decision.complete(ctx.status);
+      if (completion.type === 'respond') {
+        clearHeaders(ctx);
+        sendResponse(ctx, completion.response);
+        return;
+      }
+      setHeaders(ctx, completion.headers);
+    }
+  };
+}
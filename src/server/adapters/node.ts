@@ -0,0 +1,112 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import type { X402MiddlewareConfig } from '../../types/index.js';
+import {
+  type X402PaymentInfo,
+  type X402HttpResponse,
+  createX402Paywall,
+  headerValue,
+  internalErrorResponse,
+} from '../core.js';
+import { holdResponse } from '../hold-response.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface X402IncomingMessage extends IncomingMessage {
+  x402?: X402PaymentInfo;
+}
+
+export type X402NodeHandler = (
+  req: X402IncomingMessage,
+  res: ServerResponse
+) => void | Promise<void>;
+
+function sendResponse(res: ServerResponse, response: X402HttpResponse): void {
+  res.statusCode = response.status;
+  setHeaders(res, response.headers);
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(response.body));
+}
+
+function setHeaders(res: ServerResponse, headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+}
+
+// ============================================================================
+// Listener Factory
+// ============================================================================
+
+/**
+ * Wrap a plain `node:http` request listener in the x402 paywall.
+ *
+ * `handler` only runs for free or paid requests; verified payments are attached
+ * to `req.x402`. Errors from the paywall or the handler go to `onError`, or
+ * become a 500 if the response has not started.
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { x402Node } from '@wazabiai/x402/server/node';
+ *
+ * createServer(x402Node((req, res) => {
+ *   res.end(JSON.stringify({ paidBy: req.x402?.signer }));
+ * }, { ...config, amount: '10000' })).listen(3000);
+ * ```
+ */
+export function x402Node(
+  handler: X402NodeHandler,
+  config: X402MiddlewareConfig<IncomingMessage>
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const paywall = createX402Paywall(config);
+
+  return async (req: X402IncomingMessage, res: ServerResponse): Promise<void> => {
+    try {
+      const url = req.url ?? '/';
+      const decision = await paywall.handle({
+        method: req.method ?? 'GET',
+        path: new URL(url, 'http://localhost').pathname,
+        url,
+        header: name => headerValue(req.headers[name]),
+        raw: req,
+      });
+
+      if (decision.type === 'respond') {
+        sendResponse(res, decision.response);
+        return;
+      }
+
+      if (decision.type === 'paid') {
+        const { complete } = decision;
+        if (complete) {
+          // Let the handler run first; settle only if it succeeds
+          holdResponse(res, async (statusCode, discard) => {
+            const completion = await complete(statusCode);
+            if (completion.type === 'respond') {
+              discard();
+              sendResponse(res, completion.response);
+              return false;
+            }
+            setHeaders(res, completion.headers);
+            return true;
+          });
+        }
+        req.x402 = decision.payment;
+        setHeaders(res, decision.headers);
+      }
+
+      await handler(req, res);
+    } catch (error) {
+      if (config.onError && error instanceof Error) {
+        config.onError(error, req, res);
+        return;
+      }
+
+      console.error('[x402] Request error:', error);
+      if (!res.headersSent) sendResponse(res, internalErrorResponse());
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import type { X402HttpResponse } from '../core.js';
+
+// ============================================================================
+// Web Responses
+// ============================================================================
+
+/** Build a JSON web `Response` from a paywall response */
+export function toWebResponse(response: X402HttpResponse): Response {
+  return new Response(JSON.stringify(response.body), {
+    status: response.status,
+    headers: { ...response.headers, 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * Add headers to a handler's `Response`. Responses from `fetch()` have
+ * immutable headers, so a copy is returned.
+ */
+export function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const entries = Object.entries(headers);
+  if (entries.length === 0) return response;
+
+  const copy = new Response(response.body, response);
+  for (const [name, value] of entries) copy.headers.set(name, value);
+  return copy;
+}
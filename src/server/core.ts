@@ -0,0 +1,780 @@
+import type { Address, PublicClient } from 'viem';
+
+import {
+  type PaymentRequirement,
+  type PaymentAcceptEntry,
+  type PaymentPayload,
+  type PaymentResponse,
+  type PaymentVerificationResult,
+  type X402MiddlewareConfig,
+  type PerRequest,
+  type RouteMatch,
+  type PaymentSettler,
+  type LocalSettlementClients,
+  PaymentPayloadSchema,
+  PaymentMismatchError,
+  X402_HEADERS,
+  X402_VERSION,
+  DEFAULT_FEE_BPS,
+  calculateDeadline,
+  extractChainId,
+} from '../types/index.js';
+import {
+  BASE_CAIP_ID,
+  BASE_USDC,
+} from '../chains/base.js';
+import { checkValidityWindow, findAcceptCandidates, verifyPayment } from './verify.js';
+import { InMemoryNonceStore, scopeNonce } from './nonce-store.js';
+import { compileRoutes, matchRoute } from './routes.js';
+import { checkPaymentOnChain } from '../facilitator/services/verification.js';
+import {
+  type ResolvedOffer,
+  getTokenDecimals,
+  scaleOfferAmount,
+  offerSchemes,
+  assertUsdPriceable,
+  usdToTokenAmount,
+  createUsdQuoteCache,
+} from './pricing.js';
+
+// ============================================================================
+// Replay Protection
+// ============================================================================
+
+/** Shared by every paywall instance that is not given its own store */
+const defaultNonceStore = new InMemoryNonceStore();
+
+/** Extra time a nonce stays burned beyond its payload's deadline */
+const NONCE_TTL_SKEW_MS = 60_000;
+
+/**
+ * How long a nonce is held while settlement is in flight. Outlives the
+ * facilitator request timeout and the local settlement timeout; if the process
+ * dies mid-settlement the claim lapses and the payer can retry the same payload.
+ */
+const NONCE_PENDING_LEASE_MS = 120_000;
+
+/**
+ * How long in-process settlement may run before the paywall stops waiting.
+ * Shorter than the lease, so the claim cannot lapse (and be taken by another
+ * request) while this one still holds it.
+ */
+const LOCAL_SETTLEMENT_TIMEOUT_MS = 90_000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What a paid request carries into the handler (`req.x402` in Express) */
+export interface X402PaymentInfo {
+  payment: PaymentPayload;
+  verified: boolean;
+  signer: Address;
+  verification: PaymentVerificationResult;
+  /** The accept entry the payment was checked against (price resolved for this request) */
+  accept: PaymentAcceptEntry;
+  settlementResult?: PaymentResponse;
+}
+
+/**
+ * A framework's request, reduced to what the paywall reads.
+ */
+export interface X402HttpRequest<TRequest> {
+  method: string;
+  /** Path matched against `routes` and `excludeRoutes`, without the query string */
+  path: string;
+  /** URL advertised as the requirement's `resource` */
+  url: string;
+  /** Read a header by its lower-case name */
+  header(name: string): string | undefined;
+  /** The framework's own request, handed to per-request config functions */
+  raw: TRequest;
+}
+
+/** A response for the adapter to send as JSON */
+export interface X402HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * What an adapter should do with a request:
+ * - `pass`: not priced, run the handler
+ * - `respond`: send `response` (402 requirement or rejection) instead of the handler
+ * - `paid`: run the handler with `payment` attached and `headers` added to its response
+ */
+export type X402Decision =
+  | { type: 'pass' }
+  | { type: 'respond'; response: X402HttpResponse }
+  | {
+      type: 'paid';
+      payment: X402PaymentInfo;
+      headers: Record<string, string>;
+      /**
+       * Set in after-handler mode: call with the handler's status code once it
+       * has responded, before anything is sent. Settles on 2xx.
+       */
+      complete?: (statusCode: number) => Promise<X402Completion>;
+    };
+
+/**
+ * Outcome of after-handler settlement: send the handler's response with
+ * `headers` added, or discard it and send `response` instead.
+ */
+export type X402Completion =
+  | { type: 'send'; headers: Record<string, string> }
+  | { type: 'respond'; response: X402HttpResponse };
+
+export interface X402Paywall<TRequest> {
+  /**
+   * Decide how to answer a request.
+   *
+   * @throws on unexpected errors (pricing functions, nonce store), after
+   * releasing any nonce the request had claimed
+   */
+  handle(request: X402HttpRequest<TRequest>): Promise<X402Decision>;
+}
+
+/** Match reported for requests priced by the top-level config rather than a route */
+const DEFAULT_ROUTE_MATCH: RouteMatch = { method: '*', path: '/*', params: {} };
+
+/**
+ * Resolve a {@link PerRequest} config value for the current request.
+ */
+async function resolvePerRequest<T, TRequest>(
+  value: PerRequest<T, TRequest>,
+  req: TRequest,
+  match: RouteMatch
+): Promise<T> {
+  return typeof value === 'function'
+    ? (value as (req: TRequest, match: RouteMatch) => T | Promise<T>)(req, match)
+    : value;
+}
+
+/**
+ * Read a Node-style header value (`string | string[] | undefined`) as one string.
+ */
+export function headerValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : String(value);
+}
+
+// ============================================================================
+// Rejections
+// ============================================================================
+
+/** HTTP status and error title for each rejection code */
+const REJECTIONS: Record<string, { status: number; error: string }> = {
+  INVALID_PAYLOAD: { status: 400, error: 'Invalid Payment' },
+  SCHEME_NOT_ACCEPTED: { status: 400, error: 'Scheme Not Accepted' },
+  NETWORK_MISMATCH: { status: 400, error: 'Network Mismatch' },
+  TOKEN_MISMATCH: { status: 400, error: 'Token Mismatch' },
+  RECIPIENT_MISMATCH: { status: 400, error: 'Recipient Mismatch' },
+  SETTLEMENT_MISMATCH: { status: 400, error: 'Settlement Mismatch' },
+  FEE_MISMATCH: { status: 400, error: 'Fee Mismatch' },
+  PAYMENT_EXPIRED: { status: 400, error: 'Payment Expired' },
+  PAYMENT_NOT_YET_VALID: { status: 400, error: 'Payment Not Yet Valid' },
+  SIGNER_MISMATCH: { status: 400, error: 'Invalid Signature' },
+  INSUFFICIENT_AMOUNT: { status: 402, error: 'Insufficient Payment' },
+  NONCE_REPLAYED: { status: 402, error: 'Replay Detected' },
+  NONCE_USED: { status: 402, error: 'Replay Detected' },
+  INSUFFICIENT_BALANCE: { status: 402, error: 'Insufficient Balance' },
+  ALLOWANCE_MISSING: { status: 402, error: 'Allowance Missing' },
+  SETTLEMENT_FAILED: { status: 402, error: 'Settlement Failed' },
+  SETTLEMENT_PENDING: { status: 402, error: 'Settlement Pending' },
+  ROUTE_NOT_PRICED: { status: 403, error: 'Forbidden' },
+};
+
+function rejection(
+  code: string,
+  message?: string,
+  extra?: Record<string, unknown>
+): X402HttpResponse {
+  const { status, error } = REJECTIONS[code] ?? { status: 400, error: 'Invalid Payment' };
+  return { status, headers: {}, body: { error, code, message, ...extra } };
+}
+
+function reject(code: string, message?: string, extra?: Record<string, unknown>): X402Decision {
+  return { type: 'respond', response: rejection(code, message, extra) };
+}
+
+/**
+ * The 500 adapters send when the paywall throws and no `onError` handles it.
+ */
+export function internalErrorResponse(): X402HttpResponse {
+  return {
+    status: 500,
+    headers: {},
+    body: { error: 'Internal Server Error', message: 'Payment processing failed' },
+  };
+}
+
+// ============================================================================
+// Paywall Factory
+// ============================================================================
+
+/**
+ * Create the framework-agnostic x402 paywall that every adapter wraps.
+ *
+ * It resolves the price for a request, builds the 402 requirement, parses and
+ * verifies the `x-payment` header, guards against replays and settles, then
+ * returns an {@link X402Decision} for the adapter to carry out. See
+ * {@link X402MiddlewareConfig} for the options; per-request functions receive
+ * the framework's own request (`raw`).
+ *
+ * @example
+ * ```typescript
+ * const paywall = createX402Paywall<MyRequest>(config);
+ * const decision = await paywall.handle({
+ *   method: req.method,
+ *   path: req.pathname,
+ *   url: req.url,
+ *   header: name => req.headers[name],
+ *   raw: req,
+ * });
+ * ```
+ */
+export function createX402Paywall<TRequest>(
+  config: X402MiddlewareConfig<TRequest>
+): X402Paywall<TRequest> {
+  const {
+    recipientAddress,
+    amount,
+    price,
+    priceSource,
+    priceQuoteTtlMs = 60_000,
+    tokenAddress = BASE_USDC.address as `0x${string}`,
+    settlementAddress,
+    treasuryAddress,
+    feeBps = DEFAULT_FEE_BPS,
+    facilitatorUrl,
+    settlement,
+    publicClient,
+    description,
+    networkId = BASE_CAIP_ID,
+    deadlineDuration = 300,
+    acceptedSchemes = ['permit2'],
+    offers = [],
+    routes = [],
+    excludeRoutes = [],
+    unmatchedRoutes = 'deny',
+    caseSensitiveRoutes = false,
+    nonceStore = defaultNonceStore,
+    settlementMode = 'before-handler',
+  } = config;
+
+  // Every priced request needs exactly one of amount (base units) or price (USD)
+  const hasDefaultPrice = amount !== undefined || price !== undefined;
+  if (amount !== undefined && price !== undefined) {
+    throw new Error('x402 paywall takes `amount` or `price`, not both');
+  }
+  if (!hasDefaultPrice && routes.length === 0) {
+    throw new Error('x402 paywall requires `amount`, `price` or a `routes` table');
+  }
+  for (const route of routes) {
+    const label = `x402 route ${route.method ?? '*'} ${route.path}`;
+    if (route.amount !== undefined && route.price !== undefined) {
+      throw new Error(`${label} takes \`amount\` or \`price\`, not both`);
+    }
+    if (!route.free && !hasDefaultPrice && route.amount === undefined && route.price === undefined) {
+      throw new Error(`${label} has no amount`);
+    }
+    const routeUsesPrice = route.price !== undefined || (route.amount === undefined && price !== undefined);
+    if (!route.free && routeUsesPrice && typeof route.tokenAddress === 'string') {
+      assertUsdPriceable(networkId, route.tokenAddress, priceSource);
+    }
+  }
+
+  // Validate chainIds, and that every static token can be priced, at initialization
+  const usesPrice = price !== undefined || routes.some(route => route.price !== undefined);
+  const usesAmount = amount !== undefined || routes.some(route => route.amount !== undefined);
+  extractChainId(networkId);
+  if (usesPrice && typeof tokenAddress === 'string') {
+    assertUsdPriceable(networkId, tokenAddress, priceSource);
+  }
+  for (const offer of offers) {
+    extractChainId(offer.networkId);
+    if (offer.amount !== undefined) continue;
+    // Offers without an amount convert the USD price, or rescale the primary amount
+    if (usesPrice) assertUsdPriceable(offer.networkId, offer.tokenAddress, priceSource);
+    if (usesAmount) {
+      getTokenDecimals(offer.networkId, offer.tokenAddress);
+      if (typeof tokenAddress === 'string') getTokenDecimals(networkId, tokenAddress);
+    }
+  }
+
+  // Quote once per TTL; payments may use any quote an unexpired 402 carried
+  const quotes = priceSource
+    ? createUsdQuoteCache(priceSource, priceQuoteTtlMs, deadlineDuration * 1000)
+    : undefined;
+
+  // Settle in-process when given clients or a settler, otherwise via the facilitator
+  if (facilitatorUrl && settlement) {
+    throw new Error('x402 paywall takes `facilitatorUrl` or `settlement`, not both');
+  }
+  let settler: PaymentSettler | undefined;
+  if (settlement && isLocalSettlementClients(settlement)) {
+    // One settlement contract per network, the first offer on a network wins
+    const settlementAddresses: Record<string, `0x${string}`> = {};
+    for (const offer of [{ networkId, settlementAddress }, ...offers]) {
+      settlementAddresses[offer.networkId] ??= offer.settlementAddress;
+    }
+    // Loaded lazily so web-only bundles never resolve the facilitator's settlement service
+    let loading: Promise<PaymentSettler> | undefined;
+    settler = {
+      settleX402: async (payload) => {
+        loading ??= import('./local-settler.js').then(({ createLocalSettler }) =>
+          createLocalSettler(settlement, treasuryAddress, settlementAddresses)
+        );
+        return (await loading).settleX402(payload);
+      },
+    };
+  } else {
+    settler = settlement;
+  }
+
+  // Pre-flight chain reads, keyed by network
+  const publicClients: Record<string, PublicClient> = publicClient && isPublicClient(publicClient)
+    ? { [networkId]: publicClient }
+    : publicClient ?? {};
+
+  const routeTable = compileRoutes<TRequest>(routes, { caseSensitive: caseSensitiveRoutes });
+  // Excluded prefixes are served free before any route matches; an empty prefix excludes nothing
+  const foldPath = (path: string) => (caseSensitiveRoutes ? path : path.toLowerCase());
+  const excludedPrefixes = excludeRoutes.filter(prefix => prefix.length > 0).map(foldPath);
+
+  const handle = async (request: X402HttpRequest<TRequest>): Promise<X402Decision> => {
+    const req = request.raw;
+    // Nonce claimed by this request and not yet committed; released on unexpected errors
+    let pendingNonce: string | null = null;
+
+    try {
+      const path = foldPath(request.path);
+      if (excludedPrefixes.some(prefix => path.startsWith(prefix))) {
+        return { type: 'pass' };
+      }
+
+      // Most specific route wins; unmatched requests fall back to the top-level price
+      const matched = matchRoute(routeTable, request.method, request.path) ??
+        (hasDefaultPrice ? { route: undefined, match: DEFAULT_ROUTE_MATCH } : null);
+      if (!matched) {
+        return unmatchedRoutes === 'pass'
+          ? { type: 'pass' }
+          : reject('ROUTE_NOT_PRICED', `No x402 route matches ${request.method} ${request.path}`);
+      }
+      if (matched.route?.free) {
+        return { type: 'pass' };
+      }
+      const { route, match } = matched;
+
+      const [resolvedRecipient, resolvedToken] = await Promise.all([
+        resolvePerRequest(route?.recipientAddress ?? recipientAddress, req, match),
+        resolvePerRequest(route?.tokenAddress ?? tokenAddress, req, match),
+      ]);
+
+      // A route's own pricing overrides the top level; `price` is USD, `amount` base units
+      const pricing = route?.amount !== undefined || route?.price !== undefined
+        ? route
+        : { amount, price };
+      // Paid retries are priced with the quote most favourable to the payer
+      const paymentHeader = request.header(X402_HEADERS.PAYMENT);
+      const quoteSource = paymentHeader ? quotes?.forPayment : quotes?.current;
+      const usdPrice = pricing.amount === undefined
+        ? await resolvePerRequest(pricing.price!, req, match)
+        : undefined;
+      const resolvedAmount = usdPrice !== undefined
+        ? await usdToTokenAmount(usdPrice, networkId, resolvedToken, quoteSource)
+        : await resolvePerRequest(pricing.amount!, req, match);
+
+      const primary: ResolvedOffer = {
+        networkId,
+        tokenAddress: resolvedToken,
+        settlementAddress,
+        recipientAddress: resolvedRecipient,
+        amount: resolvedAmount,
+        acceptedSchemes: route?.acceptedSchemes ?? acceptedSchemes,
+      };
+      const extraOffers = await Promise.all(offers.map(async (offer): Promise<ResolvedOffer> => ({
+        networkId: offer.networkId,
+        tokenAddress: offer.tokenAddress,
+        settlementAddress: offer.settlementAddress,
+        recipientAddress: offer.recipientAddress !== undefined
+          ? await resolvePerRequest(offer.recipientAddress, req, match)
+          : primary.recipientAddress,
+        amount: offer.amount !== undefined
+          ? await resolvePerRequest(offer.amount, req, match)
+          : usdPrice !== undefined
+            ? await usdToTokenAmount(usdPrice, offer.networkId, offer.tokenAddress, quoteSource)
+            : scaleOfferAmount(primary, offer.networkId, offer.tokenAddress),
+        acceptedSchemes: offer.acceptedSchemes ?? primary.acceptedSchemes,
+      })));
+
+      const requirement = buildPaymentRequirement({
+        offers: [primary, ...extraOffers],
+        treasuryAddress,
+        feeBps,
+        deadlineDuration,
+        description: route?.description ?? description,
+        resource: request.url,
+      });
+
+      // If no payment, return 402 with payment requirement
+      if (!paymentHeader) {
+        return {
+          type: 'respond',
+          response: {
+            status: 402,
+            headers: { [X402_HEADERS.PAYMENT_REQUIRED]: JSON.stringify(requirement) },
+            body: { error: 'Payment Required', requirement },
+          },
+        };
+      }
+
+      // Parse the payment payload from x-payment header
+      let payload: PaymentPayload;
+      try {
+        const result = PaymentPayloadSchema.safeParse(JSON.parse(paymentHeader));
+        if (!result.success) {
+          throw new Error(`Invalid payload: ${result.error.message}`);
+        }
+        payload = result.data;
+      } catch (error) {
+        return reject(
+          'INVALID_PAYLOAD',
+          error instanceof Error ? error.message : 'Failed to parse payment payload'
+        );
+      }
+
+      // Locate the accept entries this payload may be paying for (network + scheme + token)
+      let candidates: PaymentAcceptEntry[];
+      try {
+        candidates = findAcceptCandidates(payload, requirement.accepts);
+      } catch (error) {
+        if (error instanceof PaymentMismatchError) {
+          return reject(error.code, error.message);
+        }
+        throw error;
+      }
+
+      // Validity window, with the same bounds the facilitator and contract apply
+      const now = Math.floor(Date.now() / 1000);
+      const outsideWindow = checkValidityWindow(payload, now);
+      if (outsideWindow) {
+        return reject(outsideWindow.code, outsideWindow.error);
+      }
+
+      // Payload must pay the advertised recipient/token/settlement/fee/amount,
+      // and its signature must recover to the declared payer. Several candidates
+      // only arise for ERC-3009, whose token is bound by the signature alone.
+      let accept = candidates[0]!;
+      let verification = await verifyPayment(payload, accept);
+      for (const candidate of candidates.slice(1)) {
+        if (verification.valid) break;
+        const attempt = await verifyPayment(payload, candidate);
+        if (attempt.valid) {
+          accept = candidate;
+          verification = attempt;
+        }
+      }
+      if (!verification.valid) {
+        return reject(verification.code ?? 'PAYMENT_VERIFICATION_FAILED', verification.error);
+      }
+      const signer = verification.signer!;
+
+      // Pre-flight: refuse payments the chain would revert before doing any work
+      const chainClient = publicClients[payload.network];
+      if (chainClient) {
+        const onChain = await checkPaymentOnChain(payload, accept, chainClient, { checkFee: false });
+        if (!onChain.valid) {
+          return reject(onChain.code!, onChain.error);
+        }
+      }
+
+      // Replay protection: claim the (network, payer, nonce) while settling, then
+      // burn it until the payload expires, or release it if nothing was settled
+      const deadline = payload.scheme === 'permit2'
+        ? payload.permit.deadline
+        : payload.authorization.validBefore;
+      const nonceTtlMs = (deadline - now) * 1000 + NONCE_TTL_SKEW_MS;
+      const nonceKey = scopeNonce(payload);
+      // After-handler settlement holds the claim for as long as the handler runs
+      const claimTtlMs = settlementMode === 'after-handler'
+        ? nonceTtlMs
+        : Math.min(nonceTtlMs, NONCE_PENDING_LEASE_MS);
+      if (!(await nonceStore.claim(nonceKey, claimTtlMs))) {
+        return reject('NONCE_REPLAYED', 'This payment nonce has already been used');
+      }
+      pendingNonce = nonceKey;
+
+      const settle = async (): Promise<SettlementOutcome> => {
+        // No facilitator or settler — burn the nonce, but don't settle on-chain
+        if (!facilitatorUrl && !settler) {
+          await nonceStore.commit(nonceKey, nonceTtlMs);
+          return { success: true };
+        }
+
+        const { response, retryable, reason, pending } = settler
+          ? await settleLocally(payload, settler)
+          : await settleWithFacilitator(payload, facilitatorUrl!);
+        if (!response.success) {
+          if (retryable) {
+            await nonceStore.release(nonceKey);
+          } else {
+            await nonceStore.commit(nonceKey, nonceTtlMs);
+          }
+          return { success: false, retryable, reason, pending };
+        }
+
+        await nonceStore.commit(nonceKey, nonceTtlMs);
+        return { success: true, response };
+      };
+
+      const paid: X402PaymentInfo = {
+        payment: payload,
+        verified: true,
+        signer,
+        verification,
+        accept,
+      };
+
+      if (settlementMode === 'after-handler') {
+        // Let the handler run first; settle only if it succeeds
+        const complete = async (statusCode: number): Promise<X402Completion> => {
+          try {
+            if (statusCode < 200 || statusCode >= 300) {
+              await nonceStore.release(nonceKey);
+              return { type: 'send', headers: {} };
+            }
+
+            const outcome = await settle();
+            if (!outcome.success) {
+              return { type: 'respond', response: settlementRejection(outcome) };
+            }
+            if (outcome.response) paid.settlementResult = outcome.response;
+            return { type: 'send', headers: settlementHeaders(outcome.response) };
+          } catch (error) {
+            await nonceStore.release(nonceKey).catch(() => undefined);
+            console.error('[x402] Deferred settlement error:', error);
+            return { type: 'respond', response: internalErrorResponse() };
+          }
+        };
+        pendingNonce = null;
+        return { type: 'paid', payment: paid, headers: {}, complete };
+      }
+
+      const outcome = await settle();
+      pendingNonce = null;
+      if (!outcome.success) {
+        return { type: 'respond', response: settlementRejection(outcome) };
+      }
+
+      // Attach settlement info to the payment and return it in a response header
+      if (outcome.response) paid.settlementResult = outcome.response;
+      return { type: 'paid', payment: paid, headers: settlementHeaders(outcome.response) };
+    } catch (error) {
+      if (pendingNonce) {
+        await nonceStore.release(pendingNonce).catch(() => undefined);
+      }
+      throw error;
+    }
+  };
+
+  return { handle };
+}
+
+function settlementHeaders(response?: PaymentResponse): Record<string, string> {
+  return response ? { [X402_HEADERS.PAYMENT_RESPONSE]: JSON.stringify(response) } : {};
+}
+
+// ============================================================================
+// Settlement
+// ============================================================================
+
+/**
+ * Facilitator error codes meaning the payload itself can never settle
+ * (or already failed on-chain). Any other failure leaves the payload usable.
+ * SETTLEMENT_PENDING was broadcast and may still mine, so it is final too.
+ */
+const FINAL_SETTLEMENT_ERRORS = new Set([
+  'INVALID_PAYLOAD',
+  'INVALID_FEE',
+  'DEADLINE_EXPIRED',
+  'TX_REVERTED',
+  'SETTLEMENT_PENDING',
+]);
+
+/** Broadcast transaction of a settlement whose receipt was not seen */
+interface PendingSettlement {
+  txHash: string;
+  settlementId?: string;
+}
+
+/** Result of settling (or, without a facilitator, just burning) a verified payment */
+type SettlementOutcome =
+  | { success: true; response?: PaymentResponse }
+  | { success: false; retryable: boolean; reason?: string; pending?: PendingSettlement };
+
+interface SettlementAttempt {
+  response: PaymentResponse;
+  /** Whether the same signed payload may be submitted again */
+  retryable: boolean;
+  /** Facilitator error code, when it returned one */
+  reason?: string;
+  /** Set for SETTLEMENT_PENDING: the transaction to look up later */
+  pending?: PendingSettlement;
+}
+
+/** The 402 for a failed settlement; a pending one names its transaction instead */
+function settlementRejection(outcome: Extract<SettlementOutcome, { success: false }>): X402HttpResponse {
+  if (outcome.pending) {
+    return rejection('SETTLEMENT_PENDING', 'Settlement was submitted but not confirmed', {
+      retryable: false,
+      ...outcome.pending,
+    });
+  }
+  return rejection('SETTLEMENT_FAILED', 'On-chain settlement failed', {
+    retryable: outcome.retryable,
+    reason: outcome.reason,
+  });
+}
+
+/** Read the transaction of a SETTLEMENT_PENDING failure from the error's details */
+function pendingSettlement(reason: unknown, details: unknown): PendingSettlement | undefined {
+  if (reason !== 'SETTLEMENT_PENDING' || typeof details !== 'object' || details === null) return undefined;
+  const { txHash, settlementId } = details as Record<string, unknown>;
+  if (typeof txHash !== 'string') return undefined;
+  return typeof settlementId === 'string' ? { txHash, settlementId } : { txHash };
+}
+
+async function settleWithFacilitator(
+  payload: PaymentPayload,
+  facilitatorUrl: string
+): Promise<SettlementAttempt> {
+  let reason: unknown;
+  let errorBody: unknown;
+  try {
+    const response = await fetch(`${facilitatorUrl}/x402/settle`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(30000),
+    });
+    const body = await response.json().catch(() => undefined) as
+      | (PaymentResponse & { error?: unknown })
+      | undefined;
+
+    if (response.ok && body) {
+      return { response: body, retryable: !body.success };
+    }
+    reason = body?.error;
+    errorBody = body;
+  } catch {
+    // Timeouts and connection errors leave `reason` unset
+  }
+
+  // Timeouts, connection errors, 429 and 5xx: nothing was confirmed on-chain.
+  // A settlement that did land cannot be replayed: the contract consumes the nonce.
+  return {
+    response: { success: false, network: payload.network },
+    retryable: typeof reason !== 'string' || !FINAL_SETTLEMENT_ERRORS.has(reason),
+    reason: typeof reason === 'string' ? reason : undefined,
+    pending: pendingSettlement(reason, errorBody),
+  };
+}
+
+function isPublicClient(
+  client: PublicClient | Record<string, PublicClient>
+): client is PublicClient {
+  return typeof (client as PublicClient).readContract === 'function';
+}
+
+function isLocalSettlementClients(
+  settlement: PaymentSettler | LocalSettlementClients
+): settlement is LocalSettlementClients {
+  return 'walletClients' in settlement && !('settleX402' in settlement);
+}
+
+/**
+ * Settle in-process. Failures are classified like facilitator responses:
+ * a `SettlementError` code in FINAL_SETTLEMENT_ERRORS burns the payload.
+ * Settlement still running after LOCAL_SETTLEMENT_TIMEOUT_MS may yet land
+ * on-chain, so it burns the payload too (reason SETTLEMENT_TIMEOUT).
+ */
+async function settleLocally(
+  payload: PaymentPayload,
+  settler: PaymentSettler
+): Promise<SettlementAttempt> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), LOCAL_SETTLEMENT_TIMEOUT_MS);
+  });
+
+  try {
+    const settling = settler.settleX402(payload);
+    const response = await Promise.race([settling, timeout]);
+    if (response === 'timeout') {
+      console.error(`[x402] Local settlement still running after ${LOCAL_SETTLEMENT_TIMEOUT_MS}ms`);
+      settling.catch(error => console.error('[x402] Local settlement error:', error));
+      return {
+        response: { success: false, network: payload.network },
+        retryable: false,
+        reason: 'SETTLEMENT_TIMEOUT',
+      };
+    }
+    return { response, retryable: !response.success };
+  } catch (error) {
+    const { code: reason, details } = error as { code?: unknown; details?: unknown };
+    if (typeof reason !== 'string') {
+      console.error('[x402] Local settlement error:', error);
+    }
+    return {
+      response: { success: false, network: payload.network },
+      retryable: typeof reason !== 'string' || !FINAL_SETTLEMENT_ERRORS.has(reason),
+      reason: typeof reason === 'string' ? reason : undefined,
+      pending: pendingSettlement(reason, details),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// Payment Requirements
+// ============================================================================
+
+/**
+ * Build a payment requirement with accepts array
+ */
+export function buildPaymentRequirement(params: {
+  offers: ResolvedOffer[];
+  treasuryAddress: `0x${string}`;
+  feeBps: number;
+  deadlineDuration: number;
+  description?: string;
+  resource?: string;
+}): PaymentRequirement {
+  const maxDeadline = calculateDeadline(params.deadlineDuration);
+
+  // One entry per (offer, scheme) the offer's token supports
+  const accepts = params.offers.flatMap(offer =>
+    offerSchemes(offer.networkId, offer.tokenAddress, offer.acceptedSchemes).map(scheme => ({
+      scheme,
+      network: offer.networkId,
+      token: offer.tokenAddress as string,
+      amount: offer.amount,
+      recipient: offer.recipientAddress as string,
+      settlement: offer.settlementAddress as string,
+      treasury: params.treasuryAddress as string,
+      feeBps: params.feeBps,
+      maxDeadline,
+    }))
+  );
+
+  return {
+    x402Version: X402_VERSION,
+    accepts,
+    description: params.description,
+    resource: params.resource,
+  };
+}
@@ -0,0 +1,173 @@
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+
+import type { NonceStore } from '../types/index.js';
+
+// ============================================================================
+// File-Backed Nonce Store
+// ============================================================================
+
+/** Leftover temp and takeover files older than this are swept */
+const SCRATCH_TTL_MS = 60_000;
+
+/**
+ * Nonce store backed by a directory, one file per claimed nonce.
+ *
+ * Claims survive restarts and are shared by every process on the host (or on a
+ * shared volume). Each file holds the claim's expiry and a random owner id.
+ * Files are written in full under a temporary name and hard-linked into place,
+ * which fails if the nonce is already claimed, so a claim is never visible
+ * half-written and only one claim of a nonce can succeed.
+ *
+ * An expired claim is taken over by first creating a takeover marker named
+ * after its exact contents: only one caller can create the marker for a given
+ * claim, so only one caller replaces it.
+ *
+ * It uses `node:fs`, so it is served from its own Node.js-only entry rather
+ * than the main server entry.
+ *
+ * @example
+ * ```typescript
+ * import { FileNonceStore } from '@wazabiai/x402/server/file-nonce-store';
+ *
+ * app.use('/api/paid', x402Middleware({
+ *   ...config,
+ *   nonceStore: new FileNonceStore('/var/lib/x402/nonces'),
+ * }));
+ * ```
+ */
+export class FileNonceStore implements NonceStore {
+  private readonly directory: string;
+  private ready: Promise<void> | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async claim(nonce: string, ttlMs: number): Promise<boolean> {
+    await this.ensureDirectory();
+    this.lazyStartSweep();
+
+    const file = this.pathFor(nonce);
+    const contents = `${Date.now() + ttlMs}:${randomUUID()}`;
+
+    if (await this.linkNew(file, contents)) return true;
+
+    // Already claimed: only an expired claim may be taken over
+    const existing = await this.readClaim(file);
+    if (existing === null) return this.linkNew(file, contents);
+    if (existing.expiry >= Date.now()) return false;
+    if (!await this.createExclusive(this.takeoverPath(file, existing.raw), '')) return false;
+
+    // This caller alone holds the takeover of that exact claim
+    await this.writeAtomic(file, contents);
+    return (await this.readClaim(file))?.raw === contents;
+  }
+
+  async commit(nonce: string, ttlMs: number): Promise<void> {
+    await this.ensureDirectory();
+    await this.writeAtomic(this.pathFor(nonce), `${Date.now() + ttlMs}:${randomUUID()}`);
+  }
+
+  async release(nonce: string): Promise<void> {
+    await fs.rm(this.pathFor(nonce), { force: true });
+  }
+
+  /** Remove expired claims and leftover scratch files. Runs every minute once the store is in use. */
+  async sweep(): Promise<void> {
+    await this.ensureDirectory();
+    const now = Date.now();
+    for (const name of await fs.readdir(this.directory)) {
+      const file = join(this.directory, name);
+      if (name.includes('.')) {
+        const stat = await fs.stat(file).catch(() => null);
+        if (stat && stat.mtimeMs < now - SCRATCH_TTL_MS) await fs.rm(file, { force: true });
+        continue;
+      }
+      // Removing an expired claim takes it over, so it cannot race a claimer's takeover
+      const claim = await this.readClaim(file);
+      if (claim && claim.expiry < now &&
+          await this.createExclusive(this.takeoverPath(file, claim.raw), '')) {
+        await fs.rm(file, { force: true });
+      }
+    }
+  }
+
+  private pathFor(nonce: string): string {
+    return join(this.directory, createHash('sha256').update(nonce).digest('hex'));
+  }
+
+  private takeoverPath(file: string, claim: string): string {
+    return `${file}.${createHash('sha256').update(claim).digest('hex').slice(0, 16)}.takeover`;
+  }
+
+  private tempPath(file: string): string {
+    return `${file}.${randomUUID()}.tmp`;
+  }
+
+  /** Create `file` with `contents` unless it exists, never exposing a partial write */
+  private async linkNew(file: string, contents: string): Promise<boolean> {
+    const temp = this.tempPath(file);
+    await fs.writeFile(temp, contents);
+    try {
+      await fs.link(temp, file);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    } finally {
+      await fs.rm(temp, { force: true });
+    }
+  }
+
+  /** Replace `file` with `contents` in one step */
+  private async writeAtomic(file: string, contents: string): Promise<void> {
+    const temp = this.tempPath(file);
+    await fs.writeFile(temp, contents);
+    await fs.rename(temp, file);
+  }
+
+  private async createExclusive(file: string, contents: string): Promise<boolean> {
+    try {
+      await fs.writeFile(file, contents, { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Read a claim file. An unreadable or malformed file counts as a live claim
+   * (`expiry` Infinity): it may be another writer's, and must not be taken over.
+   * Resolves null only when there is no file.
+   */
+  private async readClaim(file: string): Promise<{ expiry: number; raw: string } | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      return { expiry: Infinity, raw: '' };
+    }
+    const expiry = parseInt(raw, 10);
+    return { expiry: Number.isNaN(expiry) ? Infinity : expiry, raw };
+  }
+
+  private ensureDirectory(): Promise<void> {
+    this.ready ??= fs.mkdir(this.directory, { recursive: true }).then(() => undefined);
+    return this.ready;
+  }
+
+  private lazyStartSweep() {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(err => console.error('[x402] Nonce sweep failed:', err));
+    }, 60_000);
+    if (this.sweepTimer && typeof this.sweepTimer === 'object' && 'unref' in this.sweepTimer) {
+      this.sweepTimer.unref();
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import type { ServerResponse } from 'node:http';
+
+// ============================================================================
+// Response Holding
+// ============================================================================
+
+type ResponseMethod = (...args: unknown[]) => unknown;
+
+/**
+ * Hold back everything a handler writes to `res` (status line, headers, body)
+ * until `onComplete` has run, so headers can still be added once the handler's
+ * status code is known.
+ *
+ * `onComplete` receives the handler's status code and resolves true to send the
+ * held response, or false if it responded itself (the held body is discarded).
+ * Before responding itself it should call `discard`, which removes the headers
+ * the handler set so they do not leak into its own response.
+ * The whole body is buffered, so streamed responses are delivered in one piece.
+ */
+export function holdResponse(
+  res: ServerResponse,
+  onComplete: (statusCode: number, discard: () => void) => Promise<boolean>
+): void {
+  const target = res as unknown as Record<'write' | 'end' | 'writeHead', ResponseMethod>;
+  const originalWrite = target.write;
+  const originalEnd = target.end;
+  const originalWriteHead = target.writeHead;
+
+  const writes: unknown[][] = [];
+  let head: unknown[] | null = null;
+
+  const restore = () => {
+    target.write = originalWrite;
+    target.end = originalEnd;
+    target.writeHead = originalWriteHead;
+  };
+
+  target.writeHead = (...args: unknown[]) => {
+    head = args;
+    if (typeof args[0] === 'number') res.statusCode = args[0];
+    return res;
+  };
+
+  target.write = (...args: unknown[]) => {
+    writes.push(args);
+    return true;
+  };
+
+  const discard = () => {
+    head = null;
+    writes.length = 0;
+    for (const name of res.getHeaderNames()) res.removeHeader(name);
+  };
+
+  target.end = (...args: unknown[]) => {
+    // Put the real methods back first so `onComplete` can respond on its own
+    restore();
+
+    onComplete(res.statusCode, discard)
+      .then(send => {
+        if (!send) return;
+        if (head) originalWriteHead.apply(res, head);
+        for (const chunk of writes) originalWrite.apply(res, chunk);
+        originalEnd.apply(res, args);
+      })
+      .catch(error => {
+        console.error('[x402] Failed to release held response:', error);
+        if (!res.headersSent) res.statusCode = 500;
+        originalEnd.call(res);
+      });
+
+    return res;
+  };
+}
@@ -1,376 +1,133 @@
-import type { Request, Response, NextFunction, RequestHandler } from 'express';
-import axios from 'axios';
-import {
-  type Address,
-} from 'viem';
+import type { Request } from 'express';
 
 import {
   type PaymentRequirement,
   type PaymentPayload,
-  type PaymentResponse,
   type X402MiddlewareConfig,
-  type PaymentScheme,
   PaymentPayloadSchema,
   X402_HEADERS,
-  X402_VERSION,
   DEFAULT_FEE_BPS,
-  calculateDeadline,
-  extractChainId,
 } from '../types/index.js';
 import {
   BASE_CAIP_ID,
   BASE_USDC,
 } from '../chains/base.js';
+import { buildPaymentRequirement } from './core.js';
+import { stablecoinAmount, usdToTokenAmount } from './pricing.js';
 
 // ============================================================================
-// Nonce Registry (replay protection)
+// Express Middleware
 // ============================================================================
 
-class NonceRegistry {
-  private readonly used = new Map<string, number>();
-  private readonly ttlMs: number;
-  private sweepTimer: ReturnType<typeof setInterval> | null = null;
-
-  constructor(ttlMs = 10 * 60 * 1000) {
-    this.ttlMs = ttlMs;
-  }
-
-  claim(nonce: string): boolean {
-    this.lazyStartSweep();
-    if (this.used.has(nonce)) return false;
-    this.used.set(nonce, Date.now() + this.ttlMs);
-    return true;
-  }
-
-  private lazyStartSweep() {
-    if (this.sweepTimer) return;
-    this.sweepTimer = setInterval(() => {
-      const now = Date.now();
-      for (const [nonce, expiry] of this.used) {
-        if (expiry < now) this.used.delete(nonce);
-      }
-    }, 60_000);
-    if (this.sweepTimer && typeof this.sweepTimer === 'object' && 'unref' in this.sweepTimer) {
-      this.sweepTimer.unref();
-    }
-  }
-}
-
-const nonceRegistry = new NonceRegistry();
+export { x402Middleware, type X402Request } from './adapters/express.js';
 
 // ============================================================================
-// Types
+// Web-standard Handlers
 // ============================================================================
 
-export interface X402Request extends Request {
-  x402?: {
-    payment: PaymentPayload;
-    verified: boolean;
-    signer: Address;
-    settlementResult?: PaymentResponse;
-  };
-}
+export {
+  withX402,
+  type X402FetchHandler,
+  type X402FetchContext,
+} from './adapters/fetch.js';
 
 // ============================================================================
-// Middleware Factory
+// Framework-agnostic Core
 // ============================================================================
 
-/**
- * Create x402 payment middleware for Express.
- *
- * Returns 402 with proper `accepts` array when no payment is present.
- * Validates and optionally forwards payment to a facilitator for on-chain settlement.
- *
- * @example
- * ```typescript
- * app.use('/api/paid', x402Middleware({
- *   recipientAddress: '0x...',
- *   amount: '1000000',
- *   tokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
- *   settlementAddress: '0x...',
- *   treasuryAddress: '0x1b4F633B1FC5FC26Fb8b722b2373B3d4D71aCaeB',
- *   facilitatorUrl: 'https://facilitator.wazabi.ai',
- * }));
- * ```
- */
-export function x402Middleware(config: X402MiddlewareConfig): RequestHandler {
-  const {
-    recipientAddress,
-    amount,
-    tokenAddress = BASE_USDC.address as `0x${string}`,
-    settlementAddress,
-    treasuryAddress,
-    feeBps = DEFAULT_FEE_BPS,
-    facilitatorUrl,
-    description,
-    networkId = BASE_CAIP_ID,
-    deadlineDuration = 300,
-    acceptedSchemes = ['permit2'],
-    excludeRoutes = [],
-    onError,
-  } = config;
-
-  // Validate chainId at initialization
-  extractChainId(networkId);
-
-  return async (req: X402Request, res: Response, next: NextFunction): Promise<void> => {
-    try {
-      // Check if route is excluded
-      const path = req.path;
-      if (excludeRoutes.some(route => path.startsWith(route))) {
-        next();
-        return;
-      }
-
-      // Check for x-payment header
-      const paymentHeader = req.headers[X402_HEADERS.PAYMENT];
-
-      // If no payment, return 402 with payment requirement
-      if (!paymentHeader) {
-        const requirement = buildPaymentRequirement({
-          recipientAddress,
-          amount,
-          tokenAddress,
-          settlementAddress,
-          treasuryAddress,
-          feeBps,
-          networkId,
-          deadlineDuration,
-          acceptedSchemes,
-          description,
-          resource: req.originalUrl,
-        });
-
-        res.status(402);
-        res.setHeader(X402_HEADERS.PAYMENT_REQUIRED, JSON.stringify(requirement));
-        res.json({
-          error: 'Payment Required',
-          requirement,
-        });
-        return;
-      }
-
-      // Parse the payment payload from x-payment header
-      let payload: PaymentPayload;
-      try {
-        const parsed = JSON.parse(
-          typeof paymentHeader === 'string' ? paymentHeader : String(paymentHeader)
-        );
-        const result = PaymentPayloadSchema.safeParse(parsed);
-        if (!result.success) {
-          throw new Error(`Invalid payload: ${result.error.message}`);
-        }
-        payload = result.data;
-      } catch (error) {
-        res.status(400).json({
-          error: 'Invalid Payment',
-          message: error instanceof Error ? error.message : 'Failed to parse payment payload',
-        });
-        return;
-      }
-
-      // Basic validation: network must match
-      if (payload.network !== networkId) {
-        res.status(400).json({
-          error: 'Network Mismatch',
-          message: `Expected ${networkId}, got ${payload.network}`,
-        });
-        return;
-      }
-
-      // Validate deadline hasn't passed
-      const now = Math.floor(Date.now() / 1000);
-      if (payload.scheme === 'permit2') {
-        if (payload.permit.deadline < now) {
-          res.status(400).json({
-            error: 'Payment Expired',
-            message: `Payment deadline has passed`,
-          });
-          return;
-        }
-      } else if (payload.scheme === 'erc3009') {
-        if (payload.authorization.validBefore < now) {
-          res.status(400).json({
-            error: 'Payment Expired',
-            message: `Authorization validity has passed`,
-          });
-          return;
-        }
-      }
-
-      // Validate amount covers the required amount
-      if (payload.scheme === 'permit2') {
-        const totalPermitted = BigInt(payload.permit.permitted[0]!.amount) +
-          BigInt(payload.permit.permitted[1]!.amount);
-        if (totalPermitted < BigInt(amount)) {
-          res.status(402).json({
-            error: 'Insufficient Payment',
-            message: `Expected at least ${amount}, got ${totalPermitted.toString()}`,
-          });
-          return;
-        }
-      } else if (payload.scheme === 'erc3009') {
-        if (BigInt(payload.authorization.value) < BigInt(amount)) {
-          res.status(402).json({
-            error: 'Insufficient Payment',
-            message: `Expected at least ${amount}, got ${payload.authorization.value}`,
-          });
-          return;
-        }
-      }
-
-      // Replay protection: use a unique nonce from the payload
-      const payloadNonce = payload.scheme === 'permit2'
-        ? payload.permit.nonce
-        : payload.authorization.nonce;
-      if (!nonceRegistry.claim(payloadNonce)) {
-        res.status(402).json({
-          error: 'Replay Detected',
-          message: 'This payment nonce has already been used',
-        });
-        return;
-      }
-
-      // Forward to facilitator for on-chain settlement
-      if (facilitatorUrl) {
-        const settlementResult = await settleWithFacilitator(payload, facilitatorUrl);
-
-        if (!settlementResult.success) {
-          res.status(402).json({
-            error: 'Settlement Failed',
-            message: 'On-chain settlement failed',
-          });
-          return;
-        }
-
-        // Attach to request and return settlement info in response header
-        req.x402 = {
-          payment: payload,
-          verified: true,
-          signer: payload.payer as Address,
-          settlementResult,
-        };
-
-        res.setHeader(
-          X402_HEADERS.PAYMENT_RESPONSE,
-          JSON.stringify(settlementResult)
-        );
-      } else {
-        // No facilitator — attach payment info but don't settle on-chain
-        req.x402 = {
-          payment: payload,
-          verified: true,
-          signer: payload.payer as Address,
-        };
-      }
-
-      next();
-    } catch (error) {
-      if (onError && error instanceof Error) {
-        onError(error, req, res);
-        return;
-      }
-
-      console.error('[x402] Middleware error:', error);
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'Payment processing failed',
-      });
-    }
-  };
-}
+export {
+  createX402Paywall,
+  type X402Paywall,
+  type X402HttpRequest,
+  type X402HttpResponse,
+  type X402Decision,
+  type X402Completion,
+  type X402PaymentInfo,
+} from './core.js';
 
 // ============================================================================
-// Facilitator Settlement
+// Utility Functions
 // ============================================================================
 
-async function settleWithFacilitator(
-  payload: PaymentPayload,
-  facilitatorUrl: string
-): Promise<PaymentResponse> {
-  try {
-    const response = await axios.post<PaymentResponse>(
-      `${facilitatorUrl}/x402/settle`,
-      payload,
-      {
-        timeout: 30000,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    );
+/** Options for {@link createPaymentRequirement} and {@link createPaymentRequirementAsync} */
+export type PaymentRequirementOptions = Pick<X402MiddlewareConfig,
+  'settlementAddress' | 'treasuryAddress' | 'feeBps' | 'description' |
+  'networkId' | 'acceptedSchemes'
+> & {
+  recipientAddress: `0x${string}`;
+  amount?: string;
+  price?: string;
+  tokenAddress?: `0x${string}`;
+  resource?: string;
+  deadlineDuration?: number;
+};
 
-    return response.data;
-  } catch (error) {
-    return {
-      success: false,
-      network: payload.network,
-    };
-  }
+/**
+ * Create a payment requirement object for manual 402 responses.
+ *
+ * Takes either `amount` in the token's smallest unit or a USD `price` such as
+ * '$0.01'. A `price` only converts for stablecoins listed in SUPPORTED_NETWORKS;
+ * use {@link createPaymentRequirementAsync} with a `priceSource` for other tokens.
+ */
+export function createPaymentRequirement(config: PaymentRequirementOptions): PaymentRequirement {
+  const { networkId, tokenAddress } = requirementToken(config);
+  const charge = requirementCharge(config);
+  return requirementFor(config, 'price' in charge
+    ? stablecoinAmount(charge.price, networkId, tokenAddress)
+    : charge.amount
+  );
 }
 
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
 /**
- * Build a payment requirement with accepts array
+ * Create a payment requirement object for manual 402 responses, converting a
+ * USD `price` for any listed token: stablecoins 1:1, others with `priceSource`.
  */
-function buildPaymentRequirement(params: {
-  recipientAddress: `0x${string}`;
-  amount: string;
-  tokenAddress: `0x${string}`;
-  settlementAddress: `0x${string}`;
-  treasuryAddress: `0x${string}`;
-  feeBps: number;
-  networkId: string;
-  deadlineDuration: number;
-  acceptedSchemes: PaymentScheme[];
-  description?: string;
-  resource?: string;
-}): PaymentRequirement {
-  const maxDeadline = calculateDeadline(params.deadlineDuration);
-
-  const accepts = params.acceptedSchemes.map(scheme => ({
-    scheme,
-    network: params.networkId,
-    token: params.tokenAddress as string,
-    amount: params.amount,
-    recipient: params.recipientAddress as string,
-    settlement: params.settlementAddress as string,
-    treasury: params.treasuryAddress as string,
-    feeBps: params.feeBps,
-    maxDeadline,
-  }));
+export async function createPaymentRequirementAsync(
+  config: PaymentRequirementOptions & Pick<X402MiddlewareConfig, 'priceSource'>
+): Promise<PaymentRequirement> {
+  const { networkId, tokenAddress } = requirementToken(config);
+  const charge = requirementCharge(config);
+  return requirementFor(config, 'price' in charge
+    ? await usdToTokenAmount(charge.price, networkId, tokenAddress, config.priceSource)
+    : charge.amount
+  );
+}
 
+function requirementToken(config: PaymentRequirementOptions) {
   return {
-    x402Version: X402_VERSION,
-    accepts,
-    description: params.description,
-    resource: params.resource,
+    networkId: config.networkId ?? BASE_CAIP_ID,
+    tokenAddress: config.tokenAddress ?? BASE_USDC.address as `0x${string}`,
   };
 }
 
-/**
- * Create a payment requirement object for manual 402 responses
- */
-export function createPaymentRequirement(
-  config: Pick<X402MiddlewareConfig,
-    'recipientAddress' | 'amount' | 'tokenAddress' | 'settlementAddress' |
-    'treasuryAddress' | 'feeBps' | 'description' | 'networkId' | 'acceptedSchemes'
-  > & {
-    resource?: string;
-    deadlineDuration?: number;
+/** The requirement's `amount` or USD `price`; exactly one must be given */
+function requirementCharge(config: PaymentRequirementOptions): { amount: string } | { price: string } {
+  if (config.price !== undefined) {
+    if (config.amount !== undefined) {
+      throw new Error('createPaymentRequirement takes `amount` or `price`, not both');
+    }
+    return { price: config.price };
+  }
+  if (config.amount === undefined) {
+    throw new Error('createPaymentRequirement requires `amount` or `price`');
   }
-): PaymentRequirement {
+  return { amount: config.amount };
+}
+
+function requirementFor(config: PaymentRequirementOptions, amount: string): PaymentRequirement {
+  const { networkId, tokenAddress } = requirementToken(config);
   return buildPaymentRequirement({
-    recipientAddress: config.recipientAddress,
-    amount: config.amount,
-    tokenAddress: config.tokenAddress ?? BASE_USDC.address as `0x${string}`,
-    settlementAddress: config.settlementAddress,
+    offers: [{
+      networkId,
+      tokenAddress,
+      settlementAddress: config.settlementAddress,
+      recipientAddress: config.recipientAddress,
+      amount,
+      acceptedSchemes: config.acceptedSchemes ?? ['permit2'],
+    }],
     treasuryAddress: config.treasuryAddress,
     feeBps: config.feeBps ?? DEFAULT_FEE_BPS,
-    networkId: config.networkId ?? BASE_CAIP_ID,
     deadlineDuration: config.deadlineDuration ?? 300,
-    acceptedSchemes: config.acceptedSchemes ?? ['permit2'],
     description: config.description,
     resource: config.resource,
   });
@@ -399,15 +156,42 @@ export function parsePaymentFromRequest(req: Request): PaymentPayload | null {
 // Re-exports for convenience
 // ============================================================================
 
+export {
+  recoverPaymentSigner,
+  assertPaymentSigner,
+  verifyPaymentSignature,
+  findAcceptEntry,
+  findAcceptCandidates,
+  assertPaymentMatchesAccept,
+  verifyPayment,
+  checkValidityWindow,
+  type ValidityWindowFailure,
+} from './verify.js';
+
+export { InMemoryNonceStore, scopeNonce } from './nonce-store.js';
+export { stablecoinAmount, usdToTokenAmount } from './pricing.js';
+
 export {
   type X402MiddlewareConfig,
+  type PerRequest,
+  type RouteMatch,
+  type X402Route,
+  type X402Offer,
+  type UsdPriceSource,
+  type PaymentSettler,
+  type LocalSettlementClients,
+  type NonceStore,
   type PaymentRequirement,
   type PaymentPayload,
   type PaymentResponse,
   type PaymentVerificationResult,
+  type PaymentAcceptEntry,
+  type PaymentMismatchCode,
   X402_HEADERS,
   PaymentVerificationError,
   PaymentExpiredError,
+  SignerMismatchError,
+  PaymentMismatchError,
 } from '../types/index.js';
 
 export {
@@ -0,0 +1,25 @@
+import type { LocalSettlementClients, PaymentSettler } from '../types/index.js';
+import { SettlementService } from '../facilitator/services/settlement.js';
+import { InMemoryStore } from '../facilitator/db/schema.js';
+
+// ============================================================================
+// Local Settlement
+// ============================================================================
+
+/**
+ * Settler for `settlement: { publicClients, walletClients }`: a
+ * `SettlementService` over an in-memory store. Loaded on first use by the
+ * paywall, so configs that settle elsewhere never pull in the facilitator.
+ */
+export function createLocalSettler(
+  clients: LocalSettlementClients,
+  treasuryAddress: `0x${string}`,
+  settlementAddresses: Record<string, `0x${string}`>
+): PaymentSettler {
+  return new SettlementService(new InMemoryStore(), {
+    treasuryAddress,
+    settlementAddresses,
+    publicClients: clients.publicClients,
+    walletClients: clients.walletClients,
+  });
+}
@@ -0,0 +1,63 @@
+import type { NonceStore, PaymentPayload } from '../types/index.js';
+
+// ============================================================================
+// Nonce Scoping
+// ============================================================================
+
+/**
+ * Build the key a payload's nonce is claimed under.
+ *
+ * Permit2 and ERC-3009 nonces are only unique per signer on a given chain, so
+ * the key is scoped by network and payer: the same nonce from another payer or
+ * another chain is a different payment.
+ */
+export function scopeNonce(payload: PaymentPayload): string {
+  const nonce = payload.scheme === 'permit2'
+    ? payload.permit.nonce
+    : payload.authorization.nonce;
+  return `${payload.network}:${payload.payer.toLowerCase()}:${nonce}`;
+}
+
+// ============================================================================
+// In-Memory Nonce Store
+// ============================================================================
+
+/**
+ * Process-local nonce store. Expired claims are swept once a minute.
+ *
+ * Replay protection only holds within one process and is lost on restart;
+ * use a shared store such as {@link FileNonceStore} for multiple replicas.
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly used = new Map<string, number>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  async claim(nonce: string, ttlMs: number): Promise<boolean> {
+    this.lazyStartSweep();
+    const expiry = this.used.get(nonce);
+    if (expiry !== undefined && expiry >= Date.now()) return false;
+    this.used.set(nonce, Date.now() + ttlMs);
+    return true;
+  }
+
+  async commit(nonce: string, ttlMs: number): Promise<void> {
+    this.used.set(nonce, Date.now() + ttlMs);
+  }
+
+  async release(nonce: string): Promise<void> {
+    this.used.delete(nonce);
+  }
+
+  private lazyStartSweep() {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [nonce, expiry] of this.used) {
+        if (expiry < now) this.used.delete(nonce);
+      }
+    }, 60_000);
+    if (this.sweepTimer && typeof this.sweepTimer === 'object' && 'unref' in this.sweepTimer) {
+      this.sweepTimer.unref();
+    }
+  }
+}
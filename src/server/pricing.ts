@@ -0,0 +1,240 @@
+import {
+  type PaymentScheme,
+  type TokenConfig,
+  type UsdPriceSource,
+  scaleAmount,
+} from '../types/index.js';
+import { getTokenByAddress } from '../chains/index.js';
+
+// ============================================================================
+// Offers
+// ============================================================================
+
+/** A (network, token) offer with every per-request value resolved */
+export interface ResolvedOffer {
+  networkId: string;
+  tokenAddress: `0x${string}`;
+  settlementAddress: `0x${string}`;
+  recipientAddress: `0x${string}`;
+  amount: string;
+  acceptedSchemes: PaymentScheme[];
+}
+
+/**
+ * Look up a token in SUPPORTED_NETWORKS.
+ *
+ * @throws Error when the token is not listed, since its amount cannot be derived
+ */
+function getListedToken(networkId: string, tokenAddress: string): TokenConfig {
+  const token = getTokenByAddress(networkId, tokenAddress);
+  if (!token) {
+    throw new Error(
+      `Token ${tokenAddress} on ${networkId} is not in SUPPORTED_NETWORKS, so its decimals are unknown; set an explicit amount`
+    );
+  }
+  return token;
+}
+
+/**
+ * Look up a token's decimals in SUPPORTED_NETWORKS.
+ *
+ * @throws Error when the token is not listed
+ */
+export function getTokenDecimals(networkId: string, tokenAddress: string): number {
+  return getListedToken(networkId, tokenAddress).decimals;
+}
+
+/**
+ * Convert the primary offer's amount into another token's smallest unit.
+ */
+export function scaleOfferAmount(
+  primary: Pick<ResolvedOffer, 'networkId' | 'tokenAddress' | 'amount'>,
+  networkId: string,
+  tokenAddress: string
+): string {
+  return scaleAmount(
+    BigInt(primary.amount),
+    getTokenDecimals(primary.networkId, primary.tokenAddress),
+    getTokenDecimals(networkId, tokenAddress)
+  ).toString();
+}
+
+/**
+ * Schemes an offer can actually be paid with: ERC-3009 is dropped for listed
+ * tokens that do not implement `transferWithAuthorization`.
+ */
+export function offerSchemes(
+  networkId: string,
+  tokenAddress: string,
+  schemes: PaymentScheme[]
+): PaymentScheme[] {
+  const token = getTokenByAddress(networkId, tokenAddress);
+  if (!token) return schemes;
+  return schemes.filter(scheme => scheme !== 'erc3009' || token.supportsERC3009 === true);
+}
+
+// ============================================================================
+// USD Prices
+// ============================================================================
+
+/** A non-negative decimal, `value / 10^scale` */
+interface Decimal {
+  value: bigint;
+  scale: number;
+}
+
+/**
+ * Plain decimal digits of a number, with exponent notation (`1e+21`,
+ * `1.5e-7`) expanded. Non-finite numbers come back as-is and fail to parse.
+ */
+function formatNumber(n: number): string {
+  const [mantissa, exponent] = String(n).split('e');
+  if (exponent === undefined) return mantissa!;
+  const [integer, fraction = ''] = mantissa!.split('.');
+  const digits = integer! + fraction;
+  const point = integer!.length + Number(exponent);
+  if (point <= 0) return `0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return digits + '0'.repeat(point - digits.length);
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+function parseDecimal(input: string): Decimal | null {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(input.trim());
+  if (!match) return null;
+  const fraction = match[2] ?? '';
+  return { value: BigInt(match[1]! + fraction), scale: fraction.length };
+}
+
+/**
+ * Parse a USD price such as '$0.01' or '0.01'.
+ *
+ * @throws Error when the price is not a plain non-negative decimal
+ */
+export function parseUsdPrice(price: string): Decimal {
+  const parsed = parseDecimal(price.trim().replace(/^\$/, ''));
+  if (!parsed) {
+    throw new Error(`Invalid USD price "${price}"; expected e.g. '$0.01'`);
+  }
+  return parsed;
+}
+
+/**
+ * Assert that a USD price can be converted into a token: it must be listed in
+ * SUPPORTED_NETWORKS, and be a stablecoin unless a price source is given.
+ */
+export function assertUsdPriceable(
+  networkId: string,
+  tokenAddress: string,
+  priceSource?: UsdPriceSource
+): TokenConfig {
+  const token = getListedToken(networkId, tokenAddress);
+  if (!token.stablecoin && !priceSource) {
+    throw new Error(
+      `${token.symbol} on ${networkId} is not a stablecoin; pass a priceSource to price it in USD`
+    );
+  }
+  return token;
+}
+
+/** `usd / tokenUsd` whole tokens in smallest units, rounded up */
+function toTokenUnits(usd: Decimal, tokenUsd: Decimal, decimals: number): string {
+  if (tokenUsd.value === BigInt(0)) {
+    throw new Error('Token USD price must be greater than zero');
+  }
+  const numerator = usd.value * BigInt(10) ** BigInt(tokenUsd.scale + decimals);
+  const denominator = tokenUsd.value * BigInt(10) ** BigInt(usd.scale);
+  return ((numerator + denominator - BigInt(1)) / denominator).toString();
+}
+
+/**
+ * Convert a USD price into a stablecoin's smallest unit (1 token = $1), rounding up.
+ *
+ * @example
+ * ```typescript
+ * stablecoinAmount('$0.01', 'eip155:8453', BASE_USDC.address); // '10000'
+ * stablecoinAmount('$0.01', 'eip155:56', BSC_USDC.address);    // '10000000000000000'
+ * ```
+ */
+export function stablecoinAmount(price: string, networkId: string, tokenAddress: string): string {
+  const token = assertUsdPriceable(networkId, tokenAddress);
+  return toTokenUnits(parseUsdPrice(price), { value: BigInt(1), scale: 0 }, token.decimals);
+}
+
+/**
+ * Convert a USD price into a token's smallest unit, rounding up. Stablecoins
+ * convert 1:1; other tokens are valued with `priceSource`.
+ */
+export async function usdToTokenAmount(
+  price: string,
+  networkId: string,
+  tokenAddress: string,
+  priceSource?: UsdPriceSource
+): Promise<string> {
+  const token = assertUsdPriceable(networkId, tokenAddress, priceSource);
+  if (token.stablecoin) return stablecoinAmount(price, networkId, tokenAddress);
+
+  const quote = await priceSource!(token, networkId);
+  const tokenUsd = parseDecimal(typeof quote === 'number' ? formatNumber(quote) : quote);
+  if (!tokenUsd) {
+    throw new Error(`Invalid USD price ${String(quote)} for ${token.symbol} on ${networkId}`);
+  }
+  return toTokenUnits(parseUsdPrice(price), tokenUsd, token.decimals);
+}
+
+// ============================================================================
+// Quote Cache
+// ============================================================================
+
+/** USD price sources for quoting new 402s and for verifying paid retries */
+export interface UsdQuoteCache {
+  /** Source for new requirements: one quote per token, refreshed once older than the TTL */
+  current: UsdPriceSource;
+  /**
+   * Source for verifying payments: the highest quote an outstanding 402 may
+   * still have used, so a payment signed against it is not rejected because
+   * the price moved before the retry arrived.
+   */
+  forPayment: UsdPriceSource;
+}
+
+/**
+ * Cache a price source's quotes per (network, token).
+ *
+ * A quote is used for new 402 responses for `ttlMs`. After it is replaced it
+ * stays acceptable for payments for `graceMs` more (the payment deadline),
+ * since a client may still be paying a requirement quoted with it.
+ */
+export function createUsdQuoteCache(
+  priceSource: UsdPriceSource,
+  ttlMs: number,
+  graceMs: number
+): UsdQuoteCache {
+  // Newest last; `at` is when each quote was fetched
+  const quotes = new Map<string, Array<{ value: string | number; at: number }>>();
+
+  const refresh = async (token: TokenConfig, networkId: string) => {
+    const key = `${networkId}:${token.address.toLowerCase()}`;
+    const now = Date.now();
+    let history = quotes.get(key) ?? [];
+    const newest = history[history.length - 1];
+    if (!newest || newest.at + ttlMs <= now) {
+      history = [...history, { value: await priceSource(token, networkId), at: Date.now() }];
+      // Keep a replaced quote until the one after it is older than the grace period
+      history = history.filter((_, i) => i === history.length - 1 || history[i + 1]!.at + graceMs >= now);
+      quotes.set(key, history);
+    }
+    return history;
+  };
+
+  return {
+    current: async (token, networkId) => {
+      const history = await refresh(token, networkId);
+      return history[history.length - 1]!.value;
+    },
+    forPayment: async (token, networkId) => {
+      const history = await refresh(token, networkId);
+      // Higher token prices mean lower amounts; the highest accepts every outstanding quote
+      return history.reduce((best, quote) => (Number(quote.value) > Number(best.value) ? quote : best)).value;
+    },
+  };
+}
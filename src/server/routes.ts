@@ -0,0 +1,145 @@
+import type { X402Route, RouteMatch } from '../types/index.js';
+
+// ============================================================================
+// Route Patterns
+// ============================================================================
+
+/**
+ * A route with its path pattern compiled.
+ *
+ * Patterns are matched segment by segment against the request path:
+ * - `models` matches that literal segment
+ * - `:id` matches any one segment and captures it as `params.id`
+ * - a trailing `*` segment (`/files/*`) matches the base path and anything below it
+ * - a trailing `*` inside a segment (`/health*`) matches any path with that prefix
+ *
+ * Literal segments ignore case unless `caseSensitive` is set, as Express and
+ * Koa routers do by default; captured params keep the request's casing.
+ */
+export interface CompiledRoute<TRequest> {
+  route: X402Route<TRequest>;
+  method: string;
+  matchPath: (path: string) => Record<string, string> | null;
+  /** Higher sorts first: compared element by element */
+  specificity: number[];
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+export interface RouteMatchOptions {
+  /** Compare literal segments case-sensitively (default: false) */
+  caseSensitive?: boolean;
+}
+
+export function compileRoute<TRequest>(
+  route: X402Route<TRequest>,
+  options: RouteMatchOptions = {}
+): CompiledRoute<TRequest> {
+  if (!route.path.startsWith('/')) {
+    throw new Error(`x402 route path must start with "/": ${route.path}`);
+  }
+
+  const segments = splitPath(route.path);
+  const last = segments[segments.length - 1];
+  const wildcard = last?.endsWith('*') ?? false;
+  // `/files/*` → match below `/files`; `/health*` → raw prefix `health` on the last segment
+  const fixed = wildcard ? segments.slice(0, -1) : segments;
+  const prefix = wildcard ? last!.slice(0, -1) : null;
+
+  for (const segment of fixed) {
+    if (segment.includes('*')) {
+      throw new Error(`x402 route wildcard must be at the end of the path: ${route.path}`);
+    }
+  }
+
+  const fold = options.caseSensitive ? (s: string) => s : (s: string) => s.toLowerCase();
+  const literals = fixed.map(segment => (segment.startsWith(':') ? segment : fold(segment)));
+  const foldedPrefix = prefix === null ? null : fold(prefix);
+
+  const staticCount = fixed.filter(s => !s.startsWith(':')).length + (prefix ? 1 : 0);
+  const paramCount = fixed.filter(s => s.startsWith(':')).length;
+  const method = (route.method ?? '*').toUpperCase();
+
+  const matchPath = (path: string): Record<string, string> | null => {
+    const parts = splitPath(path);
+    if (wildcard ? parts.length < fixed.length : parts.length !== fixed.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < fixed.length; i++) {
+      const segment = literals[i]!;
+      const part = parts[i]!;
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = safeDecode(part);
+      } else if (segment !== fold(part)) {
+        return null;
+      }
+    }
+
+    if (foldedPrefix) {
+      const rest = parts[fixed.length];
+      if (rest === undefined || !fold(rest).startsWith(foldedPrefix)) return null;
+    }
+    return params;
+  };
+
+  return {
+    route,
+    method,
+    matchPath,
+    specificity: [staticCount, wildcard ? 0 : 1, paramCount, method === '*' ? 0 : 1],
+  };
+}
+
+function compareSpecificity(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const diff = (b[i] ?? 0) - (a[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Compile a route table, most specific route first. Ties keep declaration order.
+ */
+export function compileRoutes<TRequest>(
+  routes: X402Route<TRequest>[],
+  options: RouteMatchOptions = {}
+): CompiledRoute<TRequest>[] {
+  return routes
+    .map(route => compileRoute(route, options))
+    .map((compiled, index) => ({ compiled, index }))
+    .sort((a, b) => compareSpecificity(a.compiled.specificity, b.compiled.specificity) || a.index - b.index)
+    .map(({ compiled }) => compiled);
+}
+
+/**
+ * Find the most specific route matching a request.
+ */
+export function matchRoute<TRequest>(
+  routes: CompiledRoute<TRequest>[],
+  method: string,
+  path: string
+): { route: X402Route<TRequest>; match: RouteMatch } | null {
+  const upper = method.toUpperCase();
+  for (const compiled of routes) {
+    if (compiled.method !== '*' && compiled.method !== upper) continue;
+    const params = compiled.matchPath(path);
+    if (params) {
+      return {
+        route: compiled.route,
+        match: { method: compiled.method, path: compiled.route.path, params },
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,404 @@
+import {
+  recoverTypedDataAddress,
+  getAddress,
+  type Address,
+} from 'viem';
+
+import {
+  type PaymentPayload,
+  type PaymentAcceptEntry,
+  type PaymentVerificationResult,
+  PERMIT2_BATCH_WITNESS_TYPES,
+  ERC3009_TYPES,
+  X402Error,
+  SignerMismatchError,
+  PaymentMismatchError,
+  calculateFeeSplit,
+  getPermit2Domain,
+  getERC3009Domain,
+  extractChainId,
+} from '../types/index.js';
+import { getNetworkConfig } from '../chains/index.js';
+
+// ============================================================================
+// Signature Recovery
+// ============================================================================
+
+/**
+ * Normalize an address for typed-data hashing. The encoding is case-insensitive,
+ * but viem rejects mixed-case input whose checksum does not match.
+ */
+function toAddress(value: string): Address {
+  return getAddress(value.toLowerCase());
+}
+
+/**
+ * Resolve the EIP-712 domain name of an ERC-3009 token.
+ * Falls back to 'USD Coin', which is what the client signs with.
+ */
+function resolveERC3009TokenName(network: string, tokenAddress: `0x${string}`): string {
+  const tokens = getNetworkConfig(network)?.tokens ?? {};
+  const token = Object.values(tokens).find(
+    t => t.address.toLowerCase() === tokenAddress.toLowerCase()
+  );
+  return token?.name ?? 'USD Coin';
+}
+
+/**
+ * Rebuild the EIP-712 typed data a payload was signed over and recover its signer.
+ *
+ * @param payload - Parsed Permit2 or ERC-3009 payload
+ * @param tokenAddress - Token the ERC-3009 authorization is for (its domain's
+ *   verifyingContract). Ignored for Permit2, whose tokens are part of the message.
+ */
+export async function recoverPaymentSigner(
+  payload: PaymentPayload,
+  tokenAddress: `0x${string}`
+): Promise<Address> {
+  const chainId = extractChainId(payload.network);
+  const signature = payload.signature as `0x${string}`;
+
+  if (payload.scheme === 'permit2') {
+    return recoverTypedDataAddress({
+      domain: getPermit2Domain(chainId),
+      types: PERMIT2_BATCH_WITNESS_TYPES,
+      primaryType: 'PermitBatchWitnessTransferFrom',
+      message: {
+        permitted: payload.permit.permitted.map(p => ({
+          token: toAddress(p.token),
+          amount: BigInt(p.amount),
+        })),
+        spender: toAddress(payload.spender),
+        nonce: BigInt(payload.permit.nonce),
+        deadline: BigInt(payload.permit.deadline),
+        witness: {
+          recipient: toAddress(payload.witness.recipient),
+          feeBps: BigInt(payload.witness.feeBps),
+        },
+      },
+      signature,
+    });
+  }
+
+  return recoverTypedDataAddress({
+    domain: getERC3009Domain(
+      toAddress(tokenAddress),
+      resolveERC3009TokenName(payload.network, tokenAddress),
+      chainId
+    ),
+    types: ERC3009_TYPES,
+    primaryType: 'TransferWithAuthorization',
+    message: {
+      from: toAddress(payload.authorization.from),
+      to: toAddress(payload.authorization.to),
+      value: BigInt(payload.authorization.value),
+      validAfter: BigInt(payload.authorization.validAfter),
+      validBefore: BigInt(payload.authorization.validBefore),
+      nonce: payload.authorization.nonce as `0x${string}`,
+    },
+    signature,
+  });
+}
+
+/**
+ * Assert that a payload's signature was produced by its declared payer.
+ *
+ * For ERC-3009 the authorization's `from` must also be the payer, since that is
+ * the account the token contract debits.
+ *
+ * @throws SignerMismatchError when the signature is malformed or was produced by another account
+ */
+export async function assertPaymentSigner(
+  payload: PaymentPayload,
+  tokenAddress: `0x${string}`
+): Promise<Address> {
+  const payer = payload.payer as Address;
+
+  let recovered: Address;
+  try {
+    recovered = await recoverPaymentSigner(payload, tokenAddress);
+  } catch {
+    throw new SignerMismatchError(payer, null);
+  }
+
+  if (recovered.toLowerCase() !== payer.toLowerCase()) {
+    throw new SignerMismatchError(payer, recovered);
+  }
+  if (
+    payload.scheme === 'erc3009' &&
+    payload.authorization.from.toLowerCase() !== payer.toLowerCase()
+  ) {
+    throw new SignerMismatchError(payload.authorization.from, recovered);
+  }
+
+  return recovered;
+}
+
+/**
+ * Verify a payload's EIP-712 signature without throwing.
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyPaymentSignature(payload, BASE_USDC.address);
+ * if (!result.valid) console.warn(result.code, result.error);
+ * ```
+ */
+export async function verifyPaymentSignature(
+  payload: PaymentPayload,
+  tokenAddress: `0x${string}`
+): Promise<PaymentVerificationResult> {
+  try {
+    const signer = await assertPaymentSigner(payload, tokenAddress);
+    return { valid: true, signer, payload };
+  } catch (error) {
+    if (error instanceof X402Error) {
+      return { valid: false, error: error.message, code: error.code, payload };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Requirement Binding
+// ============================================================================
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Why a payload is outside its validity window */
+export interface ValidityWindowFailure {
+  code: 'PAYMENT_EXPIRED' | 'PAYMENT_NOT_YET_VALID';
+  error: string;
+}
+
+/**
+ * Check a payload's validity window at `now` (Unix seconds), as the settlement
+ * contract will: the Permit2 deadline or ERC-3009 validBefore must still be
+ * ahead, and ERC-3009 validAfter must have passed.
+ *
+ * @returns The failure, or null when the payload is currently valid
+ */
+export function checkValidityWindow(
+  payload: PaymentPayload,
+  now = Math.floor(Date.now() / 1000)
+): ValidityWindowFailure | null {
+  if (payload.scheme === 'permit2') {
+    return payload.permit.deadline <= now
+      ? { code: 'PAYMENT_EXPIRED', error: 'Payment deadline has passed' }
+      : null;
+  }
+  if (payload.authorization.validBefore <= now) {
+    return { code: 'PAYMENT_EXPIRED', error: 'Authorization validity has passed' };
+  }
+  if (payload.authorization.validAfter > now) {
+    return { code: 'PAYMENT_NOT_YET_VALID', error: 'Authorization is not valid yet' };
+  }
+  return null;
+}
+
+/**
+ * Find the accept entries a payload may be paying for: same network and scheme,
+ * and for Permit2 the same token. ERC-3009 payloads name no token (it is bound
+ * through the signature's domain), so every entry on the network is a candidate.
+ *
+ * @throws PaymentMismatchError (NETWORK_MISMATCH / SCHEME_NOT_ACCEPTED / TOKEN_MISMATCH) when none matches
+ */
+export function findAcceptCandidates(
+  payload: PaymentPayload,
+  accepts: PaymentAcceptEntry[]
+): PaymentAcceptEntry[] {
+  const onNetwork = accepts.filter(a => a.network === payload.network);
+  if (onNetwork.length === 0) {
+    const expected = [...new Set(accepts.map(a => a.network))].join(', ');
+    throw new PaymentMismatchError(
+      'NETWORK_MISMATCH',
+      `Expected ${expected}, got ${payload.network}`,
+      expected,
+      payload.network
+    );
+  }
+
+  const withScheme = onNetwork.filter(a => a.scheme === payload.scheme);
+  if (withScheme.length === 0) {
+    const expected = [...new Set(onNetwork.map(a => a.scheme))].join(', ');
+    throw new PaymentMismatchError(
+      'SCHEME_NOT_ACCEPTED',
+      `Scheme ${payload.scheme} is not accepted on ${payload.network} (accepted: ${expected})`,
+      expected,
+      payload.scheme
+    );
+  }
+
+  if (payload.scheme !== 'permit2' || withScheme.length === 1) return withScheme;
+
+  const token = payload.permit.permitted[0]?.token ?? '';
+  const withToken = withScheme.filter(a => sameAddress(a.token, token));
+  if (withToken.length === 0) {
+    const expected = withScheme.map(a => a.token).join(', ');
+    throw new PaymentMismatchError(
+      'TOKEN_MISMATCH',
+      `Expected token ${expected}, got ${token}`,
+      expected,
+      token
+    );
+  }
+  return withToken;
+}
+
+/**
+ * Find the accept entry a payload is paying for (same scheme and network,
+ * and for Permit2 the same token).
+ *
+ * @throws PaymentMismatchError (SCHEME_NOT_ACCEPTED / NETWORK_MISMATCH / TOKEN_MISMATCH) when none matches
+ */
+export function findAcceptEntry(
+  payload: PaymentPayload,
+  accepts: PaymentAcceptEntry[]
+): PaymentAcceptEntry {
+  return findAcceptCandidates(payload, accepts)[0]!;
+}
+
+/**
+ * Assert that a payload pays the advertised recipient, in the advertised token,
+ * through the advertised settlement contract and fee, for at least the advertised amount.
+ *
+ * ERC-3009 payloads carry no token field: the token is bound through the
+ * signature's EIP-712 domain instead, so it is checked by {@link assertPaymentSigner}.
+ *
+ * @throws PaymentMismatchError with a code naming the first field that disagrees
+ */
+export function assertPaymentMatchesAccept(
+  payload: PaymentPayload,
+  accept: PaymentAcceptEntry
+): void {
+  if (payload.network !== accept.network) {
+    throw new PaymentMismatchError(
+      'NETWORK_MISMATCH',
+      `Expected ${accept.network}, got ${payload.network}`,
+      accept.network,
+      payload.network
+    );
+  }
+  if (payload.scheme !== accept.scheme) {
+    throw new PaymentMismatchError(
+      'SCHEME_NOT_ACCEPTED',
+      `Expected scheme ${accept.scheme}, got ${payload.scheme}`,
+      accept.scheme,
+      payload.scheme
+    );
+  }
+
+  if (payload.scheme === 'permit2') {
+    const [net, fee] = payload.permit.permitted as [
+      { token: string; amount: string },
+      { token: string; amount: string },
+    ];
+
+    for (const permitted of [net, fee]) {
+      if (!sameAddress(permitted.token, accept.token)) {
+        throw new PaymentMismatchError(
+          'TOKEN_MISMATCH',
+          `Expected token ${accept.token}, got ${permitted.token}`,
+          accept.token,
+          permitted.token
+        );
+      }
+    }
+    if (!sameAddress(payload.witness.recipient, accept.recipient)) {
+      throw new PaymentMismatchError(
+        'RECIPIENT_MISMATCH',
+        `Expected recipient ${accept.recipient}, got ${payload.witness.recipient}`,
+        accept.recipient,
+        payload.witness.recipient
+      );
+    }
+    if (!sameAddress(payload.spender, accept.settlement)) {
+      throw new PaymentMismatchError(
+        'SETTLEMENT_MISMATCH',
+        `Expected settlement contract ${accept.settlement}, got ${payload.spender}`,
+        accept.settlement,
+        payload.spender
+      );
+    }
+    if (payload.witness.feeBps !== accept.feeBps) {
+      throw new PaymentMismatchError(
+        'FEE_MISMATCH',
+        `Expected feeBps ${accept.feeBps}, got ${payload.witness.feeBps}`,
+        accept.feeBps,
+        payload.witness.feeBps
+      );
+    }
+
+    const gross = BigInt(net.amount) + BigInt(fee.amount);
+    if (gross < BigInt(accept.amount)) {
+      throw new PaymentMismatchError(
+        'INSUFFICIENT_AMOUNT',
+        `Expected at least ${accept.amount}, got ${gross.toString()}`,
+        accept.amount,
+        gross.toString()
+      );
+    }
+
+    const expectedFee = calculateFeeSplit(gross, accept.feeBps).fee;
+    if (BigInt(fee.amount) !== expectedFee) {
+      throw new PaymentMismatchError(
+        'FEE_MISMATCH',
+        `Expected fee amount ${expectedFee.toString()}, got ${fee.amount}`,
+        expectedFee.toString(),
+        fee.amount
+      );
+    }
+    return;
+  }
+
+  if (!sameAddress(payload.recipient, accept.recipient)) {
+    throw new PaymentMismatchError(
+      'RECIPIENT_MISMATCH',
+      `Expected recipient ${accept.recipient}, got ${payload.recipient}`,
+      accept.recipient,
+      payload.recipient
+    );
+  }
+  if (!sameAddress(payload.authorization.to, accept.settlement)) {
+    throw new PaymentMismatchError(
+      'SETTLEMENT_MISMATCH',
+      `Expected settlement contract ${accept.settlement}, got ${payload.authorization.to}`,
+      accept.settlement,
+      payload.authorization.to
+    );
+  }
+  if (BigInt(payload.authorization.value) < BigInt(accept.amount)) {
+    throw new PaymentMismatchError(
+      'INSUFFICIENT_AMOUNT',
+      `Expected at least ${accept.amount}, got ${payload.authorization.value}`,
+      accept.amount,
+      payload.authorization.value
+    );
+  }
+}
+
+/**
+ * Verify a payload against the accept entry it claims to pay: field binding
+ * first, then the EIP-712 signature (against the entry's token).
+ *
+ * @example
+ * ```typescript
+ * const accept = findAcceptEntry(payload, requirement.accepts);
+ * const result = await verifyPayment(payload, accept);
+ * ```
+ */
+export async function verifyPayment(
+  payload: PaymentPayload,
+  accept: PaymentAcceptEntry
+): Promise<PaymentVerificationResult> {
+  try {
+    assertPaymentMatchesAccept(payload, accept);
+  } catch (error) {
+    if (error instanceof X402Error) {
+      return { valid: false, error: error.message, code: error.code, payload };
+    }
+    throw error;
+  }
+  return verifyPaymentSignature(payload, accept.token as `0x${string}`);
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { Account, EIP1193Provider, PublicClient, WalletClient } from 'viem';
 
 // ============================================================================
 // Constants
@@ -38,6 +39,8 @@ export interface TokenConfig {
   name: string;
   /** Whether the token supports ERC-3009 transferWithAuthorization */
   supportsERC3009?: boolean;
+  /** Whether the token is pegged 1:1 to USD (USD prices convert without a price source) */
+  stablecoin?: boolean;
 }
 
 export interface NetworkConfig {
@@ -86,6 +89,9 @@ export const PaymentRequirementSchema = z.object({
 
 export type PaymentRequirement = z.infer<typeof PaymentRequirementSchema>;
 
+/** A single entry of a requirement's `accepts` array */
+export type PaymentAcceptEntry = PaymentRequirement['accepts'][number];
+
 // ============================================================================
 // Permit2 EIP-712 Types (for client signing)
 // ============================================================================
@@ -216,6 +222,8 @@ export interface PaymentResponse {
   txHash?: string;
   network?: string;
   settlementId?: string;
+  /** 'submitted' when settled asynchronously: broadcast, but not yet confirmed */
+  status?: 'submitted' | 'confirmed';
 }
 
 // ============================================================================
@@ -225,7 +233,22 @@ export interface PaymentResponse {
 export interface X402ClientConfig {
   /** Private key for signing (hex with or without 0x prefix) */
   privateKey?: string;
-  /** Custom RPC URL */
+  /** Any viem Account: local, JSON-RPC, or a custom signer built with `toAccount` (e.g. KMS) */
+  account?: Account;
+  /** Existing viem wallet client; pays from its account, or its first address */
+  walletClient?: WalletClient;
+  /** EIP-1193 provider, such as an injected browser wallet */
+  provider?: EIP1193Provider;
+  /**
+   * Reads Permit2 allowances, as one client for the first supported network or
+   * clients keyed by CAIP-2 network id. Defaults to one per network on its RPC
+   * URL for `privateKey` and `account` signers. On networks without one,
+   * payments are signed without the allowance check.
+   */
+  publicClient?: PublicClient | Record<string, PublicClient>;
+  /** RPC URLs keyed by CAIP-2 network id; networks not listed use a public endpoint */
+  rpcUrls?: Record<string, string>;
+  /** @deprecated RPC URL for the first supported network; use `rpcUrls` */
   rpcUrl?: string;
   /** Supported network IDs (defaults to ['eip155:8453']) */
   supportedNetworks?: string[];
@@ -245,6 +268,117 @@ export interface X402ClientConfig {
   onPaymentSigned?: (payment: PaymentPayload) => void | Promise<void>;
   /** Callback when Permit2 approval is needed (before sending tx) */
   onPermit2ApprovalNeeded?: (token: string, permit2Address: string) => void | Promise<void>;
+  /**
+   * Chooses among the accept entries on supported networks (default:
+   * `selectCheapestAffordable`; `preferERC3009` makes no chain reads)
+   */
+  selectAccept?: AcceptSelectionStrategy;
+  /** USD value of non-stablecoin tokens, for comparing offers in USD */
+  priceSource?: UsdPriceSource;
+  /**
+   * Asked before every payment `fetch` signs, with the accept entries on
+   * supported networks. Decline to reject with `PaymentDeclinedError`, or
+   * approve with `accept` set to one of `candidateAccepts` to pay that one
+   * instead of `context.selected`.
+   */
+  approvePayment?: (
+    requirement: PaymentRequirement,
+    candidateAccepts: PaymentAcceptEntry[],
+    context: PaymentApprovalContext
+  ) => PaymentApproval | Promise<PaymentApproval>;
+  /** Limits checked before any payment is signed; breaking one throws `BudgetExceededError` */
+  spendingPolicy?: SpendingPolicy;
+  /** Where signed payments are recorded (default: a process-local in-memory ledger) */
+  spendLedger?: SpendLedger;
+}
+
+/**
+ * What an {@link AcceptSelectionStrategy} can ask about an offer. Chain reads
+ * go through the offer's network's public client, if there is one.
+ */
+export interface AcceptSelectionContext {
+  /** Payer's balance of the offer's token, or null if it cannot be read */
+  balanceOf(accept: PaymentAcceptEntry): Promise<bigint | null>;
+  /** Whether paying needs a Permit2 approval transaction first; an unreadable allowance counts as yes */
+  needsApproval(accept: PaymentAcceptEntry): Promise<boolean>;
+  /** Gross amount in USD, or null for tokens that cannot be priced */
+  usdCost(accept: PaymentAcceptEntry): Promise<number | null>;
+}
+
+/** Picks which accept entry to pay, or null if none of the candidates will do */
+export type AcceptSelectionStrategy = (
+  candidates: PaymentAcceptEntry[],
+  context: AcceptSelectionContext
+) => PaymentAcceptEntry | null | Promise<PaymentAcceptEntry | null>;
+
+/** What `approvePayment` knows about the request being paid for */
+export interface PaymentApprovalContext {
+  url: string;
+  method: string;
+  /** Entry the client would pay by default */
+  selected: PaymentAcceptEntry;
+}
+
+/** `approvePayment` decision */
+export interface PaymentApproval {
+  approve: boolean;
+  /** Entry to pay instead of the selected one; must equal one of the candidates (a copy is fine) */
+  accept?: PaymentAcceptEntry;
+  /** Why the payment was declined, surfaced on `PaymentDeclinedError` */
+  reason?: string;
+}
+
+/** Amounts in smallest token unit, keyed by token contract address (case-insensitive) */
+export type TokenAmounts = Record<string, string>;
+
+/**
+ * Declarative limits on what X402Client may pay. Caps apply to the gross
+ * amount of each payment; tokens not listed in a cap are not limited by it.
+ *
+ * Host lists take hostnames as in the request URL (`api.example.com`), or
+ * `*.example.com` for any subdomain of example.com.
+ */
+export interface SpendingPolicy {
+  /** Largest single payment */
+  maxPerPayment?: TokenAmounts;
+  /** Spend per host over the last hour */
+  maxPerHostHourly?: TokenAmounts;
+  /** Spend per host over the last 24 hours */
+  maxPerHostDaily?: TokenAmounts;
+  /** Total spend across all hosts, ever recorded in the ledger */
+  budget?: TokenAmounts;
+  /** Only pay these recipients */
+  allowRecipients?: string[];
+  /** Never pay these recipients */
+  denyRecipients?: string[];
+  /** Only pay these hosts */
+  allowHosts?: string[];
+  /** Never pay these hosts */
+  denyHosts?: string[];
+}
+
+/** One signed payment, as recorded in a {@link SpendLedger} */
+export interface SpendRecord {
+  /** Hostname of the paid request */
+  host: string;
+  network: string;
+  token: string;
+  recipient: string;
+  /** Gross amount in smallest token unit */
+  amount: string;
+  /** Unix time in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * Storage for payments X402Client has signed, read back to enforce a
+ * {@link SpendingPolicy}. A payment is recorded once signed: from then on it
+ * can be settled whether or not the request succeeds.
+ */
+export interface SpendLedger {
+  record(entry: SpendRecord): Promise<void>;
+  /** Total amount of `token` spent since `since` (ms, default: ever), optionally only on `host` */
+  total(query: { token: string; host?: string; since?: number }): Promise<bigint>;
 }
 
 // ============================================================================
@@ -255,16 +389,146 @@ export interface PaymentVerificationResult {
   valid: boolean;
   signer?: `0x${string}`;
   error?: string;
+  /** Machine-readable error code when `valid` is false */
+  code?: string;
   payload?: PaymentPayload;
 }
 
-export interface X402MiddlewareConfig {
-  /** Payment recipient address */
-  recipientAddress: `0x${string}`;
-  /** Gross payment amount in smallest token unit */
-  amount: string;
-  /** Token contract address */
+/**
+ * Storage for claimed payment nonces (middleware replay protection).
+ *
+ * Nonces go through claim → commit or release: a claim holds the nonce while
+ * settlement is in flight, `commit` burns it once settlement is confirmed (or the
+ * payload is known to be invalid), and `release` rolls the claim back so the same
+ * signed payload can be retried.
+ *
+ * `claim` must be atomic: of several concurrent claims for one nonce, at most one
+ * resolves true. Share one store between replicas to protect all of them.
+ */
+export interface NonceStore {
+  /** Claim a nonce for `ttlMs` milliseconds. Resolves false if it is already claimed. */
+  claim(nonce: string, ttlMs: number): Promise<boolean>;
+  /** Burn a claimed nonce: keep it claimed for `ttlMs` milliseconds from now */
+  commit(nonce: string, ttlMs: number): Promise<void>;
+  /** Release a claimed nonce so it can be claimed again */
+  release(nonce: string): Promise<void>;
+}
+
+/**
+ * Settles verified payloads on-chain. Implemented by the facilitator's
+ * `SettlementService`; errors carrying a `code` (e.g. `SettlementError`) are
+ * reported to the client as the failure reason.
+ */
+export interface PaymentSettler {
+  settleX402(payload: PaymentPayload): Promise<PaymentResponse>;
+}
+
+/**
+ * viem clients for settling in-process, keyed by CAIP-2 network ID. The wallet
+ * client's account submits settlement transactions and pays their gas.
+ */
+export interface LocalSettlementClients {
+  publicClients: Record<string, PublicClient>;
+  walletClients: Record<string, WalletClient>;
+}
+
+/** The route-table entry a request matched, with its captured path params */
+export interface RouteMatch {
+  /** Upper-cased method of the matched route, or '*' */
+  method: string;
+  /** Path pattern of the matched route */
+  path: string;
+  params: Record<string, string>;
+}
+
+/**
+ * A config value that is either fixed or derived from the incoming request.
+ * Resolved both when building the 402 requirement and when validating the retry.
+ */
+export type PerRequest<T, TRequest = unknown> =
+  | T
+  | ((req: TRequest, match: RouteMatch) => T | Promise<T>);
+
+/**
+ * USD value of one whole token, used to convert USD prices into tokens that are
+ * not stablecoins (e.g. from an oracle or exchange API).
+ */
+export type UsdPriceSource = (
+  token: TokenConfig,
+  networkId: string
+) => string | number | Promise<string | number>;
+
+/**
+ * One entry of the middleware's route table. Unset fields fall back to the
+ * middleware's top-level config.
+ *
+ * @example
+ * ```typescript
+ * { method: 'POST', path: '/models/:model/completions', amount: (req, { params }) => price(params.model) }
+ * { path: '/health', free: true }
+ * ```
+ */
+export interface X402Route<TRequest = unknown> {
+  /** HTTP method (default: any) */
+  method?: string;
+  /** Path pattern: literal segments, `:param` segments, and an optional trailing `*` */
+  path: string;
+  /** Serve matching requests without payment */
+  free?: boolean;
+  amount?: PerRequest<string, TRequest>;
+  /** USD price such as '$0.01' (instead of `amount`) */
+  price?: PerRequest<string, TRequest>;
+  tokenAddress?: PerRequest<`0x${string}`, TRequest>;
+  recipientAddress?: PerRequest<`0x${string}`, TRequest>;
+  description?: string;
+  acceptedSchemes?: PaymentScheme[];
+}
+
+/**
+ * An additional (network, token) a payment may be made in, advertised next to the
+ * primary one. Unset fields fall back to the primary offer.
+ */
+export interface X402Offer<TRequest = unknown> {
+  /** CAIP-2 network ID */
+  networkId: string;
+  /** Token contract address on that network */
   tokenAddress: `0x${string}`;
+  /** WazabiSettlement contract address on that network */
+  settlementAddress: `0x${string}`;
+  /**
+   * Amount in this token's smallest unit. Defaults to the USD price converted to
+   * this token, or to the primary amount rescaled to this token's decimals (both
+   * tokens must be listed in SUPPORTED_NETWORKS).
+   */
+  amount?: PerRequest<string, TRequest>;
+  recipientAddress?: PerRequest<`0x${string}`, TRequest>;
+  acceptedSchemes?: PaymentScheme[];
+}
+
+export interface X402MiddlewareConfig<TRequest = unknown> {
+  /** Payment recipient address, or a function of the request */
+  recipientAddress: PerRequest<`0x${string}`, TRequest>;
+  /**
+   * Gross payment amount in smallest token unit, or a function of the request.
+   * One of `amount` or `price` is required unless every priced route sets its own.
+   */
+  amount?: PerRequest<string, TRequest>;
+  /**
+   * USD price such as '$0.01', converted to each token's smallest unit using
+   * its decimals. Non-stablecoins additionally need a `priceSource`.
+   */
+  price?: PerRequest<string, TRequest>;
+  /** USD value of non-stablecoin tokens, for converting `price` */
+  priceSource?: UsdPriceSource;
+  /**
+   * How long a `priceSource` quote is reused for new 402 responses, in ms
+   * (default: 60000). Payments are checked against any quote an unexpired 402
+   * may have used, so a price move between the 402 and the paid retry does not
+   * reject the payment.
+   */
+  priceQuoteTtlMs?: number;
+  /** Token contract address, or a function of the request */
+  tokenAddress: PerRequest<`0x${string}`, TRequest>;
   /** WazabiSettlement contract address */
   settlementAddress: `0x${string}`;
   /** Treasury address for fee collection */
@@ -273,6 +537,17 @@ export interface X402MiddlewareConfig {
   feeBps?: number;
   /** Facilitator URL for settlement */
   facilitatorUrl?: string;
+  /**
+   * Settle in-process instead of through a facilitator: viem clients, or any
+   * {@link PaymentSettler} such as a `SettlementService` instance.
+   */
+  settlement?: PaymentSettler | LocalSettlementClients;
+  /**
+   * Read the chain before serving: the payer's token balance, Permit2 allowance
+   * and whether the nonce is already used. One client for `networkId`, or clients
+   * keyed by CAIP-2 network ID; payments on networks without one are not checked.
+   */
+  publicClient?: PublicClient | Record<string, PublicClient>;
   /** Description of the paid resource */
   description?: string;
   /** CAIP-2 network ID (default: 'eip155:8453') */
@@ -281,10 +556,40 @@ export interface X402MiddlewareConfig {
   deadlineDuration?: number;
   /** Accepted schemes (default: ['permit2']) */
   acceptedSchemes?: PaymentScheme[];
-  /** Routes excluded from payment */
+  /** Further (network, token) offers advertised alongside the primary one */
+  offers?: X402Offer<TRequest>[];
+  /**
+   * Route table, most specific match wins. When set, requests matching no route
+   * are charged the top-level `amount` if there is one; otherwise see `unmatchedRoutes`.
+   */
+  routes?: X402Route<TRequest>[];
+  /**
+   * What to do with requests matching no route when there is no top-level price:
+   * 'deny' answers 403 (default), 'pass' serves them without payment.
+   */
+  unmatchedRoutes?: 'deny' | 'pass';
+  /**
+   * Match `routes` and `excludeRoutes` case-sensitively (default: false, like
+   * Express). Set it only when the framework's router is case-sensitive too.
+   */
+  caseSensitiveRoutes?: boolean;
+  /** Path prefixes served without payment, checked before `routes`; empty prefixes are ignored */
   excludeRoutes?: string[];
-  /** Custom error handler */
-  onError?: (error: Error, req: unknown, res: unknown) => void;
+  /** Nonce store for replay protection (default: a process-local in-memory store) */
+  nonceStore?: NonceStore;
+  /**
+   * When to settle (default: 'before-handler').
+   * 'after-handler' verifies up front, runs the handler, and settles only if it
+   * responds 2xx; otherwise the nonce is released and the payer is not charged.
+   * The handler's response is buffered until settlement completes.
+   */
+  settlementMode?: 'before-handler' | 'after-handler';
+  /**
+   * Custom error handler, used by the Express and node:http adapters. The
+   * Fastify, Hono and Koa adapters and `withX402` leave errors to the
+   * framework's own handling.
+   */
+  onError?: (error: Error, req: TRequest, res: unknown) => void;
 }
 
 // ============================================================================
@@ -346,6 +651,42 @@ export class Permit2ApprovalRequiredError extends X402Error {
   }
 }
 
+export class PaymentDeclinedError extends X402Error {
+  constructor(
+    public requirement: PaymentRequirement,
+    public reason?: string
+  ) {
+    super(
+      reason ? `Payment declined: ${reason}` : 'Payment declined',
+      'PAYMENT_DECLINED',
+      { requirement, reason }
+    );
+    this.name = 'PaymentDeclinedError';
+    Object.setPrototypeOf(this, PaymentDeclinedError.prototype);
+  }
+}
+
+/** Spending policy rules a payment can break */
+export type SpendingRule =
+  | 'maxPerPayment'
+  | 'maxPerHostHourly'
+  | 'maxPerHostDaily'
+  | 'budget'
+  | 'recipient'
+  | 'host';
+
+export class BudgetExceededError extends X402Error {
+  constructor(
+    public rule: SpendingRule,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message, 'BUDGET_EXCEEDED', { rule, ...details });
+    this.name = 'BudgetExceededError';
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
 export class PaymentExpiredError extends X402Error {
   constructor(deadline: number) {
     super(
@@ -358,6 +699,43 @@ export class PaymentExpiredError extends X402Error {
   }
 }
 
+export class SignerMismatchError extends X402Error {
+  constructor(payer: string, recovered: string | null) {
+    super(
+      recovered
+        ? `Payment signed by ${recovered}, but payload declares payer ${payer}`
+        : `Payment signature could not be recovered for payer ${payer}`,
+      'SIGNER_MISMATCH',
+      { payer, recovered }
+    );
+    this.name = 'SignerMismatchError';
+    Object.setPrototypeOf(this, SignerMismatchError.prototype);
+  }
+}
+
+/** Ways a payload can disagree with the accept entry it is paying for */
+export type PaymentMismatchCode =
+  | 'SCHEME_NOT_ACCEPTED'
+  | 'NETWORK_MISMATCH'
+  | 'TOKEN_MISMATCH'
+  | 'RECIPIENT_MISMATCH'
+  | 'SETTLEMENT_MISMATCH'
+  | 'FEE_MISMATCH'
+  | 'INSUFFICIENT_AMOUNT';
+
+export class PaymentMismatchError extends X402Error {
+  constructor(
+    code: PaymentMismatchCode,
+    message: string,
+    public expected?: string | number,
+    public actual?: string | number
+  ) {
+    super(message, code, { expected, actual });
+    this.name = 'PaymentMismatchError';
+    Object.setPrototypeOf(this, PaymentMismatchError.prototype);
+  }
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -376,14 +754,7 @@ export function createCaipId(chainId: number): string {
 
 export function generateNonce(): string {
   const bytes = new Uint8Array(32);
-  if (typeof globalThis.crypto !== 'undefined' && globalThis.crypto.getRandomValues) {
-    globalThis.crypto.getRandomValues(bytes);
-  } else {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const nodeCrypto = require('node:crypto') as typeof import('node:crypto');
-    const buf = nodeCrypto.randomBytes(32);
-    bytes.set(new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength));
-  }
+  globalThis.crypto.getRandomValues(bytes);
   return Array.from(bytes)
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('');
@@ -397,14 +768,7 @@ export function generateBytes32Nonce(): `0x${string}` {
 /** Generate a random uint256 nonce for Permit2 */
 export function generatePermit2Nonce(): string {
   const bytes = new Uint8Array(32);
-  if (typeof globalThis.crypto !== 'undefined' && globalThis.crypto.getRandomValues) {
-    globalThis.crypto.getRandomValues(bytes);
-  } else {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const nodeCrypto = require('node:crypto') as typeof import('node:crypto');
-    const buf = nodeCrypto.randomBytes(32);
-    bytes.set(new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength));
-  }
+  globalThis.crypto.getRandomValues(bytes);
   // Convert to decimal string (Permit2 nonces are uint256)
   let result = BigInt(0);
   for (const b of bytes) {
@@ -417,6 +781,18 @@ export function calculateDeadline(durationSeconds: number = 300): number {
   return Math.floor(Date.now() / 1000) + durationSeconds;
 }
 
+/**
+ * Rescale a base-unit amount from one token's decimals to another's.
+ * Rounds up when precision is lost, so a price is never undercharged.
+ */
+export function scaleAmount(amount: bigint, fromDecimals: number, toDecimals: number): bigint {
+  if (toDecimals >= fromDecimals) {
+    return amount * BigInt(10) ** BigInt(toDecimals - fromDecimals);
+  }
+  const divisor = BigInt(10) ** BigInt(fromDecimals - toDecimals);
+  return (amount + divisor - BigInt(1)) / divisor;
+}
+
 /** Calculate fee and net from gross amount and basis points */
 export function calculateFeeSplit(grossAmount: bigint, feeBps: number): {
   gross: bigint;
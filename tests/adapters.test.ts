@@ -0,0 +1,604 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { getAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  createX402Paywall,
+  type X402HttpRequest,
+  type X402PaymentInfo,
+} from '../src/server/index.js';
+import { x402Fastify, type FastifyReplyLike, type FastifyRequestLike } from '../src/server/adapters/fastify.js';
+import { x402Hono, type HonoContextLike } from '../src/server/adapters/hono.js';
+import { x402Koa, type KoaContextLike } from '../src/server/adapters/koa.js';
+import { x402Node } from '../src/server/adapters/node.js';
+import { withX402 } from '../src/server/adapters/fetch.js';
+import {
+  X402_HEADERS,
+  PERMIT2_BATCH_WITNESS_TYPES,
+  getPermit2Domain,
+  extractChainId,
+  type PaymentSettler,
+} from '../src/types/index.js';
+import { BASE_USDC, BASE_CAIP_ID } from '../src/chains/base.js';
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+const TEST_RECIPIENT = '0x742d35Cc6634C0532925a3b844Bc9e7595f4b123' as `0x${string}`;
+const TEST_TOKEN = BASE_USDC.address as `0x${string}`;
+const TEST_SETTLEMENT = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' as `0x${string}`;
+const TEST_TREASURY = '0x1b4F633B1FC5FC26Fb8b722b2373B3d4D71aCaeB' as `0x${string}`;
+const TX_HASH = ('0x' + 'cd'.repeat(32)) as `0x${string}`;
+
+/** Well-known test key (Hardhat account #0) */
+const payerAccount = privateKeyToAccount(
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+);
+
+const checksum = (address: string) => getAddress(address.toLowerCase());
+
+let nonceCounter = 0;
+
+/** A signed Permit2 payload paying 1 USDC to TEST_RECIPIENT, as an x-payment header */
+async function paymentHeader(): Promise<string> {
+  nonceCounter++;
+  const payload = {
+    scheme: 'permit2' as const,
+    network: BASE_CAIP_ID,
+    permit: {
+      permitted: [
+        { token: TEST_TOKEN, amount: '995000' },
+        { token: TEST_TOKEN, amount: '5000' },
+      ],
+      nonce: String(Date.now() * 1000 + 500_000 + nonceCounter),
+      deadline: Math.floor(Date.now() / 1000) + 300,
+    },
+    witness: { recipient: TEST_RECIPIENT, feeBps: 50 },
+    spender: TEST_SETTLEMENT,
+    payer: payerAccount.address,
+  };
+  const signature = await payerAccount.signTypedData({
+    domain: getPermit2Domain(extractChainId(payload.network)),
+    types: PERMIT2_BATCH_WITNESS_TYPES,
+    primaryType: 'PermitBatchWitnessTransferFrom',
+    message: {
+      permitted: payload.permit.permitted.map(p => ({
+        token: checksum(p.token),
+        amount: BigInt(p.amount),
+      })),
+      spender: checksum(payload.spender),
+      nonce: BigInt(payload.permit.nonce),
+      deadline: BigInt(payload.permit.deadline),
+      witness: {
+        recipient: checksum(payload.witness.recipient),
+        feeBps: BigInt(payload.witness.feeBps),
+      },
+    },
+  });
+  return JSON.stringify({ ...payload, signature });
+}
+
+function createSettler(): PaymentSettler & { settleX402: ReturnType<typeof vi.fn> } {
+  return {
+    settleX402: vi.fn().mockResolvedValue({ success: true, txHash: TX_HASH, network: BASE_CAIP_ID }),
+  };
+}
+
+function baseConfig(settlement: PaymentSettler) {
+  return {
+    recipientAddress: TEST_RECIPIENT,
+    amount: '1000000',
+    tokenAddress: TEST_TOKEN,
+    settlementAddress: TEST_SETTLEMENT,
+    treasuryAddress: TEST_TREASURY,
+    settlement,
+  };
+}
+
+// ============================================================================
+// Core
+// ============================================================================
+
+describe('createX402Paywall', () => {
+  let settler: ReturnType<typeof createSettler>;
+
+  beforeEach(() => {
+    settler = createSettler();
+  });
+
+  function httpRequest(
+    headers: Record<string, string> = {},
+    path = '/report'
+  ): X402HttpRequest<{ id: string }> {
+    return {
+      method: 'GET',
+      path,
+      url: `${path}?format=json`,
+      header: name => headers[name],
+      raw: { id: 'raw-request' },
+    };
+  }
+
+  it('should decide 402 with the requirement for unpaid requests', async () => {
+    const paywall = createX402Paywall(baseConfig(settler));
+
+    const decision = await paywall.handle(httpRequest());
+
+    expect(decision.type).toBe('respond');
+    if (decision.type !== 'respond') return;
+    expect(decision.response.status).toBe(402);
+    expect(decision.response.body).toEqual(expect.objectContaining({
+      error: 'Payment Required',
+      requirement: expect.objectContaining({ resource: '/report?format=json' }),
+    }));
+    expect(decision.response.headers[X402_HEADERS.PAYMENT_REQUIRED]).toEqual(expect.any(String));
+  });
+
+  it('should pass free routes through', async () => {
+    const paywall = createX402Paywall({ ...baseConfig(settler), excludeRoutes: ['/health'] });
+
+    expect(await paywall.handle(httpRequest({}, '/health'))).toEqual({ type: 'pass' });
+  });
+
+  it('should hand the framework request to per-request functions', async () => {
+    const amount = vi.fn().mockReturnValue('1000000');
+    const paywall = createX402Paywall<{ id: string }>({ ...baseConfig(settler), amount });
+
+    await paywall.handle(httpRequest());
+
+    expect(amount).toHaveBeenCalledWith({ id: 'raw-request' }, expect.objectContaining({ path: '/*' }));
+  });
+
+  it('should settle paid requests before deciding', async () => {
+    const paywall = createX402Paywall(baseConfig(settler));
+
+    const decision = await paywall.handle(httpRequest({ [X402_HEADERS.PAYMENT]: await paymentHeader() }));
+
+    expect(decision.type).toBe('paid');
+    if (decision.type !== 'paid') return;
+    expect(decision.complete).toBeUndefined();
+    expect(decision.payment.signer).toBe(payerAccount.address);
+    expect(decision.payment.settlementResult?.txHash).toBe(TX_HASH);
+    expect(JSON.parse(decision.headers[X402_HEADERS.PAYMENT_RESPONSE]!)).toEqual(
+      expect.objectContaining({ txHash: TX_HASH })
+    );
+  });
+
+  it('should defer settlement to complete() in after-handler mode', async () => {
+    const paywall = createX402Paywall({ ...baseConfig(settler), settlementMode: 'after-handler' });
+
+    const decision = await paywall.handle(httpRequest({ [X402_HEADERS.PAYMENT]: await paymentHeader() }));
+    if (decision.type !== 'paid') throw new Error('expected a paid decision');
+    expect(settler.settleX402).not.toHaveBeenCalled();
+
+    const completion = await decision.complete!(200);
+    expect(settler.settleX402).toHaveBeenCalledTimes(1);
+    expect(completion).toEqual({
+      type: 'send',
+      headers: { [X402_HEADERS.PAYMENT_RESPONSE]: expect.any(String) },
+    });
+  });
+
+  it('should reject invalid payloads', async () => {
+    const paywall = createX402Paywall(baseConfig(settler));
+
+    const decision = await paywall.handle(httpRequest({ [X402_HEADERS.PAYMENT]: 'not json' }));
+
+    expect(decision).toEqual({
+      type: 'respond',
+      response: expect.objectContaining({
+        status: 400,
+        body: expect.objectContaining({ code: 'INVALID_PAYLOAD' }),
+      }),
+    });
+  });
+});
+
+// ============================================================================
+// Fastify
+// ============================================================================
+
+describe('x402Fastify', () => {
+  function createReply() {
+    const reply = {
+      statusCode: 200,
+      headers: {} as Record<string, string>,
+      payload: undefined as unknown,
+      code: vi.fn((status: number) => { reply.statusCode = status; return reply; }),
+      header: vi.fn((name: string, value: string) => { reply.headers[name] = value; return reply; }),
+      getHeaders: () => ({ ...reply.headers }),
+      removeHeader: vi.fn((name: string) => { delete reply.headers[name]; return reply; }),
+      send: vi.fn((payload?: unknown) => { reply.payload = payload; return reply; }),
+    };
+    return reply;
+  }
+
+  function createRequest(headers: Record<string, string> = {}): FastifyRequestLike {
+    return { method: 'GET', url: '/report?x=1', headers };
+  }
+
+  it('should answer unpaid requests with 402', async () => {
+    const hooks = x402Fastify(baseConfig(createSettler()));
+    const reply = createReply();
+
+    const result = await hooks.preHandler(createRequest(), reply as FastifyReplyLike);
+
+    expect(result).toBe(reply);
+    expect(reply.code).toHaveBeenCalledWith(402);
+    expect(reply.headers[X402_HEADERS.PAYMENT_REQUIRED]).toEqual(expect.any(String));
+    expect(reply.payload).toEqual(expect.objectContaining({ error: 'Payment Required' }));
+  });
+
+  it('should attach the payment and settlement header to paid requests', async () => {
+    const hooks = x402Fastify(baseConfig(createSettler()));
+    const request = createRequest({ [X402_HEADERS.PAYMENT]: await paymentHeader() });
+    const reply = createReply();
+
+    expect(await hooks.preHandler(request, reply as FastifyReplyLike)).toBeUndefined();
+
+    expect(request.x402?.signer).toBe(payerAccount.address);
+    expect(reply.headers[X402_HEADERS.PAYMENT_RESPONSE]).toEqual(expect.any(String));
+    expect(reply.send).not.toHaveBeenCalled();
+  });
+
+  it('should settle in onSend in after-handler mode', async () => {
+    const settler = createSettler();
+    const hooks = x402Fastify({ ...baseConfig(settler), settlementMode: 'after-handler' });
+    const request = createRequest({ [X402_HEADERS.PAYMENT]: await paymentHeader() });
+    const reply = createReply();
+
+    await hooks.preHandler(request, reply as FastifyReplyLike);
+    expect(settler.settleX402).not.toHaveBeenCalled();
+
+    const payload = await hooks.onSend(request, reply as FastifyReplyLike, '{"ok":true}');
+    expect(payload).toBe('{"ok":true}');
+    expect(settler.settleX402).toHaveBeenCalledTimes(1);
+    expect(reply.headers[X402_HEADERS.PAYMENT_RESPONSE]).toEqual(expect.any(String));
+  });
+
+  it('should swap in a rejection when after-handler settlement fails', async () => {
+    const settler = createSettler();
+    settler.settleX402.mockRejectedValueOnce(Object.assign(new Error('reverted'), { code: 'TX_REVERTED' }));
+    const hooks = x402Fastify({ ...baseConfig(settler), settlementMode: 'after-handler' });
+    const request = createRequest({ [X402_HEADERS.PAYMENT]: await paymentHeader() });
+    const reply = createReply();
+
+    await hooks.preHandler(request, reply as FastifyReplyLike);
+    reply.header('set-cookie', 'session=paid');
+    reply.header('x-handler', 'yes');
+    reply.header('content-length', '11');
+    const payload = await hooks.onSend(request, reply as FastifyReplyLike, '{"ok":true}');
+
+    expect(reply.code).toHaveBeenCalledWith(402);
+    expect(JSON.parse(payload as string)).toEqual(
+      expect.objectContaining({ code: 'SETTLEMENT_FAILED', retryable: false })
+    );
+    expect(reply.headers).toEqual({ 'content-type': 'application/json; charset=utf-8' });
+  });
+});
+
+// ============================================================================
+// Hono
+// ============================================================================
+
+describe('x402Hono', () => {
+  function createContext(headers: Record<string, string> = {}) {
+    const values = new Map<string, unknown>();
+    const c = {
+      req: {
+        method: 'GET',
+        path: '/report',
+        url: 'http://localhost/report',
+        header: (name: string) => headers[name],
+      },
+      res: new Response(null, { status: 404 }),
+      header: vi.fn((name: string, value: string) => { c.res.headers.set(name, value); }),
+      set: (key: string, value: unknown) => { values.set(key, value); },
+      get: (key: string) => values.get(key),
+    };
+    return c;
+  }
+
+  it('should return a 402 response for unpaid requests', async () => {
+    const middleware = x402Hono(baseConfig(createSettler()));
+    const next = vi.fn();
+
+    const response = await middleware(createContext() as HonoContextLike, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response?.status).toBe(402);
+    expect(response?.headers.get(X402_HEADERS.PAYMENT_REQUIRED)).toEqual(expect.any(String));
+    expect(await response?.json()).toEqual(expect.objectContaining({ error: 'Payment Required' }));
+  });
+
+  it('should expose the payment with c.get and settle after next() in after-handler mode', async () => {
+    const settler = createSettler();
+    const middleware = x402Hono({ ...baseConfig(settler), settlementMode: 'after-handler' });
+    const c = createContext({ [X402_HEADERS.PAYMENT]: await paymentHeader() });
+    const next = vi.fn(async () => {
+      expect(settler.settleX402).not.toHaveBeenCalled();
+      c.res = new Response('{"ok":true}', { status: 200 });
+    });
+
+    await middleware(c as HonoContextLike, next);
+
+    expect((c.get('x402') as X402PaymentInfo).signer).toBe(payerAccount.address);
+    expect(settler.settleX402).toHaveBeenCalledTimes(1);
+    expect(c.res.headers.get(X402_HEADERS.PAYMENT_RESPONSE)).toEqual(expect.any(String));
+  });
+
+  it('should not settle when the handler fails', async () => {
+    const settler = createSettler();
+    const middleware = x402Hono({ ...baseConfig(settler), settlementMode: 'after-handler' });
+    const c = createContext({ [X402_HEADERS.PAYMENT]: await paymentHeader() });
+
+    await middleware(c as HonoContextLike, async () => {
+      c.res = new Response('oops', { status: 500 });
+    });
+
+    expect(settler.settleX402).not.toHaveBeenCalled();
+    expect(c.res.status).toBe(500);
+  });
+});
+
+// ============================================================================
+// Koa
+// ============================================================================
+
+describe('x402Koa', () => {
+  function createContext(headers: Record<string, string> = {}) {
+    const ctx = {
+      method: 'GET',
+      path: '/report',
+      originalUrl: '/report',
+      status: 404,
+      body: undefined as unknown,
+      state: {} as Record<string, unknown>,
+      responseHeaders: {} as Record<string, string>,
+      get response() { return { headers: { ...ctx.responseHeaders } }; },
+      get: (field: string) => headers[field] ?? '',
+      set: (field: string, value: string) => { ctx.responseHeaders[field] = value; },
+      remove: (field: string) => { delete ctx.responseHeaders[field]; },
+    };
+    return ctx;
+  }
+
+  it('should respond 402 to unpaid requests', async () => {
+    const middleware = x402Koa(baseConfig(createSettler()));
+    const ctx = createContext();
+    const next = vi.fn();
+
+    await middleware(ctx as KoaContextLike, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(ctx.status).toBe(402);
+    expect(ctx.body).toEqual(expect.objectContaining({ error: 'Payment Required' }));
+    expect(ctx.responseHeaders[X402_HEADERS.PAYMENT_REQUIRED]).toEqual(expect.any(String));
+  });
+
+  it('should attach the payment to ctx.state and settle before the handler', async () => {
+    const settler = createSettler();
+    const middleware = x402Koa(baseConfig(settler));
+    const ctx = createContext({ [X402_HEADERS.PAYMENT]: await paymentHeader() });
+
+    await middleware(ctx as KoaContextLike, async () => {
+      expect(settler.settleX402).toHaveBeenCalledTimes(1);
+      ctx.status = 200;
+    });
+
+    expect((ctx.state.x402 as X402PaymentInfo).signer).toBe(payerAccount.address);
+    expect(ctx.responseHeaders[X402_HEADERS.PAYMENT_RESPONSE]).toEqual(expect.any(String));
+  });
+
+  it('should replace the body when after-handler settlement fails', async () => {
+    const settler = createSettler();
+    settler.settleX402.mockResolvedValueOnce({ success: false, network: BASE_CAIP_ID });
+    const middleware = x402Koa({ ...baseConfig(settler), settlementMode: 'after-handler' });
+    const ctx = createContext({ [X402_HEADERS.PAYMENT]: await paymentHeader() });
+
+    await middleware(ctx as KoaContextLike, async () => {
+      ctx.status = 200;
+      ctx.body = { data: 'paid content' };
+      ctx.set('set-cookie', 'session=paid');
+      ctx.set('x-handler', 'yes');
+    });
+
+    expect(ctx.status).toBe(402);
+    expect(ctx.body).toEqual(expect.objectContaining({ code: 'SETTLEMENT_FAILED', retryable: true }));
+    expect(ctx.responseHeaders).not.toHaveProperty('set-cookie');
+    expect(ctx.responseHeaders).not.toHaveProperty('x-handler');
+  });
+});
+
+// ============================================================================
+// node:http
+// ============================================================================
+
+describe('x402Node', () => {
+  async function withServer(
+    listener: Parameters<typeof createServer>[1],
+    run: (url: string) => Promise<void>
+  ): Promise<void> {
+    const server = createServer(listener);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      await run(`http://127.0.0.1:${port}`);
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  it('should answer unpaid requests with 402 without running the handler', async () => {
+    const handler = vi.fn();
+    await withServer(x402Node(handler, baseConfig(createSettler())), async (url) => {
+      const response = await fetch(`${url}/report`);
+
+      expect(response.status).toBe(402);
+      expect(response.headers.get(X402_HEADERS.PAYMENT_REQUIRED)).toEqual(expect.any(String));
+      expect(await response.json()).toEqual(expect.objectContaining({
+        requirement: expect.objectContaining({ resource: '/report' }),
+      }));
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should run the handler for paid requests', async () => {
+    const listener = x402Node((req, res) => {
+      res.end(JSON.stringify({ signer: req.x402?.signer }));
+    }, baseConfig(createSettler()));
+
+    await withServer(listener, async (url) => {
+      const response = await fetch(`${url}/report`, {
+        headers: { [X402_HEADERS.PAYMENT]: await paymentHeader() },
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get(X402_HEADERS.PAYMENT_RESPONSE)).toEqual(expect.any(String));
+      expect(await response.json()).toEqual({ signer: payerAccount.address });
+    });
+  });
+
+  it('should hold the response until after-handler settlement', async () => {
+    const settler = createSettler();
+    const listener = x402Node((_req, res) => {
+      expect(settler.settleX402).not.toHaveBeenCalled();
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      res.end('paid content');
+    }, { ...baseConfig(settler), settlementMode: 'after-handler' });
+
+    await withServer(listener, async (url) => {
+      const response = await fetch(`${url}/report`, {
+        headers: { [X402_HEADERS.PAYMENT]: await paymentHeader() },
+      });
+
+      expect(await response.text()).toBe('paid content');
+      expect(response.headers.get(X402_HEADERS.PAYMENT_RESPONSE)).toEqual(expect.any(String));
+      expect(settler.settleX402).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should send the settlement failure without the handler\'s headers', async () => {
+    const settler = createSettler();
+    settler.settleX402.mockRejectedValueOnce(Object.assign(new Error('reverted'), { code: 'TX_REVERTED' }));
+    const listener = x402Node((_req, res) => {
+      res.setHeader('set-cookie', 'session=paid');
+      res.writeHead(200, { 'content-type': 'text/plain', 'cache-control': 'public, max-age=3600' });
+      res.end('paid content');
+    }, { ...baseConfig(settler), settlementMode: 'after-handler' });
+
+    await withServer(listener, async (url) => {
+      const response = await fetch(`${url}/report`, {
+        headers: { [X402_HEADERS.PAYMENT]: await paymentHeader() },
+      });
+
+      expect(response.status).toBe(402);
+      expect(response.headers.get('set-cookie')).toBeNull();
+      expect(response.headers.get('cache-control')).toBeNull();
+      expect(await response.json()).toEqual(expect.objectContaining({ code: 'SETTLEMENT_FAILED' }));
+    });
+  });
+
+  it('should turn handler errors into a 500', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = x402Node((_req: IncomingMessage) => {
+      throw new Error('boom');
+    }, { ...baseConfig(createSettler()), excludeRoutes: ['/health'] });
+
+    await withServer(listener, async (url) => {
+      const response = await fetch(`${url}/health`);
+      expect(response.status).toBe(500);
+    });
+    consoleSpy.mockRestore();
+  });
+});
+
+// ============================================================================
+// Web Request/Response
+// ============================================================================
+
+describe('withX402', () => {
+  const url = 'https://api.example.com/reports/42?format=json';
+
+  it('should return a 402 Response for unpaid requests', async () => {
+    const handler = vi.fn();
+    const route = withX402(handler, baseConfig(createSettler()));
+
+    const response = await route(new Request(url));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.status).toBe(402);
+    expect(JSON.parse(response.headers.get(X402_HEADERS.PAYMENT_REQUIRED)!)).toEqual(
+      expect.objectContaining({ resource: url })
+    );
+    expect(await response.json()).toEqual(expect.objectContaining({ error: 'Payment Required' }));
+  });
+
+  it('should pass the payment and the platform context to the handler', async () => {
+    const handler = vi.fn(async (_request: Request, context: { params: { id: string } } & { x402?: X402PaymentInfo }) =>
+      Response.json({ id: context.params.id, signer: context.x402?.signer })
+    );
+    const route = withX402(handler, baseConfig(createSettler()));
+
+    const response = await route(
+      new Request(url, { headers: { [X402_HEADERS.PAYMENT]: await paymentHeader() } }),
+      { params: { id: '42' } }
+    );
+
+    expect(await response.json()).toEqual({ id: '42', signer: payerAccount.address });
+    expect(response.headers.get(X402_HEADERS.PAYMENT_RESPONSE)).toEqual(expect.any(String));
+  });
+
+  it('should add headers to responses whose headers are immutable', async () => {
+    const route = withX402(async () => Response.redirect('https://example.com/done', 302), baseConfig(createSettler()));
+
+    const response = await route(
+      new Request(url, { headers: { [X402_HEADERS.PAYMENT]: await paymentHeader() } })
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://example.com/done');
+    expect(response.headers.get(X402_HEADERS.PAYMENT_RESPONSE)).toEqual(expect.any(String));
+  });
+
+  it('should pass free routes through without payment', async () => {
+    const route = withX402(
+      async (_request, context) => Response.json({ paid: context.x402 !== undefined }),
+      { ...baseConfig(createSettler()), excludeRoutes: ['/reports'] }
+    );
+
+    expect(await (await route(new Request(url))).json()).toEqual({ paid: false });
+  });
+
+  it('should settle after the handler and reject when settlement fails', async () => {
+    const settler = createSettler();
+    settler.settleX402.mockRejectedValueOnce(Object.assign(new Error('reverted'), { code: 'TX_REVERTED' }));
+    const route = withX402(async () => {
+      expect(settler.settleX402).not.toHaveBeenCalled();
+      return Response.json({ data: 'paid content' });
+    }, { ...baseConfig(settler), settlementMode: 'after-handler' });
+
+    const response = await route(
+      new Request(url, { headers: { [X402_HEADERS.PAYMENT]: await paymentHeader() } })
+    );
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toEqual(expect.objectContaining({ code: 'SETTLEMENT_FAILED' }));
+  });
+
+  it('should release the nonce when the handler throws', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce(new Response('ok'));
+    const route = withX402(handler, { ...baseConfig(createSettler()), settlementMode: 'after-handler' });
+    const header = await paymentHeader();
+
+    await expect(route(new Request(url, { headers: { [X402_HEADERS.PAYMENT]: header } })))
+      .rejects.toThrow('boom');
+    const retry = await route(new Request(url, { headers: { [X402_HEADERS.PAYMENT]: header } }));
+
+    expect(await retry.text()).toBe('ok');
+  });
+});
@@ -26,6 +26,7 @@ import {
   getNetworkConfig,
   isNetworkSupported,
   getSupportedNetworkIds,
+  getTokenByAddress,
 } from '../src/chains/index.js';
 
 // ============================================================================
@@ -378,3 +379,18 @@ describe('getSupportedNetworkIds', () => {
     expect(ids).toHaveLength(3);
   });
 });
+
+describe('getTokenByAddress', () => {
+  it('should find a token on its network, case-insensitively', () => {
+    expect(getTokenByAddress(BSC_CAIP_ID, BSC_USDT.address.toLowerCase())).toBe(BSC_USDT);
+    expect(getTokenByAddress('eip155:8453', '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913')?.symbol).toBe('USDC');
+  });
+
+  it('should not find a token on another network', () => {
+    expect(getTokenByAddress('eip155:8453', BSC_USDT.address)).toBeUndefined();
+  });
+
+  it('should return undefined for unsupported networks', () => {
+    expect(getTokenByAddress('eip155:999', BSC_USDT.address)).toBeUndefined();
+  });
+});
@@ -21,12 +21,14 @@ vi.mock('viem', () => ({
     waitForTransactionReceipt: vi.fn(),
   })),
   http: vi.fn(),
+  custom: vi.fn((provider: unknown) => ({ provider })),
   maxUint256: BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff'),
 }));
 
 vi.mock('viem/accounts', () => ({
   privateKeyToAccount: vi.fn((key: string) => ({
     address: '0x742d35Cc6634C0532925a3b844Bc9e7595f4b123' as `0x${string}`,
+    type: 'local',
   })),
 }));
 
@@ -44,11 +46,15 @@ import {
   PaymentVerificationError,
   UnsupportedNetworkError,
   Permit2ApprovalRequiredError,
+  PaymentDeclinedError,
+  BudgetExceededError,
+  InMemorySpendLedger,
 } from '../src/client/index.js';
-import { createWalletClient, createPublicClient } from 'viem';
+import { createWalletClient, createPublicClient, custom, http, type Account, type EIP1193Provider, type PublicClient, type WalletClient } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { X402_HEADERS, PERMIT2_ADDRESS } from '../src/types/index.js';
-import { BASE_CAIP_ID, BASE_USDC } from '../src/chains/base.js';
+import { BASE_CAIP_ID, BASE_USDC, BASE_DEFAULT_RPC } from '../src/chains/base.js';
+import { BSC_CAIP_ID, BSC_DEFAULT_RPC } from '../src/chains/bnb.js';
 
 // ============================================================================
 // Valid payment requirement with new accepts format
@@ -607,6 +613,542 @@ describe('X402Client', () => {
       expect(mockWalletClient.signTypedData).toHaveBeenCalled();
     });
   });
+
+  describe('signer sources', () => {
+    const PAYER = '0x9999999999999999999999999999999999999999' as `0x${string}`;
+    const erc3009Accept = {
+      ...validRequirement.accepts[0]!,
+      scheme: 'erc3009' as const,
+    };
+
+    function buildWallet(addresses: `0x${string}`[] = [PAYER]) {
+      return {
+        signTypedData: vi.fn().mockResolvedValue('0x' + 'ef'.repeat(65)),
+        writeContract: vi.fn(),
+        getAddresses: vi.fn().mockResolvedValue(addresses),
+        requestAddresses: vi.fn().mockResolvedValue([PAYER]),
+        getChainId: vi.fn().mockResolvedValue(8453),
+        switchChain: vi.fn(),
+        chain: { id: 8453 },
+      };
+    }
+
+    it('should sign with any viem Account', async () => {
+      const account = {
+        address: PAYER,
+        type: 'local',
+        signTypedData: vi.fn(),
+      } as unknown as Account;
+      const client = new X402Client({ account });
+
+      const payload = await client.signPayment(validRequirement.accepts[0]!);
+
+      expect(client.signerAddress).toBe(PAYER);
+      expect(payload.payer).toBe(PAYER);
+      expect(createWalletClient).toHaveBeenCalledWith(expect.objectContaining({ account }));
+      expect(mockWalletClient.signTypedData).toHaveBeenCalledWith(expect.objectContaining({ account }));
+      // Key-like signers still check the Permit2 allowance over RPC
+      expect(mockPublicClient.readContract).toHaveBeenCalled();
+    });
+
+    it('should prefer an account over a private key', () => {
+      const account = { address: PAYER, type: 'json-rpc' } as unknown as Account;
+      const client = new X402Client({
+        account,
+        privateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+      });
+
+      expect(privateKeyToAccount).not.toHaveBeenCalled();
+      expect(client.signerAddress).toBe(PAYER);
+    });
+
+    it('should sign with an existing WalletClient and its first address', async () => {
+      const wallet = buildWallet();
+      const client = new X402Client({ walletClient: wallet as unknown as WalletClient });
+
+      expect(client.canSign).toBe(true);
+      expect(client.signerAddress).toBeNull();
+
+      const payload = await client.signPayment(erc3009Accept);
+
+      expect(payload.payer).toBe(PAYER);
+      expect(client.signerAddress).toBe(PAYER);
+      expect(wallet.signTypedData).toHaveBeenCalledWith(expect.objectContaining({
+        account: PAYER,
+        primaryType: 'TransferWithAuthorization',
+      }));
+      expect(wallet.requestAddresses).not.toHaveBeenCalled();
+      expect(createWalletClient).not.toHaveBeenCalled();
+    });
+
+    it('should request wallet access when no address is exposed yet', async () => {
+      const wallet = buildWallet([]);
+      const client = new X402Client({ walletClient: wallet as unknown as WalletClient });
+
+      const payload = await client.signPayment(erc3009Accept);
+
+      expect(wallet.requestAddresses).toHaveBeenCalled();
+      expect(payload.payer).toBe(PAYER);
+    });
+
+    it('should reject a wallet that exposes no account', async () => {
+      const wallet = buildWallet([]);
+      wallet.requestAddresses.mockResolvedValue([]);
+      const client = new X402Client({ walletClient: wallet as unknown as WalletClient });
+
+      await expect(client.signPayment(erc3009Accept)).rejects.toThrow(PaymentVerificationError);
+    });
+
+    it('should sign through an EIP-1193 provider', async () => {
+      const provider = { request: vi.fn(), on: vi.fn(), removeListener: vi.fn() } as unknown as EIP1193Provider;
+      const wallet = buildWallet();
+      (createWalletClient as Mock).mockReturnValue(wallet);
+
+      const client = new X402Client({ provider });
+      const payload = await client.signPayment(erc3009Accept);
+
+      expect(custom).toHaveBeenCalledWith(provider);
+      expect(createWalletClient).toHaveBeenCalledWith(expect.objectContaining({ transport: { provider } }));
+      expect(payload.payer).toBe(PAYER);
+    });
+
+    it('should sign Permit2 without a public client, skipping the allowance check', async () => {
+      const wallet = buildWallet();
+      const client = new X402Client({ walletClient: wallet as unknown as WalletClient });
+
+      const payload = await client.signPayment(validRequirement.accepts[0]!);
+
+      expect(payload.scheme).toBe('permit2');
+      expect(createPublicClient).not.toHaveBeenCalled();
+      expect(mockPublicClient.readContract).not.toHaveBeenCalled();
+      await expect(
+        client.ensurePermit2Approval(BASE_USDC.address as `0x${string}`, BigInt('1000000'))
+      ).rejects.toThrow('no public client configured');
+    });
+
+    it('should check allowances with a given public client', async () => {
+      const wallet = buildWallet();
+      const publicClient = { readContract: vi.fn().mockResolvedValue(BigInt(0)), waitForTransactionReceipt: vi.fn() };
+      const client = new X402Client({
+        walletClient: wallet as unknown as WalletClient,
+        publicClient: publicClient as unknown as PublicClient,
+      });
+
+      await client.signPayment(validRequirement.accepts[0]!);
+
+      expect(publicClient.readContract).toHaveBeenCalledWith(expect.objectContaining({ args: [PAYER, PERMIT2_ADDRESS] }));
+      expect(wallet.writeContract).toHaveBeenCalledWith(expect.objectContaining({
+        functionName: 'approve',
+        account: PAYER,
+      }));
+    });
+  });
+
+  describe('per-network clients', () => {
+    const PRIVATE_KEY = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+    const bscAccept = {
+      ...validRequirement.accepts[0]!,
+      network: BSC_CAIP_ID,
+      token: '0x55d398326f99059fF775485246999027B3197955',
+    };
+
+    it('should create no clients until a network is used', () => {
+      new X402Client({ privateKey: PRIVATE_KEY, supportedNetworks: [BASE_CAIP_ID, BSC_CAIP_ID] });
+
+      expect(createWalletClient).not.toHaveBeenCalled();
+      expect(createPublicClient).not.toHaveBeenCalled();
+    });
+
+    it('should read and approve on the chain of the selected accept entry', async () => {
+      mockPublicClient.readContract.mockResolvedValue(BigInt(0));
+      const client = new X402Client({ privateKey: PRIVATE_KEY, supportedNetworks: [BASE_CAIP_ID, BSC_CAIP_ID] });
+
+      await client.signPayment(bscAccept);
+
+      expect(http).toHaveBeenCalledWith(BSC_DEFAULT_RPC);
+      expect(createPublicClient).toHaveBeenCalledWith(expect.objectContaining({ chain: { id: 56, name: 'BSC' } }));
+      expect(createWalletClient).toHaveBeenCalledWith(expect.objectContaining({ chain: { id: 56, name: 'BSC' } }));
+      expect(mockWalletClient.writeContract).toHaveBeenCalledWith(expect.objectContaining({
+        address: bscAccept.token,
+        chain: { id: 56, name: 'BSC' },
+      }));
+      expect(createPublicClient).not.toHaveBeenCalledWith(expect.objectContaining({ chain: { id: 8453, name: 'Base' } }));
+    });
+
+    it('should reuse the clients of a network once created', async () => {
+      const client = new X402Client({ privateKey: PRIVATE_KEY, supportedNetworks: [BSC_CAIP_ID] });
+
+      await client.signPayment(bscAccept);
+      await client.signPayment(bscAccept);
+
+      expect(createWalletClient).toHaveBeenCalledTimes(1);
+      expect(createPublicClient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use per-network RPC overrides', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        supportedNetworks: [BASE_CAIP_ID, BSC_CAIP_ID],
+        rpcUrls: { [BSC_CAIP_ID]: 'https://bsc.example/rpc' },
+      });
+
+      await client.signPayment(bscAccept);
+      await client.signPayment(validRequirement.accepts[0]!);
+
+      expect(http).toHaveBeenCalledWith('https://bsc.example/rpc');
+      expect(http).toHaveBeenCalledWith(BASE_DEFAULT_RPC);
+    });
+
+    it('should still apply rpcUrl to the first supported network only', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        supportedNetworks: [BASE_CAIP_ID, BSC_CAIP_ID],
+        rpcUrl: 'https://base.example/rpc',
+      });
+
+      await client.signPayment(validRequirement.accepts[0]!);
+      await client.signPayment(bscAccept);
+
+      expect(http).toHaveBeenCalledWith('https://base.example/rpc');
+      expect(http).toHaveBeenCalledWith(BSC_DEFAULT_RPC);
+    });
+
+    it('should pick public clients by network and switch wallets to the right chain', async () => {
+      const wallet = {
+        signTypedData: vi.fn().mockResolvedValue('0x' + 'ef'.repeat(65)),
+        writeContract: vi.fn(),
+        getAddresses: vi.fn().mockResolvedValue(['0x9999999999999999999999999999999999999999']),
+        requestAddresses: vi.fn(),
+        getChainId: vi.fn().mockResolvedValue(8453),
+        switchChain: vi.fn(),
+      };
+      const bscPublicClient = { readContract: vi.fn().mockResolvedValue(BigInt(0)), waitForTransactionReceipt: vi.fn() };
+      const client = new X402Client({
+        walletClient: wallet as unknown as WalletClient,
+        supportedNetworks: [BASE_CAIP_ID, BSC_CAIP_ID],
+        publicClient: { [BSC_CAIP_ID]: bscPublicClient as unknown as PublicClient },
+      });
+
+      await client.signPayment(validRequirement.accepts[0]!);
+      expect(bscPublicClient.readContract).not.toHaveBeenCalled();
+      expect(wallet.switchChain).not.toHaveBeenCalled();
+
+      await client.signPayment(bscAccept);
+      expect(bscPublicClient.readContract).toHaveBeenCalled();
+      expect(wallet.switchChain).toHaveBeenCalledWith({ id: 56 });
+      expect(wallet.writeContract).toHaveBeenCalledWith(expect.objectContaining({ chain: { id: 56, name: 'BSC' } }));
+    });
+
+    it('should check approvals on a given network', async () => {
+      const client = new X402Client({ privateKey: PRIVATE_KEY, supportedNetworks: [BASE_CAIP_ID, BSC_CAIP_ID] });
+
+      await client.ensurePermit2Approval(bscAccept.token as `0x${string}`, BigInt(1), BSC_CAIP_ID);
+
+      expect(createPublicClient).toHaveBeenCalledWith(expect.objectContaining({ chain: { id: 56, name: 'BSC' } }));
+    });
+  });
+
+  describe('accept selection', () => {
+    const PRIVATE_KEY = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+    const cheapPermit2 = { ...validRequirement.accepts[0]!, amount: '500000' };
+    const erc3009 = { ...validRequirement.accepts[0]!, scheme: 'erc3009' as const };
+    const bscOffer = {
+      ...validRequirement.accepts[0]!,
+      network: BSC_CAIP_ID,
+      token: '0x55d398326f99059fF775485246999027B3197955',
+      amount: '400000000000000000',
+    };
+
+    function respondWith(accepts: unknown[]) {
+      mockAxiosInstance.request.mockImplementation(async (config: { headers?: Record<string, string> }) =>
+        config.headers?.[X402_HEADERS.PAYMENT]
+          ? { status: 200, data: {} }
+          : { status: 402, headers: { [X402_HEADERS.PAYMENT_REQUIRED]: JSON.stringify({ ...validRequirement, accepts }) } }
+      );
+    }
+
+    /** readContract answering balanceOf and allowance per token address */
+    function mockTokenReads(balances: Record<string, bigint>, allowances: Record<string, bigint> = {}) {
+      mockPublicClient.readContract.mockImplementation(async ({ address, functionName }: { address: string; functionName: string }) =>
+        (functionName === 'balanceOf' ? balances : allowances)[address] ?? BigInt(0)
+      );
+    }
+
+    const sentPayment = () => JSON.parse(mockAxiosInstance.request.mock.calls[1]![0].headers[X402_HEADERS.PAYMENT]);
+
+    it('should skip offers the wallet cannot cover, across networks', async () => {
+      mockTokenReads({ [BASE_USDC.address]: BigInt(100), [bscOffer.token]: BigInt('1000000000000000000') }, {
+        [bscOffer.token]: BigInt('1000000000000000000'),
+      });
+      const client = new X402Client({ privateKey: PRIVATE_KEY, supportedNetworks: [BASE_CAIP_ID, BSC_CAIP_ID] });
+      respondWith([cheapPermit2, erc3009, bscOffer]);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(sentPayment().network).toBe(BSC_CAIP_ID);
+    });
+
+    it('should prefer an offer that needs no approval transaction', async () => {
+      mockTokenReads({ [BASE_USDC.address]: BigInt(10000000) });
+      const client = new X402Client({ privateKey: PRIVATE_KEY });
+      respondWith([cheapPermit2, erc3009]);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(sentPayment().scheme).toBe('erc3009');
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+
+    it('should pick the cheapest offer once approved', async () => {
+      mockTokenReads({ [BASE_USDC.address]: BigInt(10000000) }, { [BASE_USDC.address]: BigInt(10000000) });
+      const client = new X402Client({ privateKey: PRIVATE_KEY });
+      respondWith([erc3009, cheapPermit2]);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(sentPayment()).toMatchObject({ scheme: 'permit2', permit: { permitted: [{ amount: '497500' }, { amount: '2500' }] } });
+    });
+
+    it('should refuse to pay when no offer can be covered', async () => {
+      mockTokenReads({});
+      const client = new X402Client({ privateKey: PRIVATE_KEY });
+      respondWith([cheapPermit2, erc3009]);
+
+      await expect(client.fetch('https://api.example.com/paid')).rejects.toThrow('no accepted offer can be paid');
+      expect(mockWalletClient.signTypedData).not.toHaveBeenCalled();
+    });
+
+    it('should use a custom strategy', async () => {
+      const selectAccept = vi.fn((candidates: Array<{ scheme: string }>) => candidates[0] as never);
+      const client = new X402Client({ privateKey: PRIVATE_KEY, selectAccept });
+      respondWith([cheapPermit2, erc3009]);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(selectAccept).toHaveBeenCalledWith([cheapPermit2, erc3009], expect.objectContaining({
+        balanceOf: expect.any(Function),
+        needsApproval: expect.any(Function),
+        usdCost: expect.any(Function),
+      }));
+      expect(sentPayment().scheme).toBe('permit2');
+      expect(mockPublicClient.readContract).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep offers whose balance cannot be read', async () => {
+      const walletClient = { ...mockWalletClient, account: { address: validRequirement.accepts[0]!.recipient, type: 'local' } };
+      const client = new X402Client({ walletClient: walletClient as unknown as WalletClient });
+      respondWith([cheapPermit2, erc3009]);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(sentPayment().scheme).toBe('erc3009');
+    });
+  });
+
+  describe('approvePayment', () => {
+    const PRIVATE_KEY = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+    const erc3009Accept = {
+      ...validRequirement.accepts[0]!,
+      scheme: 'erc3009' as const,
+      amount: '500000',
+    };
+    const twoOffers = { ...validRequirement, accepts: [validRequirement.accepts[0]!, erc3009Accept] };
+
+    function respondWith(requirement: unknown) {
+      mockAxiosInstance.request.mockImplementation(async (config: { headers?: Record<string, string> }) =>
+        config.headers?.[X402_HEADERS.PAYMENT]
+          ? { status: 200, data: {} }
+          : { status: 402, headers: { [X402_HEADERS.PAYMENT_REQUIRED]: JSON.stringify(requirement) } }
+      );
+    }
+
+    const sentPayment = () => JSON.parse(mockAxiosInstance.request.mock.calls[1]![0].headers[X402_HEADERS.PAYMENT]);
+
+    it('should ask with the supported candidates and the default choice', async () => {
+      const approvePayment = vi.fn().mockResolvedValue({ approve: true });
+      const client = new X402Client({ privateKey: PRIVATE_KEY, approvePayment });
+      respondWith({
+        ...twoOffers,
+        accepts: [...twoOffers.accepts, { ...validRequirement.accepts[0]!, network: BSC_CAIP_ID }],
+      });
+
+      await client.post('https://api.example.com/paid', { q: 1 });
+
+      const [requirement, candidates, context] = approvePayment.mock.calls[0]!;
+      expect(requirement.accepts).toHaveLength(3);
+      expect(candidates).toHaveLength(2);
+      expect(context).toEqual({ url: 'https://api.example.com/paid', method: 'POST', selected: candidates[1] });
+      expect(sentPayment().scheme).toBe('erc3009');
+    });
+
+    it('should reject with PaymentDeclinedError, before signing, when declined', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        approvePayment: () => ({ approve: false, reason: 'user cancelled' }),
+      });
+      respondWith(validRequirement);
+
+      const error = await client.fetch('https://api.example.com/paid').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PaymentDeclinedError);
+      expect(error).toMatchObject({ code: 'PAYMENT_DECLINED', reason: 'user cancelled' });
+      expect(mockWalletClient.signTypedData).not.toHaveBeenCalled();
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pay the entry the hook chooses', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        approvePayment: (_requirement, candidates) => ({
+          approve: true,
+          accept: candidates.find(c => c.scheme === 'permit2'),
+        }),
+      });
+      respondWith(twoOffers);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(sentPayment().scheme).toBe('permit2');
+    });
+
+    it('should accept a copy of a candidate and pay the matching candidate', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        approvePayment: (_requirement, candidates) => ({
+          approve: true,
+          accept: structuredClone(candidates.find(c => c.scheme === 'permit2')),
+        }),
+      });
+      respondWith(twoOffers);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(sentPayment().scheme).toBe('permit2');
+      expect(sentPayment().permit.permitted[0].token).toBe(validRequirement.accepts[0]!.token);
+    });
+
+    it('should refuse an entry that is not among the candidates', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        approvePayment: () => ({ approve: true, accept: { ...validRequirement.accepts[0]!, amount: '1' } }),
+      });
+      respondWith(validRequirement);
+
+      await expect(client.fetch('https://api.example.com/paid')).rejects.toThrow(PaymentDeclinedError);
+      expect(mockWalletClient.signTypedData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('spending policy', () => {
+    const PRIVATE_KEY = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+    const paymentRequired = {
+      status: 402,
+      headers: { [X402_HEADERS.PAYMENT_REQUIRED]: JSON.stringify(validRequirement) },
+    };
+
+    it('should refuse a payment over the limit before signing', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        spendingPolicy: { maxPerPayment: { [BASE_USDC.address]: '999999' } },
+      });
+      mockAxiosInstance.request.mockResolvedValue(paymentRequired);
+
+      await expect(client.fetch('https://api.example.com/paid')).rejects.toThrow(BudgetExceededError);
+      expect(mockWalletClient.signTypedData).not.toHaveBeenCalled();
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record signed payments in the ledger and hold the budget across requests', async () => {
+      const spendLedger = new InMemorySpendLedger();
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        spendingPolicy: { maxPerHostHourly: { [BASE_USDC.address]: '1500000' } },
+        spendLedger,
+      });
+      mockAxiosInstance.request
+        .mockResolvedValueOnce(paymentRequired)
+        .mockResolvedValueOnce({ status: 200, data: {} })
+        .mockResolvedValueOnce(paymentRequired);
+
+      await client.fetch('https://api.example.com/paid');
+
+      expect(await spendLedger.total({ token: BASE_USDC.address, host: 'api.example.com' })).toBe(BigInt(1000000));
+      await expect(client.fetch('https://api.example.com/paid')).rejects.toMatchObject({
+        code: 'BUDGET_EXCEEDED',
+        rule: 'maxPerHostHourly',
+      });
+      expect(mockWalletClient.signTypedData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should match hosts against the request URL, including a baseURL', async () => {
+      mockAxiosInstance = Object.assign(mockAxiosInstance, { defaults: { baseURL: 'https://api.example.com' } });
+      const client = new X402Client({ privateKey: PRIVATE_KEY, spendingPolicy: { denyHosts: ['api.example.com'] } });
+      mockAxiosInstance.request.mockResolvedValue(paymentRequired);
+
+      await expect(client.get('/paid')).rejects.toMatchObject({ rule: 'host' });
+    });
+
+    it('should check concurrent payments one at a time', async () => {
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        spendingPolicy: { budget: { [BASE_USDC.address]: '1000000' } },
+      });
+      mockAxiosInstance.request.mockImplementation(async (config: { headers?: Record<string, string> }) =>
+        config.headers?.[X402_HEADERS.PAYMENT] ? { status: 200, data: {} } : paymentRequired
+      );
+
+      const results = await Promise.allSettled([
+        client.fetch('https://api.example.com/a'),
+        client.fetch('https://api.example.com/b'),
+      ]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(mockWalletClient.signTypedData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not record spend when the payment could not be signed', async () => {
+      const spendLedger = new InMemorySpendLedger();
+      const client = new X402Client({ privateKey: PRIVATE_KEY, spendLedger });
+      mockWalletClient.signTypedData.mockRejectedValueOnce(new Error('user rejected'));
+      mockAxiosInstance.request.mockResolvedValue(paymentRequired);
+
+      await expect(client.fetch('https://api.example.com/paid')).rejects.toThrow(PaymentRequiredError);
+      expect(await spendLedger.total({ token: BASE_USDC.address })).toBe(BigInt(0));
+    });
+
+    it('should refuse a relative URL without a baseURL before sending anything', async () => {
+      const client = new X402Client({ privateKey: PRIVATE_KEY, spendingPolicy: { denyHosts: ['evil.example'] } });
+
+      await expect(client.get('/paid')).rejects.toMatchObject({ code: 'INVALID_URL' });
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+
+    it('should apply the policy to signPayment and record its spend', async () => {
+      const spendLedger = new InMemorySpendLedger();
+      const client = new X402Client({
+        privateKey: PRIVATE_KEY,
+        spendingPolicy: { maxPerHostDaily: { [BASE_USDC.address]: '1500000' } },
+        spendLedger,
+      });
+      const accept = validRequirement.accepts[0]!;
+
+      await client.signPayment(accept, 'https://api.example.com/paid');
+
+      expect(await spendLedger.total({ token: BASE_USDC.address, host: 'api.example.com' })).toBe(BigInt(1000000));
+      await expect(client.signPayment(accept, 'https://api.example.com/paid')).rejects.toMatchObject({
+        rule: 'maxPerHostDaily',
+      });
+      expect(mockWalletClient.signTypedData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse signPayment without a URL when only some hosts are allowed', async () => {
+      const client = new X402Client({ privateKey: PRIVATE_KEY, spendingPolicy: { allowHosts: ['api.example.com'] } });
+      const accept = validRequirement.accepts[0]!;
+
+      await expect(client.signPayment(accept)).rejects.toMatchObject({ rule: 'host' });
+      await expect(client.signPayment(accept, 'https://api.example.com/paid')).resolves.toBeDefined();
+    });
+  });
 });
 
 describe('createX402Client', () => {
@@ -0,0 +1,342 @@
+/**
+ * DataStore conformance suite
+ *
+ * Behaviour every DataStore implementation must share. Call
+ * `describeDataStore` from a test file with a factory returning a fresh,
+ * empty store; see `datastore.test.ts` for the bundled stores.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import type { DataStore } from '../src/facilitator/db/schema.js';
+import type { Transaction, Webhook, WebhookDelivery } from '../src/facilitator/types.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const PAYER = '0x2222222222222222222222222222222222222222';
+const RECIPIENT = '0x3333333333333333333333333333333333333333';
+const OTHER = '0x5555555555555555555555555555555555555555';
+const TOKEN = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const TX_HASH = '0x' + 'ab'.repeat(32);
+
+// Fixed, millisecond-precision timestamps every backend can round-trip
+const T0 = new Date('2026-01-01T00:00:00.000Z').getTime();
+const at = (seconds: number) => new Date(T0 + seconds * 1000);
+
+function buildTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: randomUUID(),
+    from_address: PAYER,
+    to_address: RECIPIENT,
+    amount: '1000000000000000000',
+    token: TOKEN,
+    network: 'eip155:8453',
+    fee: '5000000000000000',
+    gas_cost: '0',
+    tx_hash: null,
+    status: 'pending',
+    created_at: at(0),
+    ...overrides,
+  };
+}
+
+function buildWebhook(overrides: Partial<Webhook> = {}): Webhook {
+  return {
+    id: randomUUID(),
+    recipient_address: RECIPIENT,
+    url: 'https://merchant.example/hooks',
+    secret: 'secret-secret-secret',
+    created_at: at(0),
+    ...overrides,
+  };
+}
+
+function buildDelivery(webhookId: string, overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+  return {
+    id: randomUUID(),
+    webhook_id: webhookId,
+    transaction_id: randomUUID(),
+    event: 'settlement.confirmed',
+    payload: '{"event":"settlement.confirmed"}',
+    status: 'pending',
+    attempts: 0,
+    last_status_code: null,
+    last_error: null,
+    next_attempt_at: at(0),
+    created_at: at(0),
+    delivered_at: null,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Suite
+// ============================================================================
+
+export interface DataStoreHarness {
+  store: DataStore;
+  /** Release connections or files once the test is done */
+  cleanup?: () => Promise<void> | void;
+}
+
+/**
+ * Register the conformance suite for one DataStore implementation.
+ *
+ * @example
+ * ```typescript
+ * describeDataStore('InMemoryStore', async () => ({ store: new InMemoryStore() }));
+ * ```
+ */
+export function describeDataStore(name: string, setup: () => Promise<DataStoreHarness>): void {
+  describe(`${name} (DataStore conformance)`, () => {
+    let store: DataStore;
+    let cleanup: DataStoreHarness['cleanup'];
+
+    beforeEach(async () => {
+      ({ store, cleanup } = await setup());
+    });
+
+    afterEach(async () => {
+      await cleanup?.();
+    });
+
+    // ------------------------------------------------------------------------
+    // Transactions
+    // ------------------------------------------------------------------------
+
+    describe('transactions', () => {
+      it('should read back what was written', async () => {
+        const tx = buildTransaction();
+        await store.createTransaction(tx);
+
+        expect(await store.getTransaction(tx.id)).toEqual(tx);
+      });
+
+      it('should return null for unknown ids', async () => {
+        expect(await store.getTransaction(randomUUID())).toBeNull();
+        expect(await store.getTransaction('not-a-uuid')).toBeNull();
+      });
+
+      it('should update status and keep the tx hash when none is given', async () => {
+        const tx = buildTransaction();
+        await store.createTransaction(tx);
+
+        await store.updateTransactionStatus(tx.id, 'submitted', TX_HASH);
+        await store.updateTransactionStatus(tx.id, 'confirmed');
+
+        const stored = await store.getTransaction(tx.id);
+        expect(stored?.status).toBe('confirmed');
+        expect(stored?.tx_hash).toBe(TX_HASH);
+      });
+
+      it('should store gas cost as written', async () => {
+        const tx = buildTransaction();
+        await store.createTransaction(tx);
+
+        await store.updateTransactionGas(tx.id, '0.000123');
+
+        expect((await store.getTransaction(tx.id))?.gas_cost).toBe('0.000123');
+      });
+
+      it('should count every transaction', async () => {
+        await store.createTransaction(buildTransaction());
+        await store.createTransaction(buildTransaction({ from_address: OTHER, to_address: OTHER }));
+
+        expect(await store.getTransactionCount()).toBe(2);
+      });
+
+      it('should page history by address, newest first', async () => {
+        for (let i = 0; i < 5; i++) {
+          await store.createTransaction(buildTransaction({ created_at: at(-i) }));
+        }
+        await store.createTransaction(buildTransaction({ from_address: OTHER, to_address: OTHER }));
+
+        const page = await store.getTransactionsByAddress(RECIPIENT, 2, 1);
+
+        expect(page.total).toBe(5);
+        expect(page.transactions.map(tx => tx.created_at)).toEqual([at(-1), at(-2)]);
+      });
+    });
+
+    describe('getTransactionByHash', () => {
+      it('should find a transaction by its tx hash', async () => {
+        const tx = buildTransaction({ tx_hash: TX_HASH, status: 'submitted' });
+        await store.createTransaction(buildTransaction());
+        await store.createTransaction(tx);
+
+        expect(await store.getTransactionByHash(TX_HASH)).toEqual(tx);
+      });
+
+      it('should see a hash set by a status update', async () => {
+        const tx = buildTransaction();
+        await store.createTransaction(tx);
+
+        await store.updateTransactionStatus(tx.id, 'submitted', TX_HASH);
+
+        expect((await store.getTransactionByHash(TX_HASH))?.id).toBe(tx.id);
+      });
+
+      it('should return null for unknown hashes', async () => {
+        await store.createTransaction(buildTransaction());
+
+        expect(await store.getTransactionByHash(TX_HASH)).toBeNull();
+      });
+    });
+
+    describe('findTransactions', () => {
+      let txs: Transaction[];
+
+      beforeEach(async () => {
+        txs = [
+          buildTransaction({ status: 'confirmed', created_at: at(0) }),
+          buildTransaction({ status: 'failed', created_at: at(10) }),
+          buildTransaction({ status: 'pending', created_at: at(20) }),
+          buildTransaction({ status: 'submitted', created_at: at(30), from_address: OTHER, to_address: OTHER }),
+        ];
+        for (const tx of txs) await store.createTransaction(tx);
+      });
+
+      const ids = (result: { transactions: Transaction[] }) => result.transactions.map(tx => tx.id);
+
+      it('should return everything, newest first, without a filter', async () => {
+        const result = await store.findTransactions();
+
+        expect(result.total).toBe(4);
+        expect(ids(result)).toEqual([txs[3]!.id, txs[2]!.id, txs[1]!.id, txs[0]!.id]);
+      });
+
+      it('should filter by one status or several', async () => {
+        expect(ids(await store.findTransactions({ status: 'failed' }))).toEqual([txs[1]!.id]);
+        expect(ids(await store.findTransactions({ status: ['pending', 'submitted'] })))
+          .toEqual([txs[3]!.id, txs[2]!.id]);
+      });
+
+      it('should treat an empty status list as no filter', async () => {
+        expect((await store.findTransactions({ status: [] })).total).toBe(4);
+      });
+
+      it('should filter by creation time, from inclusive and to exclusive', async () => {
+        const result = await store.findTransactions({ from: at(10), to: at(30) });
+
+        expect(ids(result)).toEqual([txs[2]!.id, txs[1]!.id]);
+      });
+
+      it('should combine address, status and range', async () => {
+        const result = await store.findTransactions({
+          address: RECIPIENT,
+          status: ['pending', 'submitted', 'confirmed'],
+          from: at(0),
+        });
+
+        expect(ids(result)).toEqual([txs[2]!.id, txs[0]!.id]);
+      });
+
+      it('should page after filtering and report the filtered total', async () => {
+        const result = await store.findTransactions({ address: PAYER, limit: 1, offset: 1 });
+
+        expect(result.total).toBe(3);
+        expect(ids(result)).toEqual([txs[1]!.id]);
+      });
+
+      it('should filter by the orphan flag, keeping the row as written', async () => {
+        await store.markTransactionOrphaned(txs[2]!.id, at(60));
+        await store.markTransactionOrphaned(txs[2]!.id, at(120));
+
+        expect(ids(await store.findTransactions({ orphaned: true }))).toEqual([txs[2]!.id]);
+        expect(ids(await store.findTransactions({ status: 'pending', orphaned: false }))).toEqual([]);
+        expect((await store.findTransactions({ orphaned: false })).total).toBe(3);
+        expect(await store.getTransaction(txs[2]!.id)).toEqual(txs[2]);
+      });
+
+      it('should pass values as parameters', async () => {
+        const result = await store.findTransactions({ address: "0x' OR '1'='1" });
+
+        expect(result.total).toBe(0);
+        expect(await store.getTransactionCount()).toBe(4);
+      });
+    });
+
+    // ------------------------------------------------------------------------
+    // Webhooks
+    // ------------------------------------------------------------------------
+
+    describe('webhooks', () => {
+      it('should look webhooks up by id and by recipient, case-insensitively', async () => {
+        const webhook = buildWebhook({ recipient_address: TOKEN.toLowerCase() });
+        await store.createWebhook(webhook);
+
+        expect(await store.getWebhook(webhook.id)).toEqual(webhook);
+        expect(await store.getWebhooksByRecipient(TOKEN)).toEqual([webhook]);
+        expect(await store.getWebhooksByRecipient(OTHER)).toEqual([]);
+        expect(await store.getWebhook(randomUUID())).toBeNull();
+      });
+
+      it('should read deliveries back and update them partially', async () => {
+        const webhook = buildWebhook();
+        await store.createWebhook(webhook);
+        const delivery = buildDelivery(webhook.id);
+        await store.createWebhookDelivery(delivery);
+
+        expect(await store.getWebhookDelivery(delivery.id)).toEqual(delivery);
+
+        await store.updateWebhookDelivery(delivery.id, {
+          status: 'delivered',
+          attempts: 1,
+          last_status_code: 200,
+          next_attempt_at: null,
+          delivered_at: at(5),
+        });
+
+        expect(await store.getWebhookDelivery(delivery.id)).toEqual({
+          ...delivery,
+          status: 'delivered',
+          attempts: 1,
+          last_status_code: 200,
+          next_attempt_at: null,
+          delivered_at: at(5),
+        });
+      });
+
+      it('should list deliveries newest first, by status and up to a limit', async () => {
+        const webhook = buildWebhook();
+        await store.createWebhook(webhook);
+        const deliveries = [
+          buildDelivery(webhook.id, { created_at: at(0) }),
+          buildDelivery(webhook.id, { created_at: at(10), status: 'failed' }),
+          buildDelivery(webhook.id, { created_at: at(20) }),
+        ];
+        for (const delivery of deliveries) await store.createWebhookDelivery(delivery);
+
+        const all = await store.getWebhookDeliveries();
+        const failed = await store.getWebhookDeliveries({ status: 'failed' });
+        const latest = await store.getWebhookDeliveries({ limit: 1 });
+
+        expect(all.map(d => d.id)).toEqual([deliveries[2]!.id, deliveries[1]!.id, deliveries[0]!.id]);
+        expect(failed.map(d => d.id)).toEqual([deliveries[1]!.id]);
+        expect(latest.map(d => d.id)).toEqual([deliveries[2]!.id]);
+      });
+
+      it('should list due pending deliveries, most overdue first', async () => {
+        const webhook = buildWebhook();
+        await store.createWebhook(webhook);
+        const deliveries = [
+          buildDelivery(webhook.id, { created_at: at(0), next_attempt_at: at(50) }),
+          buildDelivery(webhook.id, { created_at: at(10), next_attempt_at: at(30) }),
+          buildDelivery(webhook.id, { created_at: at(20), next_attempt_at: at(40) }),
+          buildDelivery(webhook.id, { created_at: at(30), next_attempt_at: at(100) }),
+          buildDelivery(webhook.id, { created_at: at(40), next_attempt_at: null }),
+          buildDelivery(webhook.id, { created_at: at(50), next_attempt_at: at(0), status: 'failed' }),
+        ];
+        for (const delivery of deliveries) await store.createWebhookDelivery(delivery);
+
+        const due = await store.getDueWebhookDeliveries(at(50), 10);
+        const first = await store.getDueWebhookDeliveries(at(50), 2);
+
+        expect(due.map(d => d.id)).toEqual([deliveries[1]!.id, deliveries[2]!.id, deliveries[0]!.id]);
+        expect(first.map(d => d.id)).toEqual([deliveries[1]!.id, deliveries[2]!.id]);
+      });
+    });
+  });
+}
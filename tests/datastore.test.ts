@@ -0,0 +1,34 @@
+import { randomUUID } from 'crypto';
+import { newDb } from 'pg-mem';
+import Database from 'better-sqlite3';
+import { InMemoryStore } from '../src/facilitator/db/schema.js';
+import { PostgresStore, type PgPool } from '../src/facilitator/db/postgres.js';
+import { SqliteStore, type SqliteDatabase } from '../src/facilitator/db/sqlite.js';
+import { describeDataStore } from './datastore-conformance.js';
+
+// ============================================================================
+// Bundled DataStore implementations
+// ============================================================================
+
+describeDataStore('InMemoryStore', async () => ({ store: new InMemoryStore() }));
+
+describeDataStore('PostgresStore', async () => {
+  // pg-mem does not model DECIMAL precision; the schema still declares it
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.registerFunction({
+    name: 'gen_random_uuid',
+    returns: 'uuid' as never,
+    implementation: randomUUID,
+    impure: true,
+  });
+  const { Pool } = db.adapters.createPg();
+  const store = new PostgresStore(new Pool() as unknown as PgPool);
+  await store.migrate();
+  return { store, cleanup: () => store.close() };
+});
+
+describeDataStore('SqliteStore', async () => {
+  const store = new SqliteStore(new Database(':memory:') as unknown as SqliteDatabase);
+  store.migrate();
+  return { store, cleanup: () => store.close() };
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { newDb } from 'pg-mem';
+import type { PublicClient, WalletClient } from 'viem';
+import { PostgresStore, type PgPool } from '../src/facilitator/db/postgres.js';
+import { InMemoryStore } from '../src/facilitator/db/schema.js';
+import { SettlementService } from '../src/facilitator/services/settlement.js';
+import { createStore } from '../src/facilitator/config.js';
+import type { Transaction, WebhookDelivery } from '../src/facilitator/types.js';
+
+// ============================================================================
+// Mock Constants
+// ============================================================================
+
+const MOCK_TREASURY = '0x1111111111111111111111111111111111111111' as `0x${string}`;
+const MOCK_PAYER = '0x2222222222222222222222222222222222222222' as `0x${string}`;
+const MOCK_RECIPIENT = '0x3333333333333333333333333333333333333333' as `0x${string}`;
+const MOCK_SETTLEMENT_ADDR = '0x4444444444444444444444444444444444444444' as `0x${string}`;
+const MOCK_TOKEN = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`;
+const MOCK_TX_HASH = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+
+// ============================================================================
+// In-process Postgres
+// ============================================================================
+
+/** Fresh pg-mem database behind a `pg`-compatible pool */
+function createPool(): PgPool {
+  // pg-mem does not model DECIMAL precision; the schema still declares it
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.registerFunction({
+    name: 'gen_random_uuid',
+    returns: 'uuid' as never,
+    implementation: randomUUID,
+    impure: true,
+  });
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PgPool;
+}
+
+function buildTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: randomUUID(),
+    from_address: MOCK_PAYER,
+    to_address: MOCK_RECIPIENT,
+    amount: '1000000000000000000',
+    token: MOCK_TOKEN,
+    network: 'eip155:8453',
+    fee: '5000000000000000',
+    gas_cost: '0',
+    tx_hash: null,
+    status: 'pending',
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// PostgresStore Tests
+// ============================================================================
+
+describe('PostgresStore', () => {
+  let pool: PgPool;
+  let store: PostgresStore;
+
+  beforeEach(async () => {
+    pool = createPool();
+    store = new PostgresStore(pool);
+    await store.migrate();
+  });
+
+  describe('migrations', () => {
+    it('should record applied migrations', async () => {
+      const { rows } = await pool.query<{ version: number }>('SELECT version FROM schema_migrations');
+
+      expect(rows.map(row => Number(row.version)).sort()).toEqual([1, 2, 3]);
+    });
+
+    it('should be safe to run again', async () => {
+      await store.createTransaction(buildTransaction());
+
+      await store.migrate();
+
+      expect(await store.getTransactionCount()).toBe(1);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should read back what was written', async () => {
+      const tx = buildTransaction({ token: MOCK_TOKEN });
+      await store.createTransaction(tx);
+
+      const stored = await store.getTransaction(tx.id);
+
+      expect(stored).toEqual(expect.objectContaining({
+        id: tx.id,
+        from_address: MOCK_PAYER,
+        to_address: MOCK_RECIPIENT,
+        amount: '1000000000000000000',
+        fee: '5000000000000000',
+        token: MOCK_TOKEN,
+        status: 'pending',
+        tx_hash: null,
+      }));
+      expect(stored!.created_at.getTime()).toBe(tx.created_at.getTime());
+    });
+
+    it('should return null for unknown or malformed ids', async () => {
+      expect(await store.getTransaction(randomUUID())).toBeNull();
+      expect(await store.getTransaction('not-a-uuid')).toBeNull();
+    });
+
+    it('should update status and keep the tx hash when none is given', async () => {
+      const tx = buildTransaction();
+      await store.createTransaction(tx);
+
+      await store.updateTransactionStatus(tx.id, 'submitted', MOCK_TX_HASH);
+      await store.updateTransactionStatus(tx.id, 'confirmed');
+
+      const stored = await store.getTransaction(tx.id);
+      expect(stored?.status).toBe('confirmed');
+      expect(stored?.tx_hash).toBe(MOCK_TX_HASH);
+    });
+
+    it('should store gas cost as written', async () => {
+      const tx = buildTransaction();
+      await store.createTransaction(tx);
+
+      await store.updateTransactionGas(tx.id, '0.000123');
+
+      expect((await store.getTransaction(tx.id))?.gas_cost).toBe('0.000123');
+    });
+
+    it('should page history by address, newest first', async () => {
+      const now = Date.now();
+      for (let i = 0; i < 5; i++) {
+        await store.createTransaction(buildTransaction({ created_at: new Date(now - i * 1000) }));
+      }
+      await store.createTransaction(buildTransaction({ from_address: MOCK_TREASURY, to_address: MOCK_TREASURY }));
+
+      const page = await store.getTransactionsByAddress(MOCK_RECIPIENT, 2, 1);
+
+      expect(page.total).toBe(5);
+      expect(page.transactions).toHaveLength(2);
+      expect(page.transactions[0]!.created_at.getTime()).toBe(now - 1000);
+      expect(page.transactions[1]!.created_at.getTime()).toBe(now - 2000);
+      expect(await store.getTransactionCount()).toBe(6);
+    });
+
+    it('should pass values as parameters', async () => {
+      const tx = buildTransaction({ to_address: "0x'; DROP TABLE transactions; --" });
+      await store.createTransaction(tx);
+
+      const page = await store.getTransactionsByAddress(tx.to_address);
+
+      expect(page.total).toBe(1);
+      expect(await store.getTransactionCount()).toBe(1);
+    });
+  });
+
+  describe('webhooks', () => {
+    function buildDelivery(webhookId: string, overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+      return {
+        id: randomUUID(),
+        webhook_id: webhookId,
+        transaction_id: randomUUID(),
+        event: 'settlement.confirmed',
+        payload: '{"event":"settlement.confirmed"}',
+        status: 'pending',
+        attempts: 0,
+        last_status_code: null,
+        last_error: null,
+        next_attempt_at: new Date(),
+        created_at: new Date(),
+        delivered_at: null,
+        ...overrides,
+      };
+    }
+
+    it('should store webhooks by lowercased recipient', async () => {
+      const webhook = {
+        id: randomUUID(),
+        recipient_address: MOCK_TOKEN.toLowerCase(),
+        url: 'https://merchant.example/hooks',
+        secret: 'secret-secret-secret',
+        created_at: new Date(),
+      };
+      await store.createWebhook(webhook);
+
+      expect(await store.getWebhooksByRecipient(MOCK_TOKEN)).toEqual([webhook]);
+      expect(await store.getWebhook(webhook.id)).toEqual(webhook);
+      expect(await store.getWebhook('missing')).toBeNull();
+    });
+
+    it('should update deliveries partially and filter them by status', async () => {
+      const webhookId = randomUUID();
+      await store.createWebhook({
+        id: webhookId,
+        recipient_address: MOCK_RECIPIENT,
+        url: 'https://merchant.example/hooks',
+        secret: 'secret-secret-secret',
+        created_at: new Date(),
+      });
+      const delivery = buildDelivery(webhookId);
+      await store.createWebhookDelivery(delivery);
+      await store.createWebhookDelivery(buildDelivery(webhookId));
+
+      await store.updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        attempts: 3,
+        last_status_code: 500,
+        last_error: 'Receiver answered 500',
+        next_attempt_at: null,
+      });
+
+      const stored = await store.getWebhookDelivery(delivery.id);
+      expect(stored).toEqual(expect.objectContaining({
+        status: 'failed',
+        attempts: 3,
+        last_status_code: 500,
+        next_attempt_at: null,
+        payload: delivery.payload,
+      }));
+      expect(await store.getWebhookDeliveries({ status: 'failed' })).toHaveLength(1);
+      expect(await store.getWebhookDeliveries()).toHaveLength(2);
+    });
+  });
+
+  it('should back a SettlementService', async () => {
+    const settlement = new SettlementService(store, {
+      treasuryAddress: MOCK_TREASURY,
+      settlementAddresses: { 'eip155:8453': MOCK_SETTLEMENT_ADDR },
+      publicClients: {
+        'eip155:8453': {
+          waitForTransactionReceipt: async () => ({
+            status: 'success', gasUsed: BigInt(65_000), effectiveGasPrice: BigInt(76_923_077),
+          }),
+        } as unknown as PublicClient,
+      },
+      walletClients: {
+        'eip155:8453': {
+          writeContract: async () => MOCK_TX_HASH,
+          account: { address: MOCK_TREASURY },
+          chain: { id: 8453 },
+        } as unknown as WalletClient,
+      },
+    });
+
+    const result = await settlement.settleX402({
+      scheme: 'permit2',
+      network: 'eip155:8453',
+      permit: {
+        permitted: [
+          { token: MOCK_TOKEN, amount: '9950000' },
+          { token: MOCK_TOKEN, amount: '50000' },
+        ],
+        nonce: '1',
+        deadline: Math.floor(Date.now() / 1000) + 300,
+      },
+      witness: { recipient: MOCK_RECIPIENT, feeBps: 50 },
+      spender: MOCK_SETTLEMENT_ADDR,
+      payer: MOCK_PAYER,
+      signature: ('0x' + 'cd'.repeat(65)) as `0x${string}`,
+    });
+
+    expect(await settlement.getSettlement(result.settlementId!)).toEqual(expect.objectContaining({
+      status: 'confirmed',
+      txHash: MOCK_TX_HASH,
+      amount: '10000000',
+    }));
+  });
+});
+
+// ============================================================================
+// createStore Tests
+// ============================================================================
+
+describe('createStore', () => {
+  it('should keep history in memory without a DATABASE_URL', async () => {
+    expect(await createStore({})).toBeInstanceOf(InMemoryStore);
+  });
+
+  it('should reject unsupported URL schemes', async () => {
+    await expect(createStore({ databaseUrl: 'mysql://localhost/x402' }))
+      .rejects.toThrow('Unsupported DATABASE_URL scheme: mysql');
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TransactionReceiptNotFoundError, type PublicClient, type WalletClient } from 'viem';
+import { InMemoryStore } from '../src/facilitator/db/schema.js';
+import { SettlementService } from '../src/facilitator/services/settlement.js';
+import { SettlementReconciler } from '../src/facilitator/services/reconciler.js';
+import type { Transaction } from '../src/facilitator/types.js';
+import type { Permit2Payload } from '../src/types/index.js';
+
+// ============================================================================
+// Mock Constants
+// ============================================================================
+
+const MOCK_TREASURY = '0x1111111111111111111111111111111111111111' as `0x${string}`;
+const MOCK_PAYER = '0x2222222222222222222222222222222222222222' as `0x${string}`;
+const MOCK_RECIPIENT = '0x3333333333333333333333333333333333333333' as `0x${string}`;
+const MOCK_SETTLEMENT_ADDR = '0x4444444444444444444444444444444444444444' as `0x${string}`;
+const MOCK_TOKEN = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`;
+const HOUR_MS = 60 * 60 * 1000;
+
+const hash = (byte: string) => ('0x' + byte.repeat(32)) as `0x${string}`;
+
+function buildTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    from_address: MOCK_PAYER,
+    to_address: MOCK_RECIPIENT,
+    amount: '10000000',
+    token: MOCK_TOKEN,
+    network: 'eip155:8453',
+    fee: '50000',
+    gas_cost: '0',
+    tx_hash: null,
+    status: 'pending',
+    created_at: new Date(Date.now() - HOUR_MS),
+    ...overrides,
+  };
+}
+
+function buildPermit2Payload(): Permit2Payload {
+  return {
+    scheme: 'permit2',
+    network: 'eip155:8453',
+    permit: {
+      permitted: [
+        { token: MOCK_TOKEN, amount: '9950000' },
+        { token: MOCK_TOKEN, amount: '50000' },
+      ],
+      nonce: '1',
+      deadline: Math.floor(Date.now() / 1000) + 300,
+    },
+    witness: { recipient: MOCK_RECIPIENT, feeBps: 50 },
+    spender: MOCK_SETTLEMENT_ADDR,
+    payer: MOCK_PAYER,
+    signature: ('0x' + 'cd'.repeat(65)) as `0x${string}`,
+  };
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+/** Receipts by tx hash; unknown hashes are unmined */
+function setup(
+  receipts: Record<string, 'success' | 'reverted' | Error> = {},
+  writeContract: () => Promise<`0x${string}`> = async () => hash('ee')
+) {
+  const store = new InMemoryStore();
+  const onStatusChange = vi.fn();
+  const getTransactionReceipt = vi.fn(async ({ hash: txHash }: { hash: `0x${string}` }) => {
+    const receipt = receipts[txHash];
+    if (receipt instanceof Error) throw receipt;
+    if (!receipt) throw new TransactionReceiptNotFoundError({ hash: txHash });
+    return { status: receipt, gasUsed: BigInt(65_000), effectiveGasPrice: BigInt(76_923_077) };
+  });
+  const publicClient = {
+    getTransactionReceipt,
+    // Settlements started in these tests never see their receipt
+    waitForTransactionReceipt: () => new Promise(() => undefined),
+  } as unknown as PublicClient;
+  const walletClient = {
+    writeContract,
+    account: { address: MOCK_TREASURY },
+    chain: { id: 8453 },
+  } as unknown as WalletClient;
+
+  const settlement = new SettlementService(store, {
+    treasuryAddress: MOCK_TREASURY,
+    settlementAddresses: { 'eip155:8453': MOCK_SETTLEMENT_ADDR },
+    publicClients: { 'eip155:8453': publicClient },
+    walletClients: { 'eip155:8453': walletClient },
+    onStatusChange,
+  });
+
+  return { store, settlement, onStatusChange, getTransactionReceipt };
+}
+
+// ============================================================================
+// SettlementReconciler Tests
+// ============================================================================
+
+describe('SettlementReconciler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should resolve submitted rows from their receipts', async () => {
+    const { store, settlement, onStatusChange } = setup({ [hash('01')]: 'success', [hash('02')]: 'reverted' });
+    // One creation time, so rows are visited in insertion order
+    const created_at = new Date(Date.now() - HOUR_MS);
+    await store.createTransaction(buildTransaction({ id: 'mined', status: 'submitted', tx_hash: hash('01'), created_at }));
+    await store.createTransaction(buildTransaction({ id: 'reverted', status: 'submitted', tx_hash: hash('02'), created_at }));
+    await store.createTransaction(buildTransaction({ id: 'unmined', status: 'submitted', tx_hash: hash('03'), created_at }));
+
+    const report = await new SettlementReconciler(store, settlement).run();
+
+    expect(report).toEqual({ confirmed: ['mined'], failed: ['reverted'], orphaned: [], unresolved: ['unmined'] });
+    expect(await store.getTransaction('mined')).toEqual(expect.objectContaining({ status: 'confirmed', gas_cost: '0.02' }));
+    expect((await store.getTransaction('reverted'))?.status).toBe('failed');
+    expect((await store.getTransaction('unmined'))?.status).toBe('submitted');
+    expect(onStatusChange.mock.calls.map(([tx]) => [tx.id, tx.status])).toEqual([
+      ['mined', 'confirmed'],
+      ['reverted', 'failed'],
+    ]);
+  });
+
+  it('should flag old pending rows as orphaned without failing them', async () => {
+    const { store, settlement, onStatusChange } = setup();
+    await store.createTransaction(buildTransaction({ id: 'stale' }));
+    await store.createTransaction(buildTransaction({ id: 'fresh', created_at: new Date() }));
+
+    const report = await new SettlementReconciler(store, settlement).run();
+
+    expect(report.orphaned).toEqual(['stale']);
+    expect((await store.getTransaction('stale'))?.status).toBe('pending');
+    expect((await store.getTransaction('fresh'))?.status).toBe('pending');
+    expect(onStatusChange).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('stale'));
+  });
+
+  it('should persist the orphan flag and warn about each row once', async () => {
+    const { store, settlement } = setup();
+    await store.createTransaction(buildTransaction({ id: 'stale' }));
+    const reconciler = new SettlementReconciler(store, settlement);
+
+    await reconciler.run();
+    const second = await reconciler.run();
+
+    expect(second.orphaned).toEqual([]);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect((await settlement.getOrphanedSettlements()).settlements.map(s => s.settlementId)).toEqual(['stale']);
+  });
+
+  it('should not flag a pending row whose submit is still in flight', async () => {
+    // The broadcast never returns
+    const { store, settlement } = setup({}, () => new Promise(() => undefined));
+    void settlement.settleX402(buildPermit2Payload());
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const { transactions } = await store.findTransactions({ status: 'pending' });
+
+    const report = await new SettlementReconciler(store, settlement, { orphanAfterMs: 0 }).run();
+
+    expect(report.orphaned).toEqual([]);
+    expect(report.unresolved).toEqual([transactions[0]!.id]);
+    expect((await store.getTransaction(transactions[0]!.id))?.status).toBe('pending');
+  });
+
+  it('should leave young submitted rows alone', async () => {
+    const { store, settlement, getTransactionReceipt } = setup({ [hash('01')]: 'success' });
+    await store.createTransaction(buildTransaction({ status: 'submitted', tx_hash: hash('01'), created_at: new Date() }));
+
+    const report = await new SettlementReconciler(store, settlement).run();
+
+    expect(report.confirmed).toEqual([]);
+    expect(getTransactionReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should skip settlements this process is still confirming', async () => {
+    const { store, settlement, getTransactionReceipt } = setup();
+    const { settlementId } = await settlement.settleX402(buildPermit2Payload(), { mode: 'async' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const report = await new SettlementReconciler(store, settlement, { minAgeMs: 0 }).run();
+
+    expect(report.unresolved).toEqual([settlementId]);
+    expect(getTransactionReceipt).not.toHaveBeenCalled();
+    expect((await store.getTransaction(settlementId!))?.status).toBe('submitted');
+  });
+
+  it('should report lookup errors as unresolved and carry on', async () => {
+    const { store, settlement } = setup({ [hash('01')]: new Error('RPC down'), [hash('02')]: 'success' });
+    await store.createTransaction(buildTransaction({ id: 'a', status: 'submitted', tx_hash: hash('01') }));
+    await store.createTransaction(buildTransaction({ id: 'b', status: 'submitted', tx_hash: hash('02') }));
+
+    const report = await new SettlementReconciler(store, settlement).run();
+
+    expect(report.unresolved).toEqual(['a']);
+    expect(report.confirmed).toEqual(['b']);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('should page through more rows than one batch', async () => {
+    const { store, settlement } = setup();
+    for (let i = 0; i < 5; i++) {
+      await store.createTransaction(buildTransaction({ id: `tx-${i}`, created_at: new Date(Date.now() - HOUR_MS - i) }));
+    }
+
+    const report = await new SettlementReconciler(store, settlement, { batchSize: 2 }).run();
+
+    expect(report.orphaned).toHaveLength(5);
+  });
+
+  it('should run on start and then on every interval until stopped', async () => {
+    vi.useFakeTimers();
+    const { store, settlement } = setup();
+    const reconciler = new SettlementReconciler(store, settlement, { intervalMs: 1000 });
+    const run = vi.spyOn(reconciler, 'run');
+
+    reconciler.start();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    reconciler.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+});
+
+// ============================================================================
+// Resolving Orphans
+// ============================================================================
+
+describe('SettlementService.resolveSettlement', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should mark an orphan failed when nothing was broadcast', async () => {
+    const { store, settlement, onStatusChange } = setup();
+    await store.createTransaction(buildTransaction({ id: 'stale' }));
+    await new SettlementReconciler(store, settlement).run();
+
+    const resolved = await settlement.resolveSettlement('stale', { status: 'failed' });
+
+    expect(resolved.status).toBe('failed');
+    expect(onStatusChange).toHaveBeenCalledWith(expect.objectContaining({ id: 'stale', status: 'failed' }));
+    expect((await settlement.getOrphanedSettlements()).total).toBe(0);
+  });
+
+  it('should confirm an orphan from the receipt of its transaction', async () => {
+    const { store, settlement } = setup({ [hash('01')]: 'success' });
+    await store.createTransaction(buildTransaction({ id: 'stale' }));
+
+    const resolved = await settlement.resolveSettlement('stale', {
+      status: 'submitted',
+      txHash: hash('01').toUpperCase().replace('0X', '0x'),
+    });
+
+    expect(resolved).toEqual(expect.objectContaining({ status: 'confirmed', txHash: hash('01') }));
+  });
+
+  it('should leave an unmined transaction submitted for the reconciler', async () => {
+    const { store, settlement } = setup();
+    await store.createTransaction(buildTransaction({ id: 'stale' }));
+
+    const resolved = await settlement.resolveSettlement('stale', { status: 'submitted', txHash: hash('02') });
+
+    expect(resolved).toEqual(expect.objectContaining({ status: 'submitted', txHash: hash('02') }));
+  });
+
+  it('should refuse settlements that are not pending', async () => {
+    const { store, settlement } = setup();
+    await store.createTransaction(buildTransaction({ id: 'done', status: 'confirmed', tx_hash: hash('01') }));
+
+    await expect(settlement.resolveSettlement('done', { status: 'failed' }))
+      .rejects.toMatchObject({ code: 'NOT_PENDING' });
+    await expect(settlement.resolveSettlement('missing', { status: 'failed' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
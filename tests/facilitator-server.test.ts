@@ -215,6 +215,14 @@ describe('Facilitator Server', () => {
       expect(findRoute(routes, 'POST', '/verify')).toBeDefined();
     });
 
+    it('should register GET /x402/settlement/:id', () => {
+      expect(findRoute(routes, 'GET', '/x402/settlement/abc')).toBeDefined();
+    });
+
+    it('should register POST /x402/verify', () => {
+      expect(findRoute(routes, 'POST', '/x402/verify')).toBeDefined();
+    });
+
     it('should register GET /history/:address', () => {
       expect(findRoute(routes, 'GET', '/history/:address')).toBeDefined();
     });
@@ -427,6 +435,55 @@ describe('Facilitator Server', () => {
 
       expect(res._statusCode).toBe(400);
     });
+
+    it('should filter by status and date range', async () => {
+      const base = {
+        from_address: MOCK_PAYER,
+        to_address: MOCK_RECIPIENT,
+        amount: '25000000',
+        token: MOCK_TOKEN,
+        network: 'eip155:8453',
+        fee: '0',
+        gas_cost: '0',
+        tx_hash: null,
+      };
+      await store.createTransaction({ ...base, id: 'tx-old', status: 'confirmed', created_at: new Date('2026-01-01T00:00:00Z') });
+      await store.createTransaction({ ...base, id: 'tx-new', status: 'confirmed', created_at: new Date('2026-02-01T00:00:00Z') });
+      await store.createTransaction({ ...base, id: 'tx-fail', status: 'failed', created_at: new Date('2026-02-02T00:00:00Z') });
+
+      const route = findRoute(routes, 'GET', '/history/:address')!;
+      const res = createMockResponse();
+      await route.handler(
+        {
+          params: { address: MOCK_PAYER },
+          query: { status: 'confirmed,pending', from: '2026-01-15T00:00:00Z' },
+        } as unknown as Partial<Request>,
+        res
+      );
+
+      expect(res._statusCode).toBe(200);
+      const body = res._body as { transactions: Array<{ status: string; timestamp: string }>; pagination: { total: number } };
+      expect(body.pagination.total).toBe(1);
+      expect(body.transactions[0]).toEqual(expect.objectContaining({
+        status: 'confirmed',
+        timestamp: '2026-02-01T00:00:00.000Z',
+      }));
+    });
+
+    it('should return 400 for unknown statuses or bad dates', async () => {
+      const route = findRoute(routes, 'GET', '/history/:address')!;
+
+      for (const query of [{ status: 'settled' }, { to: 'yesterday' }]) {
+        const res = createMockResponse();
+        await route.handler(
+          { params: { address: MOCK_PAYER }, query } as unknown as Partial<Request>,
+          res
+        );
+
+        expect(res._statusCode).toBe(400);
+        expect(res._body).toHaveProperty('error', 'INVALID_REQUEST');
+      }
+    });
   });
 
   // ========================================================================
@@ -464,6 +521,259 @@ describe('Facilitator Server', () => {
     });
   });
 
+  describe('GET /x402/settlement/:id', () => {
+    it('should report an async settlement by id', async () => {
+      const settle = findRoute(routes, 'POST', '/x402/settle')!;
+      const settled = createMockResponse();
+      await settle.handler({ body: buildPermit2Payload(), query: { mode: 'async' } }, settled);
+
+      expect(settled._statusCode).toBe(200);
+      expect(settled._body).toHaveProperty('status', 'submitted');
+      const { settlementId } = settled._body as { settlementId: string };
+
+      const route = findRoute(routes, 'GET', '/x402/settlement/:id')!;
+      const res = createMockResponse();
+      await route.handler({ params: { id: settlementId } }, res);
+
+      expect(res._statusCode).toBe(200);
+      expect(res._body).toHaveProperty('settlementId', settlementId);
+      expect(res._body).toHaveProperty('txHash', MOCK_TX_HASH);
+      expect(['submitted', 'confirmed']).toContain((res._body as { status: string }).status);
+    });
+
+    it('should look a settlement up by tx hash', async () => {
+      const settle = findRoute(routes, 'POST', '/x402/settle')!;
+      const settled = createMockResponse();
+      await settle.handler({ body: buildPermit2Payload() }, settled);
+      const { settlementId } = settled._body as { settlementId: string };
+
+      const route = findRoute(routes, 'GET', '/x402/settlement/:id')!;
+      const res = createMockResponse();
+      await route.handler({ params: { id: MOCK_TX_HASH.toUpperCase().replace('0X', '0x') } }, res);
+
+      expect(res._statusCode).toBe(200);
+      expect(res._body).toHaveProperty('settlementId', settlementId);
+      expect(res._body).toHaveProperty('status', 'confirmed');
+    });
+
+    it('should return 404 for unknown ids', async () => {
+      const route = findRoute(routes, 'GET', '/x402/settlement/:id')!;
+      const res = createMockResponse();
+      await route.handler({ params: { id: 'missing' } }, res);
+
+      expect(res._statusCode).toBe(404);
+      expect(res._body).toHaveProperty('error', 'NOT_FOUND');
+    });
+
+    it('should reject unknown settle modes', async () => {
+      const settle = findRoute(routes, 'POST', '/x402/settle')!;
+      const res = createMockResponse();
+      await settle.handler({ body: buildPermit2Payload(), query: { mode: 'later' } }, res);
+
+      expect(res._statusCode).toBe(400);
+      expect(res._body).toHaveProperty('error', 'INVALID_REQUEST');
+    });
+  });
+
+  describe('POST /x402/verify', () => {
+    const requirement = {
+      accepts: [{
+        scheme: 'permit2' as const,
+        network: 'eip155:8453',
+        token: MOCK_TOKEN,
+        amount: '10000000',
+        recipient: MOCK_RECIPIENT,
+        settlement: MOCK_SETTLEMENT_ADDR,
+        treasury: MOCK_TREASURY,
+        feeBps: 50,
+        maxDeadline: Math.floor(Date.now() / 1000) + 300,
+      }],
+    };
+
+    it('should report why a payload would not settle', async () => {
+      const route = findRoute(routes, 'POST', '/x402/verify')!;
+      const res = createMockResponse();
+
+      await route.handler(
+        { body: { payload: buildPermit2Payload(), requirement } },
+        res
+      );
+
+      // Mock signature does not recover to the payer
+      expect(res._statusCode).toBe(200);
+      expect(res._body).toHaveProperty('valid', false);
+      expect(res._body).toHaveProperty('code', 'SIGNER_MISMATCH');
+    });
+
+    it('should report payloads bound to another recipient', async () => {
+      const route = findRoute(routes, 'POST', '/x402/verify')!;
+      const res = createMockResponse();
+
+      await route.handler(
+        {
+          body: {
+            payload: buildPermit2Payload({ witness: { recipient: MOCK_PAYER, feeBps: 50 } }),
+            requirement,
+          },
+        },
+        res
+      );
+
+      expect(res._statusCode).toBe(200);
+      expect(res._body).toHaveProperty('code', 'RECIPIENT_MISMATCH');
+    });
+
+    it('should reject a body without a requirement', async () => {
+      const route = findRoute(routes, 'POST', '/x402/verify')!;
+      const res = createMockResponse();
+
+      await route.handler({ body: { payload: buildPermit2Payload() } }, res);
+
+      expect(res._statusCode).toBe(400);
+      expect(res._body).toHaveProperty('error', 'INVALID_REQUEST');
+    });
+  });
+
+  // ========================================================================
+  // Admin Webhook Tests
+  // ========================================================================
+
+  describe('admin webhook routes', () => {
+    const ADMIN_TOKEN = 'admin-token-for-tests';
+    let adminRoutes: MockRoute[];
+    const auth = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+    beforeEach(() => {
+      const mock = createMockApp();
+      adminRoutes = mock.routes;
+      createFacilitator(mock.app, { store, cors: false, adminToken: ADMIN_TOKEN, ...mockClients });
+    });
+
+    it('should not mount admin routes without an admin token', () => {
+      expect(findRoute(routes, 'POST', '/admin/webhooks')).toBeUndefined();
+    });
+
+    it('should register a webhook', async () => {
+      const route = findRoute(adminRoutes, 'POST', '/admin/webhooks')!;
+      const res = createMockResponse();
+
+      await route.handler({
+        headers: auth,
+        body: { recipient: MOCK_RECIPIENT, url: 'https://merchant.example/hooks' },
+      }, res);
+
+      expect(res._statusCode).toBe(201);
+      expect(res._body).toHaveProperty('recipient_address', MOCK_RECIPIENT.toLowerCase());
+      expect(res._body).toHaveProperty('secret');
+      expect(await store.getWebhooksByRecipient(MOCK_RECIPIENT)).toHaveLength(1);
+    });
+
+    it('should reject requests without the admin token', async () => {
+      const route = findRoute(adminRoutes, 'POST', '/admin/webhooks')!;
+      const res = createMockResponse();
+
+      await route.handler({
+        headers: { authorization: 'Bearer wrong' },
+        body: { recipient: MOCK_RECIPIENT, url: 'https://merchant.example/hooks' },
+      }, res);
+
+      expect(res._statusCode).toBe(401);
+      expect(await store.getWebhooksByRecipient(MOCK_RECIPIENT)).toHaveLength(0);
+    });
+
+    it('should reject invalid registrations', async () => {
+      const route = findRoute(adminRoutes, 'POST', '/admin/webhooks')!;
+      const res = createMockResponse();
+
+      await route.handler({ headers: auth, body: { recipient: MOCK_RECIPIENT, url: 'ftp://x' } }, res);
+
+      expect(res._statusCode).toBe(400);
+      expect(res._body).toHaveProperty('error', 'INVALID_REQUEST');
+    });
+
+    it('should list recorded deliveries', async () => {
+      const route = findRoute(adminRoutes, 'GET', '/admin/webhooks/deliveries')!;
+      const res = createMockResponse();
+
+      await route.handler({ headers: auth, query: { status: 'failed' } }, res);
+
+      expect(res._statusCode).toBe(200);
+      expect(res._body).toEqual({ deliveries: [] });
+    });
+
+    it('should reject a bad delivery listing limit or status', async () => {
+      const route = findRoute(adminRoutes, 'GET', '/admin/webhooks/deliveries')!;
+
+      for (const query of [{ limit: 'abc' }, { limit: '0' }, { limit: '1.5' }, { limit: '201' }, { status: 'lost' }]) {
+        const res = createMockResponse();
+        await route.handler({ headers: auth, query }, res);
+        expect(res._statusCode).toBe(400);
+        expect(res._body).toHaveProperty('error', 'INVALID_REQUEST');
+      }
+
+      const ok = createMockResponse();
+      await route.handler({ headers: auth, query: { limit: '200' } }, ok);
+      expect(ok._statusCode).toBe(200);
+    });
+
+    it('should list orphaned settlements and reject a bad limit', async () => {
+      const route = findRoute(adminRoutes, 'GET', '/admin/settlements/orphaned')!;
+      await store.createTransaction({
+        id: 'stranded', from_address: MOCK_PAYER, to_address: MOCK_RECIPIENT, amount: '1000', token: MOCK_TOKEN,
+        network: 'eip155:8453', fee: '5', gas_cost: '0', tx_hash: null, status: 'pending', created_at: new Date(),
+      });
+      await store.markTransactionOrphaned('stranded', new Date());
+
+      const res = createMockResponse();
+      await route.handler({ headers: auth, query: {} }, res);
+      expect(res._statusCode).toBe(200);
+      expect(res._body).toEqual({
+        settlements: [expect.objectContaining({ settlementId: 'stranded', status: 'pending' })],
+        pagination: { limit: 50, offset: 0, total: 1 },
+      });
+
+      const bad = createMockResponse();
+      await route.handler({ headers: auth, query: { limit: 'abc' } }, bad);
+      expect(bad._statusCode).toBe(400);
+    });
+
+    it('should resolve an orphaned settlement as failed', async () => {
+      const route = findRoute(adminRoutes, 'POST', '/admin/settlements/:id/resolve')!;
+      await store.createTransaction({
+        id: 'stranded', from_address: MOCK_PAYER, to_address: MOCK_RECIPIENT, amount: '1000', token: MOCK_TOKEN,
+        network: 'eip155:8453', fee: '5', gas_cost: '0', tx_hash: null, status: 'pending', created_at: new Date(),
+      });
+
+      const res = createMockResponse();
+      await route.handler({ headers: auth, params: { id: 'stranded' }, body: { status: 'failed' } }, res);
+      expect(res._statusCode).toBe(200);
+      expect(res._body).toHaveProperty('status', 'failed');
+
+      const again = createMockResponse();
+      await route.handler({ headers: auth, params: { id: 'stranded' }, body: { status: 'failed' } }, again);
+      expect(again._statusCode).toBe(409);
+      expect(again._body).toHaveProperty('error', 'NOT_PENDING');
+
+      const missing = createMockResponse();
+      await route.handler({ headers: auth, params: { id: 'missing' }, body: { status: 'failed' } }, missing);
+      expect(missing._statusCode).toBe(404);
+
+      const invalid = createMockResponse();
+      await route.handler({ headers: auth, params: { id: 'stranded' }, body: { status: 'submitted' } }, invalid);
+      expect(invalid._statusCode).toBe(400);
+    });
+
+    it('should return 404 when replaying an unknown delivery', async () => {
+      const route = findRoute(adminRoutes, 'POST', '/admin/webhooks/deliveries/:id/replay')!;
+      const res = createMockResponse();
+
+      await route.handler({ headers: auth, params: { id: 'missing' } }, res);
+
+      expect(res._statusCode).toBe(404);
+      expect(res._body).toHaveProperty('error', 'DELIVERY_NOT_FOUND');
+    });
+  });
+
   // ========================================================================
   // Rate Limiting Tests
   // ========================================================================
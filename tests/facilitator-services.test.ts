@@ -1,9 +1,18 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { PublicClient, WalletClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
 import { InMemoryStore } from '../src/facilitator/db/schema.js';
 import { SettlementService, SettlementError } from '../src/facilitator/services/settlement.js';
 import type { SettlementConfig } from '../src/facilitator/services/settlement.js';
-import type { Permit2Payload, ERC3009Payload } from '../src/types/index.js';
+import { VerificationService, checkPaymentOnChain } from '../src/facilitator/services/verification.js';
+import type { Permit2Payload, ERC3009Payload, PaymentAcceptEntry } from '../src/types/index.js';
+import {
+  PERMIT2_ADDRESS,
+  PERMIT2_BATCH_WITNESS_TYPES,
+  ERC3009_TYPES,
+  getPermit2Domain,
+  getERC3009Domain,
+} from '../src/types/index.js';
 
 // ============================================================================
 // Mock Constants
@@ -429,6 +438,122 @@ describe('SettlementService', () => {
     });
   });
 
+  // ==========================================================================
+  // settleX402 — Async mode and status lookups
+  // ==========================================================================
+
+  describe('settleX402 (async mode)', () => {
+    /** Service whose receipt arrives only when the test resolves it */
+    function deferredReceiptService(status: 'success' | 'reverted' | 'error') {
+      let deliver!: () => void;
+      const receipt = new Promise<void>(resolve => { deliver = resolve; });
+      const publicClient = {
+        ...mockPublicClient,
+        waitForTransactionReceipt: async () => {
+          await receipt;
+          if (status === 'error') throw new Error('receipt timeout');
+          return { status, gasUsed: BigInt(65_000), effectiveGasPrice: BigInt(76_923_077) };
+        },
+      } as unknown as PublicClient;
+      const service = new SettlementService(store, {
+        ...mockSettlementConfig,
+        publicClients: { ...mockSettlementConfig.publicClients, 'eip155:8453': publicClient },
+      });
+      return { service, deliver };
+    }
+
+    /** Let the background confirmation run to completion */
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should return once the transaction is broadcast', async () => {
+      const { service } = deferredReceiptService('success');
+
+      const result = await service.settleX402(buildPermit2Payload(), { mode: 'async' });
+
+      expect(result).toEqual(expect.objectContaining({
+        success: true,
+        txHash: MOCK_TX_HASH,
+        status: 'submitted',
+      }));
+      const status = await service.getSettlement(result.settlementId!);
+      expect(status?.status).toBe('submitted');
+      expect(status?.txHash).toBe(MOCK_TX_HASH);
+    });
+
+    it('should record confirmation in the background', async () => {
+      const { service, deliver } = deferredReceiptService('success');
+      const { settlementId } = await service.settleX402(buildPermit2Payload(), { mode: 'async' });
+
+      deliver();
+      await flush();
+
+      const status = await service.getSettlement(settlementId!);
+      expect(status?.status).toBe('confirmed');
+      expect(status?.gasCost).not.toBe('0');
+    });
+
+    it('should record a revert in the background', async () => {
+      const { service, deliver } = deferredReceiptService('reverted');
+      const { settlementId } = await service.settleX402(buildPermit2Payload(), { mode: 'async' });
+
+      deliver();
+      await flush();
+
+      expect((await service.getSettlement(settlementId!))?.status).toBe('failed');
+    });
+
+    it('should leave the settlement submitted when the receipt cannot be fetched', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { service, deliver } = deferredReceiptService('error');
+      const { settlementId } = await service.settleX402(buildPermit2Payload(), { mode: 'async' });
+
+      deliver();
+      await flush();
+
+      const status = await service.getSettlement(settlementId!);
+      expect(status?.status).toBe('submitted');
+      expect(status?.txHash).toBe(MOCK_TX_HASH);
+      consoleSpy.mockRestore();
+    });
+
+    it('should leave the settlement submitted when a synchronous receipt wait fails', async () => {
+      const { service, deliver } = deferredReceiptService('error');
+      deliver();
+
+      const error = await service.settleX402(buildPermit2Payload()).catch(err => err);
+      expect(error).toBeInstanceOf(SettlementError);
+      expect(error.message).toContain('submitted but not confirmed');
+
+      const { transactions } = await store.getTransactionsByAddress(MOCK_PAYER);
+      expect(transactions[0]).toEqual(expect.objectContaining({ status: 'submitted', tx_hash: MOCK_TX_HASH }));
+      expect(error).toMatchObject({
+        code: 'SETTLEMENT_PENDING',
+        details: { txHash: MOCK_TX_HASH, settlementId: transactions[0]!.id },
+      });
+    });
+
+    it('should still throw when the broadcast itself fails', async () => {
+      const failService = new SettlementService(store, {
+        ...mockSettlementConfig,
+        walletClients: {
+          ...mockSettlementConfig.walletClients,
+          'eip155:8453': {
+            writeContract: async () => { throw new Error('execution reverted'); },
+            account: { address: MOCK_TREASURY },
+            chain: { id: 8453 },
+          } as unknown as WalletClient,
+        },
+      });
+
+      await expect(failService.settleX402(buildPermit2Payload(), { mode: 'async' }))
+        .rejects.toThrow(SettlementError);
+    });
+
+    it('should return null for unknown settlement ids', async () => {
+      expect(await settlementService.getSettlement('missing')).toBeNull();
+    });
+  });
+
   // ==========================================================================
   // getHistory — Address-based lookups
   // ==========================================================================
@@ -551,3 +676,222 @@ describe('SettlementService', () => {
     });
   });
 });
+
+// ============================================================================
+// VerificationService Tests
+// ============================================================================
+
+describe('VerificationService', () => {
+  /** Well-known test key (Hardhat account #0) */
+  const payerAccount = privateKeyToAccount(
+    '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+  );
+
+  const accept = (overrides: Partial<PaymentAcceptEntry> = {}): PaymentAcceptEntry => ({
+    scheme: 'permit2',
+    network: 'eip155:8453',
+    token: MOCK_TOKEN,
+    amount: '10000000',
+    recipient: MOCK_RECIPIENT,
+    settlement: MOCK_SETTLEMENT_ADDR,
+    treasury: MOCK_TREASURY,
+    feeBps: 50,
+    maxDeadline: Math.floor(Date.now() / 1000) + 300,
+    ...overrides,
+  });
+
+  async function signedPermit2(overrides: Partial<Permit2Payload> = {}): Promise<Permit2Payload> {
+    const payload = buildPermit2Payload({ payer: payerAccount.address, ...overrides });
+    const signature = await payerAccount.signTypedData({
+      domain: getPermit2Domain(8453),
+      types: PERMIT2_BATCH_WITNESS_TYPES,
+      primaryType: 'PermitBatchWitnessTransferFrom',
+      message: {
+        permitted: payload.permit.permitted.map(p => ({
+          token: p.token as `0x${string}`,
+          amount: BigInt(p.amount),
+        })),
+        spender: payload.spender as `0x${string}`,
+        nonce: BigInt(payload.permit.nonce),
+        deadline: BigInt(payload.permit.deadline),
+        witness: {
+          recipient: payload.witness.recipient as `0x${string}`,
+          feeBps: BigInt(payload.witness.feeBps),
+        },
+      },
+    });
+    return { ...payload, signature };
+  }
+
+  async function signedERC3009(): Promise<ERC3009Payload> {
+    const payload = buildERC3009Payload({ payer: payerAccount.address });
+    payload.authorization.from = payerAccount.address;
+    const { authorization } = payload;
+    const signature = await payerAccount.signTypedData({
+      domain: getERC3009Domain(MOCK_TOKEN, 'USD Coin', 8453),
+      types: ERC3009_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: authorization.from as `0x${string}`,
+        to: authorization.to as `0x${string}`,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce as `0x${string}`,
+      },
+    });
+    return { ...payload, signature };
+  }
+
+  /** Public client answering the reads the verifier makes */
+  function chainState(state: {
+    feeBps?: number;
+    balance?: bigint;
+    allowance?: bigint;
+    nonceBitmap?: bigint;
+    authorizationUsed?: boolean;
+  } = {}) {
+    const readContract = vi.fn(async ({ functionName }: { functionName: string }) => {
+      switch (functionName) {
+        case 'feeBps': return BigInt(state.feeBps ?? 50);
+        case 'balanceOf': return state.balance ?? BigInt(10_000_000_000);
+        case 'allowance': return state.allowance ?? BigInt(10_000_000_000);
+        case 'nonceBitmap': return state.nonceBitmap ?? BigInt(0);
+        case 'authorizationState': return state.authorizationUsed ?? false;
+        default: throw new Error(`unexpected read ${functionName}`);
+      }
+    });
+    return { readContract } as unknown as PublicClient & { readContract: typeof readContract };
+  }
+
+  function service(publicClient: PublicClient = chainState()) {
+    return new VerificationService({
+      publicClients: { 'eip155:8453': publicClient },
+      settlementAddresses: { 'eip155:8453': MOCK_SETTLEMENT_ADDR },
+    });
+  }
+
+  it('should accept a Permit2 payment that would settle', async () => {
+    const result = await service().verifyX402(await signedPermit2(), { accepts: [accept()] });
+
+    expect(result.valid).toBe(true);
+    expect(result.signer).toBe(payerAccount.address);
+  });
+
+  it('should accept an ERC-3009 payment without reading the Permit2 allowance', async () => {
+    const client = chainState();
+    const result = await service(client).verifyX402(
+      await signedERC3009(),
+      { accepts: [accept({ scheme: 'erc3009' })] }
+    );
+
+    expect(result.valid).toBe(true);
+    const reads = client.readContract.mock.calls.map(([call]) => call.functionName);
+    expect(reads).toEqual(['feeBps', 'balanceOf', 'authorizationState']);
+  });
+
+  it('should report a payer without enough balance', async () => {
+    const result = await service(chainState({ balance: BigInt(9_999_999) }))
+      .verifyX402(await signedPermit2(), { accepts: [accept()] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'INSUFFICIENT_BALANCE' }));
+  });
+
+  it('should report a missing Permit2 allowance', async () => {
+    const result = await service(chainState({ allowance: BigInt(0) }))
+      .verifyX402(await signedPermit2(), { accepts: [accept()] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'ALLOWANCE_MISSING' }));
+  });
+
+  it('should report a used Permit2 nonce from its bitmap word', async () => {
+    // 123456789 = word 482253, bit 21
+    const client = chainState({ nonceBitmap: BigInt(1) << BigInt(21) });
+    const result = await service(client).verifyX402(await signedPermit2(), { accepts: [accept()] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'NONCE_USED' }));
+    expect(client.readContract).toHaveBeenCalledWith(expect.objectContaining({
+      address: PERMIT2_ADDRESS,
+      functionName: 'nonceBitmap',
+      args: [payerAccount.address, BigInt(482253)],
+    }));
+  });
+
+  it('should ignore other bits of the Permit2 nonce word', async () => {
+    const result = await service(chainState({ nonceBitmap: BigInt(1) << BigInt(20) }))
+      .verifyX402(await signedPermit2(), { accepts: [accept()] });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report a used ERC-3009 authorization', async () => {
+    const result = await service(chainState({ authorizationUsed: true }))
+      .verifyX402(await signedERC3009(), { accepts: [accept({ scheme: 'erc3009' })] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'NONCE_USED' }));
+  });
+
+  it("should report a fee that differs from the contract's feeBps", async () => {
+    const result = await service(chainState({ feeBps: 30 }))
+      .verifyX402(await signedPermit2(), { accepts: [accept()] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'FEE_MISMATCH' }));
+  });
+
+  it('should report expired payloads without reading the chain', async () => {
+    const client = chainState();
+    const payload = await signedPermit2({
+      permit: {
+        permitted: buildPermit2Payload().permit.permitted,
+        nonce: '1',
+        deadline: Math.floor(Date.now() / 1000) - 1,
+      },
+    });
+
+    const result = await service(client).verifyX402(payload, { accepts: [accept()] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'PAYMENT_EXPIRED' }));
+    expect(client.readContract).not.toHaveBeenCalled();
+  });
+
+  it('should report payloads that do not match the requirement', async () => {
+    const result = await service().verifyX402(
+      await signedPermit2(),
+      { accepts: [accept({ recipient: MOCK_TREASURY })] }
+    );
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'RECIPIENT_MISMATCH' }));
+  });
+
+  it('should report signatures from someone other than the payer', async () => {
+    const payload = { ...(await signedPermit2()), payer: MOCK_PAYER };
+
+    const result = await service().verifyX402(payload, { accepts: [accept()] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'SIGNER_MISMATCH' }));
+  });
+
+  it('should report requirements naming another settlement contract', async () => {
+    const other = '0x5555555555555555555555555555555555555555' as `0x${string}`;
+    const payload = await signedPermit2({ spender: other });
+
+    const result = await service().verifyX402(payload, { accepts: [accept({ settlement: other })] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'SETTLEMENT_MISMATCH' }));
+  });
+
+  it('should report networks without a client', async () => {
+    const result = await new VerificationService({ publicClients: {} })
+      .verifyX402(await signedPermit2(), { accepts: [accept()] });
+
+    expect(result).toEqual(expect.objectContaining({ valid: false, code: 'NETWORK_NOT_CONFIGURED' }));
+  });
+
+  it('should skip the fee read when asked', async () => {
+    const client = chainState({ feeBps: 30 });
+    const result = await checkPaymentOnChain(await signedPermit2(), accept(), client, { checkFee: false });
+
+    expect(result.valid).toBe(true);
+    expect(client.readContract).not.toHaveBeenCalledWith(expect.objectContaining({ functionName: 'feeBps' }));
+  });
+});
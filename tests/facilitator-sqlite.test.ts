@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { SqliteStore, SQLITE_CREATE_TABLES, type SqliteDatabase } from '../src/facilitator/db/sqlite.js';
+import { createStore } from '../src/facilitator/config.js';
+import type { Transaction, WebhookDelivery } from '../src/facilitator/types.js';
+
+// ============================================================================
+// Mock Constants
+// ============================================================================
+
+const MOCK_TREASURY = '0x1111111111111111111111111111111111111111' as `0x${string}`;
+const MOCK_PAYER = '0x2222222222222222222222222222222222222222' as `0x${string}`;
+const MOCK_RECIPIENT = '0x3333333333333333333333333333333333333333' as `0x${string}`;
+const MOCK_TOKEN = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`;
+const MOCK_TX_HASH = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+const UINT256_MAX = '115792089237316195423570985008687907853269984665640564039457584007913129639935';
+
+function buildTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: randomUUID(),
+    from_address: MOCK_PAYER,
+    to_address: MOCK_RECIPIENT,
+    amount: '10000000',
+    token: MOCK_TOKEN,
+    network: 'eip155:8453',
+    fee: '50000',
+    gas_cost: '0',
+    tx_hash: null,
+    status: 'pending',
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// SqliteStore Tests
+// ============================================================================
+
+describe('SqliteStore', () => {
+  let db: Database.Database;
+  let store: SqliteStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = new SqliteStore(db as unknown as SqliteDatabase);
+    store.migrate();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('migrations', () => {
+    it('should record the schema version', () => {
+      expect(db.pragma('user_version', { simple: true })).toBe(3);
+    });
+
+    it('should add the orphan flag to a version 1 database', async () => {
+      const old = new Database(':memory:');
+      old.exec(SQLITE_CREATE_TABLES);
+      old.pragma('user_version = 1');
+      const upgraded = new SqliteStore(old as unknown as SqliteDatabase);
+      const tx = buildTransaction();
+      await upgraded.createTransaction(tx);
+
+      upgraded.migrate();
+      await upgraded.markTransactionOrphaned(tx.id, new Date());
+
+      expect((await upgraded.findTransactions({ orphaned: true })).total).toBe(1);
+      old.close();
+    });
+
+    it('should be safe to run again', async () => {
+      await store.createTransaction(buildTransaction());
+
+      store.migrate();
+
+      expect(await store.getTransactionCount()).toBe(1);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should keep uint256 amounts exact', async () => {
+      const tx = buildTransaction({ amount: UINT256_MAX, fee: UINT256_MAX });
+      await store.createTransaction(tx);
+
+      const stored = await store.getTransaction(tx.id);
+
+      expect(stored?.amount).toBe(UINT256_MAX);
+      expect(stored?.fee).toBe(UINT256_MAX);
+      expect(db.prepare('SELECT typeof(amount) AS type FROM transactions').get()).toEqual({ type: 'text' });
+    });
+
+    it('should reject amounts that are not whole numbers', async () => {
+      await expect(store.createTransaction(buildTransaction({ amount: '1.5' }))).rejects.toThrow();
+      await expect(store.createTransaction(buildTransaction({ amount: '1e18' }))).rejects.toThrow();
+    });
+
+    it('should reject unknown statuses', async () => {
+      const tx = buildTransaction();
+      await store.createTransaction(tx);
+
+      await expect(store.updateTransactionStatus(tx.id, 'lost')).rejects.toThrow();
+    });
+
+    it('should read back what was written', async () => {
+      const tx = buildTransaction();
+      await store.createTransaction(tx);
+
+      expect(await store.getTransaction(tx.id)).toEqual(tx);
+      expect(await store.getTransaction('missing')).toBeNull();
+    });
+
+    it('should update status and keep the tx hash when none is given', async () => {
+      const tx = buildTransaction();
+      await store.createTransaction(tx);
+
+      await store.updateTransactionStatus(tx.id, 'submitted', MOCK_TX_HASH);
+      await store.updateTransactionStatus(tx.id, 'confirmed');
+      await store.updateTransactionGas(tx.id, '0.000123');
+
+      expect(await store.getTransaction(tx.id)).toEqual(expect.objectContaining({
+        status: 'confirmed',
+        tx_hash: MOCK_TX_HASH,
+        gas_cost: '0.000123',
+      }));
+    });
+
+    it('should page history by address, newest first', async () => {
+      const now = Date.now();
+      for (let i = 0; i < 5; i++) {
+        await store.createTransaction(buildTransaction({ created_at: new Date(now - i * 1000) }));
+      }
+      await store.createTransaction(buildTransaction({ from_address: MOCK_TREASURY, to_address: MOCK_TREASURY }));
+
+      const page = await store.getTransactionsByAddress(MOCK_PAYER, 2, 1);
+
+      expect(page.total).toBe(5);
+      expect(page.transactions.map(tx => tx.created_at.getTime())).toEqual([now - 1000, now - 2000]);
+      expect(await store.getTransactionCount()).toBe(6);
+    });
+  });
+
+  describe('webhooks', () => {
+    it('should store webhooks and update deliveries partially', async () => {
+      const webhook = {
+        id: randomUUID(),
+        recipient_address: MOCK_RECIPIENT,
+        url: 'https://merchant.example/hooks',
+        secret: 'secret-secret-secret',
+        created_at: new Date(),
+      };
+      await store.createWebhook(webhook);
+      const delivery: WebhookDelivery = {
+        id: randomUUID(),
+        webhook_id: webhook.id,
+        transaction_id: randomUUID(),
+        event: 'settlement.confirmed',
+        payload: '{}',
+        status: 'pending',
+        attempts: 0,
+        last_status_code: null,
+        last_error: null,
+        next_attempt_at: new Date(),
+        created_at: new Date(),
+        delivered_at: null,
+      };
+      await store.createWebhookDelivery(delivery);
+
+      const deliveredAt = new Date();
+      await store.updateWebhookDelivery(delivery.id, {
+        status: 'delivered',
+        attempts: 1,
+        last_status_code: 204,
+        next_attempt_at: null,
+        delivered_at: deliveredAt,
+      });
+
+      expect(await store.getWebhooksByRecipient(MOCK_RECIPIENT)).toEqual([webhook]);
+      expect(await store.getWebhook(webhook.id)).toEqual(webhook);
+      expect(await store.getWebhookDelivery(delivery.id)).toEqual({
+        ...delivery,
+        status: 'delivered',
+        attempts: 1,
+        last_status_code: 204,
+        next_attempt_at: null,
+        delivered_at: deliveredAt,
+      });
+      expect(await store.getWebhookDeliveries({ status: 'delivered' })).toHaveLength(1);
+      expect(await store.getWebhookDeliveries({ status: 'failed' })).toHaveLength(0);
+    });
+  });
+});
+
+// ============================================================================
+// File-backed Store Tests
+// ============================================================================
+
+describe('SqliteStore.open', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-sqlite-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep history across restarts', async () => {
+    const file = join(dir, 'x402.db');
+    const tx = buildTransaction({ amount: UINT256_MAX });
+
+    const first = await SqliteStore.open(file);
+    await first.createTransaction(tx);
+    await first.close();
+
+    const second = await SqliteStore.open(file);
+    expect(await second.getTransaction(tx.id)).toEqual(tx);
+    await second.close();
+  });
+
+  it('should be selected by a sqlite: DATABASE_URL', async () => {
+    const store = await createStore({ databaseUrl: `sqlite:${join(dir, 'x402.db')}` });
+
+    expect(store).toBeInstanceOf(SqliteStore);
+    await (store as SqliteStore).close();
+  });
+});
@@ -0,0 +1,383 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { PublicClient, WalletClient } from 'viem';
+import { InMemoryStore } from '../src/facilitator/db/schema.js';
+import { SettlementService } from '../src/facilitator/services/settlement.js';
+import {
+  WebhookService,
+  WebhookError,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+} from '../src/facilitator/services/webhooks.js';
+import type { Transaction, WebhookDelivery } from '../src/facilitator/types.js';
+import type { Permit2Payload } from '../src/types/index.js';
+
+// ============================================================================
+// Mock Constants
+// ============================================================================
+
+const MOCK_TREASURY = '0x1111111111111111111111111111111111111111' as `0x${string}`;
+const MOCK_PAYER = '0x2222222222222222222222222222222222222222' as `0x${string}`;
+const MOCK_RECIPIENT = '0x3333333333333333333333333333333333333333' as `0x${string}`;
+const MOCK_SETTLEMENT_ADDR = '0x4444444444444444444444444444444444444444' as `0x${string}`;
+const MOCK_TOKEN = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as `0x${string}`;
+const MOCK_TX_HASH = ('0x' + 'ab'.repeat(32)) as `0x${string}`;
+const SECRET = 'whsec_0123456789abcdef';
+
+// ============================================================================
+// Test Receiver
+// ============================================================================
+
+interface ReceivedWebhook {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+/** Local HTTP server standing in for a merchant; answers with `statuses` in turn, then 200 */
+async function startReceiver(statuses: number[] = []) {
+  const received: ReceivedWebhook[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    statuses,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+async function waitFor<T>(read: () => Promise<T>, done: (value: T) => boolean): Promise<T> {
+  const deadline = Date.now() + 2000;
+  for (;;) {
+    const value = await read();
+    if (done(value) || Date.now() > deadline) return value;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+function buildTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    from_address: MOCK_PAYER,
+    to_address: MOCK_RECIPIENT,
+    amount: '10000000',
+    token: MOCK_TOKEN,
+    network: 'eip155:8453',
+    fee: '50000',
+    gas_cost: '0',
+    tx_hash: null,
+    status: 'pending',
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Signature Tests
+// ============================================================================
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ event: 'settlement.confirmed' });
+
+  it('should verify a signature made with the same secret', () => {
+    expect(verifyWebhookSignature(SECRET, body, signWebhookPayload(SECRET, body))).toBe(true);
+  });
+
+  it('should reject a tampered body or another secret', () => {
+    const header = signWebhookPayload(SECRET, body);
+
+    expect(verifyWebhookSignature(SECRET, body + ' ', header)).toBe(false);
+    expect(verifyWebhookSignature('another-secret-value', body, header)).toBe(false);
+  });
+
+  it('should reject stale and malformed headers', () => {
+    const stale = signWebhookPayload(SECRET, body, Math.floor(Date.now() / 1000) - 600);
+
+    expect(verifyWebhookSignature(SECRET, body, stale)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, 'v1=abc')).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, undefined)).toBe(false);
+  });
+});
+
+// ============================================================================
+// WebhookService Tests
+// ============================================================================
+
+describe('WebhookService', () => {
+  let store: InMemoryStore;
+  let webhooks: WebhookService;
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  const delivered = (id: string) => waitFor(
+    async () => (await store.getWebhookDelivery(id))!,
+    (delivery: WebhookDelivery) => delivery.status !== 'pending'
+  );
+
+  beforeEach(async () => {
+    store = new InMemoryStore();
+    webhooks = new WebhookService(store, { baseDelayMs: 10, maxAttempts: 3 });
+    receiver = await startReceiver();
+  });
+
+  afterEach(async () => {
+    webhooks.stop();
+    await receiver.close();
+  });
+
+  it('should POST a signed event to the recipient\'s webhook', async () => {
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+
+    const [delivery] = await webhooks.notify(buildTransaction({ status: 'confirmed', tx_hash: MOCK_TX_HASH }));
+    const result = await delivered(delivery!.id);
+
+    expect(result).toEqual(expect.objectContaining({
+      status: 'delivered',
+      attempts: 1,
+      last_status_code: 200,
+      event: 'settlement.confirmed',
+    }));
+    expect(receiver.received).toHaveLength(1);
+    const { headers, body } = receiver.received[0]!;
+    expect(headers[WEBHOOK_EVENT_HEADER]).toBe('settlement.confirmed');
+    expect(headers[WEBHOOK_DELIVERY_HEADER]).toBe(delivery!.id);
+    expect(verifyWebhookSignature(SECRET, body, headers[WEBHOOK_SIGNATURE_HEADER] as string)).toBe(true);
+    expect(JSON.parse(body)).toEqual(expect.objectContaining({
+      id: delivery!.id,
+      event: 'settlement.confirmed',
+      data: expect.objectContaining({ settlementId: 'tx-1', status: 'confirmed', txHash: MOCK_TX_HASH }),
+    }));
+  });
+
+  it('should match recipients regardless of address case', async () => {
+    const checksummed = '0xAbCdEf0000000000000000000000000000000001';
+    await webhooks.register(checksummed, receiver.url, SECRET);
+
+    const deliveries = await webhooks.notify(buildTransaction({ to_address: checksummed.toLowerCase() }));
+
+    expect(deliveries).toHaveLength(1);
+  });
+
+  it('should not deliver for recipients without a webhook', async () => {
+    await webhooks.register(MOCK_TREASURY, receiver.url, SECRET);
+
+    const deliveries = await webhooks.notify(buildTransaction());
+
+    expect(deliveries).toHaveLength(0);
+  });
+
+  it('should generate a secret when none is given', async () => {
+    const webhook = await webhooks.register(MOCK_RECIPIENT, receiver.url);
+
+    expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should reject invalid recipient addresses', async () => {
+    await expect(webhooks.register('0x123', receiver.url)).rejects.toThrow(WebhookError);
+  });
+
+  it('should retry with backoff until the receiver accepts', async () => {
+    receiver.statuses.push(500, 503);
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+
+    const [delivery] = await webhooks.notify(buildTransaction());
+    const result = await delivered(delivery!.id);
+
+    expect(result).toEqual(expect.objectContaining({ status: 'delivered', attempts: 3, last_status_code: 200 }));
+    expect(receiver.received).toHaveLength(3);
+    // Retries re-send the recorded body
+    expect(new Set(receiver.received.map(r => r.body)).size).toBe(1);
+  });
+
+  it('should record the last failure while retries are pending', async () => {
+    webhooks = new WebhookService(store, { baseDelayMs: 60_000, maxAttempts: 3 });
+    receiver.statuses.push(500);
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+
+    const [delivery] = await webhooks.notify(buildTransaction());
+    const result = await waitFor(
+      async () => (await store.getWebhookDelivery(delivery!.id))!,
+      d => d.attempts === 1
+    );
+
+    expect(result.status).toBe('pending');
+    expect(result.last_status_code).toBe(500);
+    expect(result.last_error).toContain('500');
+    expect(result.next_attempt_at!.getTime()).toBeGreaterThan(Date.now() + 50_000);
+  });
+
+  it('should give up after maxAttempts and allow a replay', async () => {
+    receiver.statuses.push(500, 500, 500);
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+
+    const [delivery] = await webhooks.notify(buildTransaction());
+    const failed = await delivered(delivery!.id);
+
+    expect(failed).toEqual(expect.objectContaining({ status: 'failed', attempts: 3, next_attempt_at: null }));
+    expect(await store.getWebhookDeliveries({ status: 'failed' })).toHaveLength(1);
+
+    const replayed = await webhooks.replay(delivery!.id);
+
+    expect(replayed).toEqual(expect.objectContaining({ status: 'delivered', attempts: 1 }));
+    expect(receiver.received).toHaveLength(4);
+  });
+
+  it('should record network errors', async () => {
+    await receiver.close();
+    webhooks = new WebhookService(store, { baseDelayMs: 10, maxAttempts: 1 });
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+    receiver = await startReceiver();
+
+    const [delivery] = await webhooks.notify(buildTransaction());
+    const result = await delivered(delivery!.id);
+
+    expect(result.status).toBe('failed');
+    expect(result.last_status_code).toBeNull();
+    expect(result.last_error).toBeTruthy();
+  });
+
+  it('should send retries left pending by a stopped service', async () => {
+    webhooks = new WebhookService(store, { baseDelayMs: 60_000, maxAttempts: 3 });
+    receiver.statuses.push(500);
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+    const [delivery] = await webhooks.notify(buildTransaction());
+    await waitFor(async () => (await store.getWebhookDelivery(delivery!.id))!, d => d.attempts === 1);
+    webhooks.stop();
+
+    // The retry comes due while no process holds its timer
+    await store.updateWebhookDelivery(delivery!.id, { next_attempt_at: new Date(Date.now() - 1) });
+    webhooks = new WebhookService(store, { baseDelayMs: 60_000, maxAttempts: 3 });
+    webhooks.start();
+    const result = await delivered(delivery!.id);
+
+    expect(result).toEqual(expect.objectContaining({ status: 'delivered', attempts: 2 }));
+    expect(receiver.received).toHaveLength(2);
+  });
+
+  it('should sweep the most overdue retries first, however many newer ones are pending', async () => {
+    const webhook = await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+    const pending = (id: string, createdAgoMs: number, dueInMs: number): WebhookDelivery => ({
+      id,
+      webhook_id: webhook.id,
+      transaction_id: 'tx-1',
+      event: 'settlement.confirmed',
+      payload: '{}',
+      status: 'pending',
+      attempts: 1,
+      last_status_code: 500,
+      last_error: null,
+      next_attempt_at: new Date(Date.now() + dueInMs),
+      created_at: new Date(Date.now() - createdAgoMs),
+      delivered_at: null,
+    });
+    await store.createWebhookDelivery(pending('old', 60_000, -30_000));
+    for (let i = 0; i < 3; i++) {
+      await store.createWebhookDelivery(pending(`new-${i}`, 1000 - i, 60_000));
+    }
+
+    const attempted = await new WebhookService(store, { sweepBatchSize: 2 }).sweep();
+
+    expect(attempted).toEqual(['old']);
+    expect((await store.getWebhookDelivery('old'))?.status).toBe('delivered');
+  });
+
+  it('should leave deliveries that are not yet due to their timers', async () => {
+    webhooks = new WebhookService(store, { baseDelayMs: 60_000, maxAttempts: 3 });
+    receiver.statuses.push(500);
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+    const [delivery] = await webhooks.notify(buildTransaction());
+    await waitFor(async () => (await store.getWebhookDelivery(delivery!.id))!, d => d.attempts === 1);
+
+    expect(await new WebhookService(store).sweep()).toEqual([]);
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it('should report unknown deliveries on replay', async () => {
+    await expect(webhooks.replay('missing')).rejects.toMatchObject({ code: 'DELIVERY_NOT_FOUND' });
+  });
+
+  /** Settlement service with mock clients whose transactions always confirm */
+  function settlementService(onStatusChange: (tx: Transaction) => void | Promise<void>) {
+    return new SettlementService(store, {
+      treasuryAddress: MOCK_TREASURY,
+      settlementAddresses: { 'eip155:8453': MOCK_SETTLEMENT_ADDR },
+      publicClients: {
+        'eip155:8453': {
+          waitForTransactionReceipt: async () => ({
+            status: 'success' as const,
+            gasUsed: BigInt(65_000),
+            effectiveGasPrice: BigInt(76_923_077),
+          }),
+        } as unknown as PublicClient,
+      },
+      walletClients: {
+        'eip155:8453': {
+          writeContract: async () => MOCK_TX_HASH,
+          account: { address: MOCK_TREASURY },
+          chain: { id: 8453 },
+        } as unknown as WalletClient,
+      },
+      onStatusChange,
+    });
+  }
+
+  function buildPermit2Payload(): Permit2Payload {
+    return {
+      scheme: 'permit2',
+      network: 'eip155:8453',
+      permit: {
+        permitted: [
+          { token: MOCK_TOKEN, amount: '9950000' },
+          { token: MOCK_TOKEN, amount: '50000' },
+        ],
+        nonce: '1',
+        deadline: Math.floor(Date.now() / 1000) + 300,
+      },
+      witness: { recipient: MOCK_RECIPIENT, feeBps: 50 },
+      spender: MOCK_SETTLEMENT_ADDR,
+      payer: MOCK_PAYER,
+      signature: ('0x' + 'cd'.repeat(65)) as `0x${string}`,
+    };
+  }
+
+  it('should receive every transition of a settlement', async () => {
+    await webhooks.register(MOCK_RECIPIENT, receiver.url, SECRET);
+    const settlement = settlementService(async tx => { await webhooks.notify(tx); });
+
+    await settlement.settleX402(buildPermit2Payload());
+    const deliveries = await waitFor(
+      () => store.getWebhookDeliveries({ status: 'delivered' }),
+      list => list.length === 3
+    );
+
+    expect(deliveries.map(d => d.event).sort()).toEqual([
+      'settlement.confirmed',
+      'settlement.pending',
+      'settlement.submitted',
+    ]);
+  });
+
+  it('should not fail a settlement when the listener throws', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const settlement = settlementService(() => { throw new Error('listener down'); });
+
+    const result = await settlement.settleX402(buildPermit2Payload());
+
+    expect(result.success).toBe(true);
+    expect(consoleError).toHaveBeenCalledTimes(3);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryNonceStore, scopeNonce } from '../src/server/nonce-store.js';
+import { FileNonceStore } from '../src/server/file-nonce-store.js';
+import type { NonceStore, PaymentPayload } from '../src/types/index.js';
+
+// ============================================================================
+// Shared behaviour
+// ============================================================================
+
+function describeNonceStore(name: string, create: () => Promise<NonceStore>) {
+  describe(name, () => {
+    let store: NonceStore;
+
+    beforeEach(async () => {
+      store = await create();
+    });
+
+    it('should claim an unused nonce', async () => {
+      expect(await store.claim('n-1', 60_000)).toBe(true);
+    });
+
+    it('should refuse a second claim of the same nonce', async () => {
+      await store.claim('n-1', 60_000);
+      expect(await store.claim('n-1', 60_000)).toBe(false);
+    });
+
+    it('should track nonces independently', async () => {
+      expect(await store.claim('n-1', 60_000)).toBe(true);
+      expect(await store.claim('n-2', 60_000)).toBe(true);
+    });
+
+    it('should allow a released nonce to be claimed again', async () => {
+      await store.claim('n-1', 60_000);
+      await store.release('n-1');
+      expect(await store.claim('n-1', 60_000)).toBe(true);
+    });
+
+    it('should keep a committed nonce claimed for the committed TTL', async () => {
+      await store.claim('n-1', -1);
+      await store.commit('n-1', 60_000);
+      expect(await store.claim('n-1', 60_000)).toBe(false);
+    });
+
+    it('should allow an expired claim to be taken over', async () => {
+      await store.claim('n-1', -1);
+      expect(await store.claim('n-1', 60_000)).toBe(true);
+    });
+
+    it('should let only one of several concurrent claims succeed', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => store.claim('n-race', 60_000))
+      );
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+  });
+}
+
+describeNonceStore('InMemoryNonceStore', async () => new InMemoryNonceStore());
+
+describe('FileNonceStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'x402-nonces-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describeNonceStore('contract', async () => new FileNonceStore(directory));
+
+  it('should share claims between store instances (restarts, replicas)', async () => {
+    const first = new FileNonceStore(directory);
+    const second = new FileNonceStore(directory);
+
+    expect(await first.claim('n-1', 60_000)).toBe(true);
+    expect(await second.claim('n-1', 60_000)).toBe(false);
+  });
+
+  it('should create the directory on first use', async () => {
+    const nested = join(directory, 'a', 'b');
+    const store = new FileNonceStore(nested);
+    expect(await store.claim('n-1', 60_000)).toBe(true);
+    expect(await readdir(nested)).toHaveLength(1);
+  });
+
+  it('should treat an empty or unreadable claim file as held', async () => {
+    const store = new FileNonceStore(directory);
+    await store.claim('n-1', 60_000);
+    const [file] = await readdir(directory);
+    await writeFile(join(directory, file!), '');
+
+    expect(await store.claim('n-1', 60_000)).toBe(false);
+  });
+
+  it('should let only one of many concurrent callers take over an expired claim', async () => {
+    const stores = Array.from({ length: 8 }, () => new FileNonceStore(directory));
+    await stores[0]!.claim('n-1', -1);
+
+    const results = await Promise.all(stores.map(store => store.claim('n-1', 60_000)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should let only one of many concurrent callers claim a fresh nonce', async () => {
+    const stores = Array.from({ length: 8 }, () => new FileNonceStore(directory));
+
+    const results = await Promise.all(stores.map(store => store.claim('n-1', 60_000)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should not sweep away a claim that replaced an expired one', async () => {
+    const store = new FileNonceStore(directory);
+    await store.claim('n-1', -1);
+    expect(await store.claim('n-1', 60_000)).toBe(true);
+
+    await store.sweep();
+
+    expect(await store.claim('n-1', 60_000)).toBe(false);
+  });
+
+  it('should sweep expired claims', async () => {
+    const store = new FileNonceStore(directory);
+    await store.claim('expired', -1);
+    await store.claim('live', 60_000);
+
+    await store.sweep();
+
+    // Takeover markers stay behind until they are old enough to sweep
+    const claims = (await readdir(directory)).filter(name => !name.includes('.'));
+    expect(claims).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// scopeNonce
+// ============================================================================
+
+describe('scopeNonce', () => {
+  const permit2 = {
+    scheme: 'permit2',
+    network: 'eip155:8453',
+    permit: { permitted: [], nonce: '42', deadline: 1 },
+    witness: { recipient: '0x' + '33'.repeat(20), feeBps: 50 },
+    spender: '0x' + '44'.repeat(20),
+    payer: '0xABCDEF' + '00'.repeat(17),
+    signature: '0x00',
+  } as unknown as PaymentPayload;
+
+  it('should scope by network and lower-cased payer', () => {
+    expect(scopeNonce(permit2)).toBe(`eip155:8453:0xabcdef${'00'.repeat(17)}:42`);
+  });
+
+  it('should differ across networks and payers', () => {
+    const otherChain = { ...permit2, network: 'eip155:56' } as PaymentPayload;
+    const otherPayer = { ...permit2, payer: '0x' + '11'.repeat(20) } as PaymentPayload;
+
+    expect(scopeNonce(otherChain)).not.toBe(scopeNonce(permit2));
+    expect(scopeNonce(otherPayer)).not.toBe(scopeNonce(permit2));
+  });
+
+  it('should use the authorization nonce for ERC-3009', () => {
+    const erc3009 = {
+      scheme: 'erc3009',
+      network: 'eip155:8453',
+      authorization: { nonce: '0x' + 'ab'.repeat(32) },
+      payer: '0x' + '22'.repeat(20),
+    } as unknown as PaymentPayload;
+
+    expect(scopeNonce(erc3009)).toBe(`eip155:8453:0x${'22'.repeat(20)}:0x${'ab'.repeat(32)}`);
+  });
+});
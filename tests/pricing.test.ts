@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseUsdPrice,
+  stablecoinAmount,
+  usdToTokenAmount,
+  assertUsdPriceable,
+  scaleOfferAmount,
+  offerSchemes,
+  createUsdQuoteCache,
+} from '../src/server/pricing.js';
+import { BASE_USDC, BASE_WETH, BASE_CAIP_ID } from '../src/chains/base.js';
+import { BSC_USDC, BSC_USDT, BSC_CAIP_ID } from '../src/chains/bnb.js';
+import { ETH_USDT, ETH_CAIP_ID } from '../src/chains/ethereum.js';
+
+// ============================================================================
+// parseUsdPrice
+// ============================================================================
+
+describe('parseUsdPrice', () => {
+  it('should parse prices with and without a dollar sign', () => {
+    expect(parseUsdPrice('$0.01')).toEqual({ value: BigInt(1), scale: 2 });
+    expect(parseUsdPrice('12')).toEqual({ value: BigInt(12), scale: 0 });
+    expect(parseUsdPrice(' $1.50 ')).toEqual({ value: BigInt(150), scale: 2 });
+  });
+
+  it('should reject malformed prices', () => {
+    expect(() => parseUsdPrice('$-1')).toThrow('Invalid USD price');
+    expect(() => parseUsdPrice('0.01 USD')).toThrow('Invalid USD price');
+    expect(() => parseUsdPrice('1e-2')).toThrow('Invalid USD price');
+    expect(() => parseUsdPrice('')).toThrow('Invalid USD price');
+  });
+});
+
+// ============================================================================
+// stablecoinAmount
+// ============================================================================
+
+describe('stablecoinAmount', () => {
+  it('should convert to 6-decimal stablecoins', () => {
+    expect(stablecoinAmount('$0.01', BASE_CAIP_ID, BASE_USDC.address)).toBe('10000');
+    expect(stablecoinAmount('$2', ETH_CAIP_ID, ETH_USDT.address)).toBe('2000000');
+  });
+
+  it('should convert to 18-decimal stablecoins', () => {
+    expect(stablecoinAmount('$0.01', BSC_CAIP_ID, BSC_USDC.address)).toBe('10000000000000000');
+    expect(stablecoinAmount('$0.01', BSC_CAIP_ID, BSC_USDT.address)).toBe('10000000000000000');
+  });
+
+  it('should round sub-unit prices up', () => {
+    expect(stablecoinAmount('$0.0000001', BASE_CAIP_ID, BASE_USDC.address)).toBe('1');
+  });
+
+  it('should refuse non-stablecoins', () => {
+    expect(() => stablecoinAmount('$0.01', BASE_CAIP_ID, BASE_WETH.address))
+      .toThrow('not a stablecoin');
+  });
+
+  it('should refuse tokens not in SUPPORTED_NETWORKS', () => {
+    expect(() => stablecoinAmount('$0.01', BASE_CAIP_ID, '0x' + '99'.repeat(20)))
+      .toThrow('not in SUPPORTED_NETWORKS');
+  });
+});
+
+// ============================================================================
+// usdToTokenAmount
+// ============================================================================
+
+describe('usdToTokenAmount', () => {
+  it('should convert stablecoins 1:1 without consulting the price source', async () => {
+    const priceSource = vi.fn();
+    expect(await usdToTokenAmount('$0.01', BASE_CAIP_ID, BASE_USDC.address, priceSource)).toBe('10000');
+    expect(priceSource).not.toHaveBeenCalled();
+  });
+
+  it('should value other tokens with the price source', async () => {
+    const priceSource = vi.fn().mockResolvedValue('2000');
+
+    // $0.01 / $2000 per WETH = 0.000005 WETH
+    expect(await usdToTokenAmount('$0.01', BASE_CAIP_ID, BASE_WETH.address, priceSource))
+      .toBe('5000000000000');
+    expect(priceSource).toHaveBeenCalledWith(BASE_WETH, BASE_CAIP_ID);
+  });
+
+  it('should accept numeric quotes and round up', async () => {
+    expect(await usdToTokenAmount('$1', BASE_CAIP_ID, BASE_WETH.address, () => 3))
+      .toBe('333333333333333334');
+  });
+
+  it('should convert numeric quotes too large for toFixed', async () => {
+    expect(await usdToTokenAmount('$1000000', BASE_CAIP_ID, BASE_WETH.address, () => 1e21)).toBe('1000');
+    expect(await usdToTokenAmount('$1', BASE_CAIP_ID, BASE_WETH.address, () => 2.5e-7))
+      .toBe('4000000000000000000000000');
+  });
+
+  it('should refuse non-stablecoins without a price source', async () => {
+    await expect(usdToTokenAmount('$0.01', BASE_CAIP_ID, BASE_WETH.address))
+      .rejects.toThrow('pass a priceSource');
+  });
+
+  it('should reject unusable quotes', async () => {
+    await expect(usdToTokenAmount('$0.01', BASE_CAIP_ID, BASE_WETH.address, () => 'n/a'))
+      .rejects.toThrow('Invalid USD price');
+    await expect(usdToTokenAmount('$0.01', BASE_CAIP_ID, BASE_WETH.address, () => 0))
+      .rejects.toThrow('greater than zero');
+  });
+});
+
+// ============================================================================
+// Offers
+// ============================================================================
+
+describe('assertUsdPriceable', () => {
+  it('should return the token config', () => {
+    expect(assertUsdPriceable(BASE_CAIP_ID, BASE_USDC.address)).toBe(BASE_USDC);
+    expect(assertUsdPriceable(BASE_CAIP_ID, BASE_WETH.address, () => 1)).toBe(BASE_WETH);
+  });
+});
+
+describe('scaleOfferAmount', () => {
+  it('should rescale the primary amount to the offer token', () => {
+    const primary = { networkId: BASE_CAIP_ID, tokenAddress: BASE_USDC.address, amount: '10000' };
+    expect(scaleOfferAmount(primary, BSC_CAIP_ID, BSC_USDT.address)).toBe('10000000000000000');
+  });
+});
+
+describe('offerSchemes', () => {
+  it('should drop ERC-3009 for listed tokens without support', () => {
+    expect(offerSchemes(BSC_CAIP_ID, BSC_USDT.address, ['permit2', 'erc3009'])).toEqual(['permit2']);
+    expect(offerSchemes(BASE_CAIP_ID, BASE_USDC.address, ['permit2', 'erc3009']))
+      .toEqual(['permit2', 'erc3009']);
+  });
+
+  it('should keep schemes for unlisted tokens', () => {
+    expect(offerSchemes(BASE_CAIP_ID, '0x' + '99'.repeat(20), ['erc3009'])).toEqual(['erc3009']);
+  });
+});
+
+// ============================================================================
+// createUsdQuoteCache
+// ============================================================================
+
+describe('createUsdQuoteCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reuse a quote until it is older than the TTL', async () => {
+    vi.useFakeTimers();
+    const priceSource = vi.fn().mockResolvedValueOnce('2000').mockResolvedValue('2100');
+    const quotes = createUsdQuoteCache(priceSource, 60_000, 300_000);
+
+    expect(await quotes.current(BASE_WETH, BASE_CAIP_ID)).toBe('2000');
+    vi.advanceTimersByTime(59_999);
+    expect(await quotes.current(BASE_WETH, BASE_CAIP_ID)).toBe('2000');
+    vi.advanceTimersByTime(1);
+    expect(await quotes.current(BASE_WETH, BASE_CAIP_ID)).toBe('2100');
+    expect(priceSource).toHaveBeenCalledTimes(2);
+  });
+
+  it('should verify payments with the highest quote still within the grace period', async () => {
+    vi.useFakeTimers();
+    const priceSource = vi.fn()
+      .mockResolvedValueOnce('2000')
+      .mockResolvedValueOnce('1600')
+      .mockResolvedValue('1500');
+    const quotes = createUsdQuoteCache(priceSource, 60_000, 300_000);
+
+    await quotes.current(BASE_WETH, BASE_CAIP_ID);
+    vi.advanceTimersByTime(60_000);
+    expect(await quotes.current(BASE_WETH, BASE_CAIP_ID)).toBe('1600');
+    expect(await quotes.forPayment(BASE_WETH, BASE_CAIP_ID)).toBe('2000');
+
+    // The $2000 quote was replaced 300s + 60s ago, past any deadline it was quoted with
+    vi.advanceTimersByTime(360_001);
+    expect(await quotes.forPayment(BASE_WETH, BASE_CAIP_ID)).toBe('1600');
+  });
+
+  it('should quote each network and token separately', async () => {
+    const priceSource = vi.fn().mockResolvedValue('2000');
+    const quotes = createUsdQuoteCache(priceSource, 60_000, 300_000);
+
+    await quotes.current(BASE_WETH, BASE_CAIP_ID);
+    await quotes.current(BASE_WETH, BSC_CAIP_ID);
+
+    expect(priceSource).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { compileRoute, compileRoutes, matchRoute } from '../src/server/routes.js';
+import type { X402Route } from '../src/types/index.js';
+
+// ============================================================================
+// compileRoute
+// ============================================================================
+
+describe('compileRoute', () => {
+  const matches = (pattern: string, path: string) =>
+    compileRoute({ path: pattern }).matchPath(path);
+
+  it('should match literal paths exactly', () => {
+    expect(matches('/reports', '/reports')).toEqual({});
+    expect(matches('/reports', '/reports/')).toEqual({});
+    expect(matches('/reports', '/reports/1')).toBeNull();
+    expect(matches('/reports', '/other')).toBeNull();
+  });
+
+  it('should capture path params', () => {
+    expect(matches('/models/:model/runs/:id', '/models/gpt/runs/42')).toEqual({
+      model: 'gpt',
+      id: '42',
+    });
+    expect(matches('/models/:model', '/models')).toBeNull();
+  });
+
+  it('should decode captured params', () => {
+    expect(matches('/files/:name', '/files/a%20b')).toEqual({ name: 'a b' });
+    expect(matches('/files/:name', '/files/%E0%A4%A')).toEqual({ name: '%E0%A4%A' });
+  });
+
+  it('should match a trailing /* against the base path and everything below it', () => {
+    expect(matches('/files/*', '/files')).toEqual({});
+    expect(matches('/files/*', '/files/a/b/c')).toEqual({});
+    expect(matches('/files/*', '/filesystem')).toBeNull();
+  });
+
+  it('should match a trailing * inside a segment as a prefix', () => {
+    expect(matches('/health*', '/health')).toEqual({});
+    expect(matches('/health*', '/healthz')).toEqual({});
+    expect(matches('/health*', '/health/deep')).toEqual({});
+    expect(matches('/health*', '/status')).toBeNull();
+  });
+
+  it('should match literal segments case-insensitively by default', () => {
+    expect(matches('/reports/:id', '/REPORTS/AbC')).toEqual({ id: 'AbC' });
+    expect(matches('/Health*', '/healthZ')).toEqual({});
+    expect(compileRoute({ path: '/reports/:id' }, { caseSensitive: true }).matchPath('/Reports/1')).toBeNull();
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => compileRoute({ path: 'reports' })).toThrow('must start with "/"');
+    expect(() => compileRoute({ path: '/a/*/b' })).toThrow('wildcard must be at the end');
+  });
+});
+
+// ============================================================================
+// matchRoute
+// ============================================================================
+
+describe('matchRoute', () => {
+  const routes: X402Route[] = [
+    { path: '/*', amount: 'catch-all' },
+    { path: '/models/*', amount: 'models-any' },
+    { path: '/models/:model', amount: 'model-param' },
+    { path: '/models/free', free: true },
+    { method: 'POST', path: '/models/:model', amount: 'model-post' },
+  ];
+  const table = compileRoutes(routes);
+
+  const amountFor = (method: string, path: string) =>
+    matchRoute(table, method, path)?.route.amount;
+
+  it('should prefer literal segments over params', () => {
+    expect(matchRoute(table, 'GET', '/models/free')?.route.free).toBe(true);
+  });
+
+  it('should prefer params over wildcards', () => {
+    expect(amountFor('GET', '/models/gpt')).toBe('model-param');
+    expect(amountFor('GET', '/models/gpt/runs')).toBe('models-any');
+  });
+
+  it('should prefer a method-specific route', () => {
+    expect(amountFor('POST', '/models/gpt')).toBe('model-post');
+    expect(amountFor('post', '/models/gpt')).toBe('model-post');
+  });
+
+  it('should fall back to broader routes', () => {
+    expect(amountFor('GET', '/anything/else')).toBe('catch-all');
+  });
+
+  it('should report the matched pattern and params', () => {
+    expect(matchRoute(table, 'POST', '/models/gpt')?.match).toEqual({
+      method: 'POST',
+      path: '/models/:model',
+      params: { model: 'gpt' },
+    });
+  });
+
+  it('should keep declaration order between equally specific routes', () => {
+    const tied = compileRoutes([
+      { path: '/a/:x', amount: 'first' },
+      { path: '/a/:y', amount: 'second' },
+    ]);
+    expect(matchRoute(tied, 'GET', '/a/1')?.route.amount).toBe('first');
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(matchRoute(compileRoutes([{ path: '/a' }]), 'GET', '/b')).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { selectCheapestAffordable, preferERC3009, offerUsdCost } from '../src/client/selection.js';
+import type { AcceptSelectionContext, PaymentAcceptEntry } from '../src/types/index.js';
+import { BASE_CAIP_ID, BASE_USDC, BASE_WETH } from '../src/chains/base.js';
+import { BSC_CAIP_ID, BSC_USDT } from '../src/chains/bnb.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function buildAccept(overrides: Partial<PaymentAcceptEntry> = {}): PaymentAcceptEntry {
+  return {
+    scheme: 'permit2',
+    network: BASE_CAIP_ID,
+    token: BASE_USDC.address,
+    amount: '1000000',
+    recipient: '0x742d35Cc6634C0532925a3b844Bc9e7595f4b123',
+    settlement: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    treasury: '0x1b4F633B1FC5FC26Fb8b722b2373B3d4D71aCaeB',
+    feeBps: 50,
+    maxDeadline: Math.floor(Date.now() / 1000) + 300,
+    ...overrides,
+  };
+}
+
+/** Context answering from per-offer tables; offers not listed read as unknown, needing no approval */
+function buildContext(
+  offers: Map<PaymentAcceptEntry, { balance?: bigint; needsApproval?: boolean }> = new Map()
+): AcceptSelectionContext {
+  return {
+    balanceOf: async accept => offers.get(accept)?.balance ?? null,
+    needsApproval: async accept => offers.get(accept)?.needsApproval ?? false,
+    usdCost: accept => offerUsdCost(accept),
+  };
+}
+
+// ============================================================================
+// offerUsdCost
+// ============================================================================
+
+describe('offerUsdCost', () => {
+  it('should value listed stablecoins 1:1, whatever their decimals', async () => {
+    expect(await offerUsdCost(buildAccept({ amount: '2500000' }))).toBe(2.5);
+    expect(await offerUsdCost(buildAccept({
+      network: BSC_CAIP_ID,
+      token: BSC_USDT.address,
+      amount: '2500000000000000000',
+    }))).toBe(2.5);
+  });
+
+  it('should value other listed tokens with the price source', async () => {
+    const weth = buildAccept({ token: BASE_WETH.address, amount: '500000000000000000' });
+
+    expect(await offerUsdCost(weth)).toBeNull();
+    expect(await offerUsdCost(weth, () => '3000')).toBe(1500);
+  });
+
+  it('should not price unlisted tokens', async () => {
+    expect(await offerUsdCost(buildAccept({ token: '0x0000000000000000000000000000000000000001' }))).toBeNull();
+  });
+});
+
+// ============================================================================
+// selectCheapestAffordable
+// ============================================================================
+
+describe('selectCheapestAffordable', () => {
+  it('should pick the cheapest offer in USD across tokens and networks', async () => {
+    const base = buildAccept({ amount: '1000000' });
+    const bsc = buildAccept({ network: BSC_CAIP_ID, token: BSC_USDT.address, amount: '900000000000000000' });
+
+    expect(await selectCheapestAffordable([base, bsc], buildContext())).toBe(bsc);
+  });
+
+  it('should skip offers the balance cannot cover', async () => {
+    const cheap = buildAccept({ amount: '500000' });
+    const dear = buildAccept({ amount: '1000000' });
+    const context = buildContext(new Map([
+      [cheap, { balance: BigInt(499999) }],
+      [dear, { balance: BigInt(1000000) }],
+    ]));
+
+    expect(await selectCheapestAffordable([cheap, dear], context)).toBe(dear);
+  });
+
+  it('should return null when no offer can be covered', async () => {
+    const accept = buildAccept();
+
+    expect(await selectCheapestAffordable([accept], buildContext(new Map([[accept, { balance: BigInt(0) }]])))).toBeNull();
+  });
+
+  it('should prefer offers that need no approval over cheaper ones that do', async () => {
+    const needsApproval = buildAccept({ amount: '500000' });
+    const ready = buildAccept({ amount: '1000000' });
+    const context = buildContext(new Map([[needsApproval, { needsApproval: true }]]));
+
+    expect(await selectCheapestAffordable([needsApproval, ready], context)).toBe(ready);
+  });
+
+  it('should rank unpriced offers last', async () => {
+    const unpriced = buildAccept({ token: BASE_WETH.address, amount: '1' });
+    const priced = buildAccept({ amount: '5000000' });
+
+    expect(await selectCheapestAffordable([unpriced, priced], buildContext())).toBe(priced);
+  });
+
+  it('should break ties towards ERC-3009, then server order', async () => {
+    const first = buildAccept();
+    const second = buildAccept();
+    const erc3009 = buildAccept({ scheme: 'erc3009' });
+
+    expect(await selectCheapestAffordable([first, erc3009], buildContext())).toBe(erc3009);
+    expect(await selectCheapestAffordable([first, second], buildContext())).toBe(first);
+  });
+});
+
+// ============================================================================
+// preferERC3009
+// ============================================================================
+
+describe('preferERC3009', () => {
+  it('should take the first ERC-3009 entry, else the first Permit2 entry', async () => {
+    const permit2 = buildAccept();
+    const erc3009 = buildAccept({ scheme: 'erc3009', amount: '9000000' });
+
+    expect(await preferERC3009([permit2, erc3009], buildContext())).toBe(erc3009);
+    expect(await preferERC3009([permit2], buildContext())).toBe(permit2);
+    expect(await preferERC3009([], buildContext())).toBeNull();
+  });
+});
@@ -1,22 +1,44 @@
-import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Request, Response, NextFunction } from 'express';
 
-// Mock axios for facilitator calls
-vi.mock('axios', () => ({
-  default: {
-    post: vi.fn(),
-  },
-}));
+// Stub fetch for facilitator calls
+const facilitatorFetch = vi.fn();
+vi.stubGlobal('fetch', facilitatorFetch);
 
-import axios from 'axios';
+/** Facilitator reply as `fetch` resolves it */
+function facilitatorReply(body: unknown, status = 200) {
+  return new globalThis.Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+import { getAddress, type PublicClient, type WalletClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
 import {
   x402Middleware,
   createPaymentRequirement,
+  createPaymentRequirementAsync,
   parsePaymentFromRequest,
+  verifyPaymentSignature,
+  InMemoryNonceStore,
   type X402Request,
 } from '../src/server/index.js';
-import { X402_HEADERS, X402_VERSION } from '../src/types/index.js';
-import { BASE_USDC, BASE_CAIP_ID } from '../src/chains/base.js';
+import {
+  X402_HEADERS,
+  X402_VERSION,
+  PERMIT2_BATCH_WITNESS_TYPES,
+  ERC3009_TYPES,
+  getPermit2Domain,
+  getERC3009Domain,
+  extractChainId,
+  type Permit2Payload,
+  type ERC3009Payload,
+  type PaymentPayload,
+} from '../src/types/index.js';
+import { BASE_USDC, BASE_WETH, BASE_CAIP_ID } from '../src/chains/base.js';
+import { BSC_USDC, BSC_USDT, BSC_CAIP_ID } from '../src/chains/bnb.js';
+import { SettlementError } from '../src/facilitator/services/settlement.js';
 
 // ============================================================================
 // Test Utilities
@@ -57,13 +79,72 @@ function createMockResponse(): Response & { jsonData?: unknown; statusCode?: num
   return res as unknown as Response & { jsonData?: unknown; statusCode?: number; headersSent: Record<string, string> };
 }
 
-/** Counter to ensure unique nonces across tests (NonceRegistry is a module singleton) */
+/** Well-known test key (Hardhat account #0) */
+const payerAccount = privateKeyToAccount(
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+);
+/** A second key, used to forge payloads on behalf of payerAccount */
+const otherAccount = privateKeyToAccount(
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+);
+
+/** Counter to ensure unique nonces across tests (the default nonce store is a module singleton) */
 let nonceCounter = 0;
 
-/** Build a valid Permit2 payment payload for tests */
-function buildPermit2Payload(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+/** viem requires valid checksums in typed data; the test constants are not all checksummed */
+const checksum = (address: string) => getAddress(address.toLowerCase());
+
+/** Sign a Permit2 payload's typed data with the given account */
+async function signPermit2(payload: Omit<Permit2Payload, 'signature'>, account = payerAccount): Promise<string> {
+  return account.signTypedData({
+    domain: getPermit2Domain(extractChainId(payload.network)),
+    types: PERMIT2_BATCH_WITNESS_TYPES,
+    primaryType: 'PermitBatchWitnessTransferFrom',
+    message: {
+      permitted: payload.permit.permitted.map(p => ({
+        token: checksum(p.token),
+        amount: BigInt(p.amount),
+      })),
+      spender: checksum(payload.spender),
+      nonce: BigInt(payload.permit.nonce),
+      deadline: BigInt(payload.permit.deadline),
+      witness: {
+        recipient: checksum(payload.witness.recipient),
+        feeBps: BigInt(payload.witness.feeBps),
+      },
+    },
+  });
+}
+
+/** Sign an ERC-3009 payload's typed data with the given account */
+async function signERC3009(
+  payload: Omit<ERC3009Payload, 'signature'>,
+  account = payerAccount,
+  token = TEST_TOKEN
+): Promise<string> {
+  const { authorization } = payload;
+  return account.signTypedData({
+    domain: getERC3009Domain(token, 'USD Coin', extractChainId(payload.network)),
+    types: ERC3009_TYPES,
+    primaryType: 'TransferWithAuthorization',
+    message: {
+      from: checksum(authorization.from),
+      to: checksum(authorization.to),
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce as `0x${string}`,
+    },
+  });
+}
+
+/** Build a valid, signed Permit2 payment payload for tests */
+async function buildPermit2Payload(
+  overrides: Partial<Permit2Payload> = {},
+  signer = payerAccount
+): Promise<Permit2Payload> {
   nonceCounter++;
-  return {
+  const payload: Omit<Permit2Payload, 'signature'> = {
     scheme: 'permit2',
     network: BASE_CAIP_ID,
     permit: {
@@ -79,10 +160,87 @@ function buildPermit2Payload(overrides: Record<string, unknown> = {}): Record<st
       feeBps: 50,
     },
     spender: TEST_SETTLEMENT,
-    payer: '0xABC123def456789012345678901234567890abcd',
-    signature: '0x' + 'ab'.repeat(65),
+    payer: payerAccount.address,
+    ...overrides,
+  };
+  return { ...payload, signature: overrides.signature ?? await signPermit2(payload, signer) };
+}
+
+/** Build a valid, signed ERC-3009 payment payload for tests */
+async function buildERC3009Payload(
+  overrides: Partial<ERC3009Payload> = {},
+  signer = payerAccount
+): Promise<ERC3009Payload> {
+  nonceCounter++;
+  const payload: Omit<ERC3009Payload, 'signature'> = {
+    scheme: 'erc3009',
+    network: BASE_CAIP_ID,
+    authorization: {
+      from: payerAccount.address,
+      to: TEST_SETTLEMENT,
+      value: '1000000',
+      validAfter: 0,
+      validBefore: Math.floor(Date.now() / 1000) + 300,
+      nonce: '0x' + nonceCounter.toString(16).padStart(64, '0'),
+    },
+    recipient: TEST_RECIPIENT,
+    payer: payerAccount.address,
     ...overrides,
   };
+  return { ...payload, signature: overrides.signature ?? await signERC3009(payload, signer) };
+}
+
+/**
+ * Response double that behaves like Express's for after-handler settlement:
+ * `json` goes through `this.end`, and headers freeze once the head is written.
+ */
+function createStreamingResponse() {
+  let finish!: () => void;
+  const res = {
+    statusCode: 200,
+    headersSent: false,
+    headers: {} as Record<string, string>,
+    body: '',
+    finished: new Promise<void>(resolve => { finish = resolve; }),
+    setHeader(key: string, value: string) {
+      if (this.headersSent) throw new Error('Cannot set headers after they are sent');
+      this.headers[key.toLowerCase()] = value;
+      return this;
+    },
+    getHeaderNames() {
+      return Object.keys(this.headers);
+    },
+    removeHeader(key: string) {
+      if (this.headersSent) throw new Error('Cannot remove headers after they are sent');
+      delete this.headers[key.toLowerCase()];
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      this.setHeader('content-type', 'application/json');
+      return this.end(JSON.stringify(data));
+    },
+    writeHead(code: number, headers: Record<string, string> = {}) {
+      this.statusCode = code;
+      for (const [key, value] of Object.entries(headers)) this.setHeader(key, value);
+      this.headersSent = true;
+      return this;
+    },
+    write(chunk: string) {
+      this.headersSent = true;
+      this.body += chunk;
+      return true;
+    },
+    end(chunk?: string) {
+      this.headersSent = true;
+      if (chunk) this.body += chunk;
+      finish();
+      return this;
+    },
+  };
+  return res;
 }
 
 // ============================================================================
@@ -180,6 +338,65 @@ describe('createPaymentRequirement', () => {
     expect(requirement.accepts[0]!.scheme).toBe('permit2');
     expect(requirement.accepts[1]!.scheme).toBe('erc3009');
   });
+
+  it('should convert a USD price to the token\'s smallest unit', () => {
+    const requirement = createPaymentRequirement({
+      recipientAddress: TEST_RECIPIENT,
+      price: '$0.01',
+      tokenAddress: BSC_USDT.address,
+      networkId: BSC_CAIP_ID,
+      settlementAddress: TEST_SETTLEMENT,
+      treasuryAddress: TEST_TREASURY,
+    });
+
+    expect(requirement.accepts[0]!.amount).toBe('10000000000000000');
+  });
+
+  it('should refuse a USD price for non-stablecoins', () => {
+    expect(() => createPaymentRequirement({
+      recipientAddress: TEST_RECIPIENT,
+      price: '$0.01',
+      tokenAddress: BASE_WETH.address,
+      settlementAddress: TEST_SETTLEMENT,
+      treasuryAddress: TEST_TREASURY,
+    })).toThrow('not a stablecoin');
+  });
+
+  it('should require exactly one of amount and price', () => {
+    const base = {
+      recipientAddress: TEST_RECIPIENT,
+      settlementAddress: TEST_SETTLEMENT,
+      treasuryAddress: TEST_TREASURY,
+    };
+    expect(() => createPaymentRequirement(base)).toThrow('requires `amount` or `price`');
+    expect(() => createPaymentRequirement({ ...base, amount: '1', price: '$1' })).toThrow('not both');
+  });
+
+  it('should price non-stablecoins with a price source when built async', async () => {
+    const priceSource = vi.fn().mockResolvedValue('2500');
+    const requirement = await createPaymentRequirementAsync({
+      recipientAddress: TEST_RECIPIENT,
+      price: '$0.01',
+      tokenAddress: BASE_WETH.address,
+      settlementAddress: TEST_SETTLEMENT,
+      treasuryAddress: TEST_TREASURY,
+      priceSource,
+    });
+
+    // $0.01 / $2500 = 0.000004 WETH
+    expect(requirement.accepts[0]!.amount).toBe('4000000000000');
+    expect(priceSource).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'WETH' }), BASE_CAIP_ID);
+  });
+
+  it('should still refuse non-stablecoins without a price source when built async', async () => {
+    await expect(createPaymentRequirementAsync({
+      recipientAddress: TEST_RECIPIENT,
+      price: '$0.01',
+      tokenAddress: BASE_WETH.address,
+      settlementAddress: TEST_SETTLEMENT,
+      treasuryAddress: TEST_TREASURY,
+    })).rejects.toThrow('not a stablecoin');
+  });
 });
 
 // ============================================================================
@@ -187,8 +404,8 @@ describe('createPaymentRequirement', () => {
 // ============================================================================
 
 describe('parsePaymentFromRequest', () => {
-  it('should parse valid payment from x-payment header', () => {
-    const payload = buildPermit2Payload();
+  it('should parse valid payment from x-payment header', async () => {
+    const payload = await buildPermit2Payload();
     const req = createMockRequest({
       headers: {
         [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
@@ -322,7 +539,7 @@ describe('x402Middleware', () => {
 
   describe('with valid payment', () => {
     it('should call next() for valid Permit2 payment', async () => {
-      const payload = buildPermit2Payload();
+      const payload = await buildPermit2Payload();
       req = createMockRequest({
         headers: {
           [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
@@ -336,7 +553,7 @@ describe('x402Middleware', () => {
     });
 
     it('should attach payment info to request', async () => {
-      const payload = buildPermit2Payload();
+      const payload = await buildPermit2Payload();
       req = createMockRequest({
         headers: {
           [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
@@ -362,15 +579,13 @@ describe('x402Middleware', () => {
         facilitatorUrl,
       });
 
-      (axios.post as Mock).mockResolvedValue({
-        data: {
-          success: true,
-          txHash: '0x' + 'ab'.repeat(32),
-          network: BASE_CAIP_ID,
-        },
-      });
+      facilitatorFetch.mockImplementation(async () => facilitatorReply({
+        success: true,
+        txHash: '0x' + 'ab'.repeat(32),
+        network: BASE_CAIP_ID,
+      }));
 
-      const payload = buildPermit2Payload();
+      const payload = await buildPermit2Payload();
       req = createMockRequest({
         headers: {
           [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
@@ -379,10 +594,12 @@ describe('x402Middleware', () => {
 
       await middleware(req, res, next);
 
-      expect(axios.post).toHaveBeenCalledWith(
+      expect(facilitatorFetch).toHaveBeenCalledWith(
         `${facilitatorUrl}/x402/settle`,
-        expect.objectContaining({ scheme: 'permit2' }),
-        expect.any(Object)
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(JSON.parse(facilitatorFetch.mock.calls[0]![1].body)).toEqual(
+        expect.objectContaining({ scheme: 'permit2' })
       );
       expect(next).toHaveBeenCalled();
       expect(res.setHeader).toHaveBeenCalledWith(
@@ -402,11 +619,9 @@ describe('x402Middleware', () => {
         facilitatorUrl,
       });
 
-      (axios.post as Mock).mockResolvedValue({
-        data: { success: false, network: BASE_CAIP_ID },
-      });
+      facilitatorFetch.mockImplementation(async () => facilitatorReply({ success: false, network: BASE_CAIP_ID }));
 
-      const payload = buildPermit2Payload();
+      const payload = await buildPermit2Payload();
       req = createMockRequest({
         headers: {
           [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
@@ -423,182 +638,1657 @@ describe('x402Middleware', () => {
     });
   });
 
-  describe('with invalid payment', () => {
-    it('should return 400 for invalid JSON in x-payment header', async () => {
-      req = createMockRequest({
-        headers: {
-          [X402_HEADERS.PAYMENT]: 'not-json',
-        },
+  describe('settlement failure', () => {
+    const facilitatorUrl = 'https://facilitator.example.com';
+
+    beforeEach(() => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        facilitatorUrl,
       });
+    });
 
-      await middleware(req, res, next);
+    function paymentRequest(payload: object): X402Request {
+      return createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+    }
 
-      expect(res.status).toHaveBeenCalledWith(400);
+    it('should release the nonce when the facilitator is unreachable', async () => {
+      facilitatorFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+      const payload = await buildPermit2Payload();
+
+      await middleware(paymentRequest(payload), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(402);
       expect(res.json).toHaveBeenCalledWith(
-        expect.objectContaining({ error: 'Invalid Payment' })
+        expect.objectContaining({ code: 'SETTLEMENT_FAILED', retryable: true })
       );
-    });
-
-    it('should return 400 for invalid payload schema', async () => {
-      req = createMockRequest({
-        headers: {
-          [X402_HEADERS.PAYMENT]: JSON.stringify({ scheme: 'unknown' }),
-        },
-      });
 
-      await middleware(req, res, next);
-      expect(res.status).toHaveBeenCalledWith(400);
+      // The same signed payload settles on retry
+      facilitatorFetch.mockResolvedValueOnce(facilitatorReply(
+        { success: true, txHash: '0x' + 'ab'.repeat(32), network: BASE_CAIP_ID }
+      ));
+      await middleware(paymentRequest(payload), createMockResponse(), next);
+      expect(next).toHaveBeenCalled();
     });
 
-    it('should return 400 for network mismatch', async () => {
-      const payload = buildPermit2Payload({ network: 'eip155:1' });
-      req = createMockRequest({
-        headers: {
-          [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
-        },
-      });
+    it('should release the nonce on a facilitator 5xx', async () => {
+      facilitatorFetch.mockResolvedValueOnce(facilitatorReply({ error: 'INTERNAL_ERROR' }, 503));
 
-      await middleware(req, res, next);
+      await middleware(paymentRequest(await buildPermit2Payload()), res, next);
 
-      expect(res.status).toHaveBeenCalledWith(400);
       expect(res.json).toHaveBeenCalledWith(
-        expect.objectContaining({ error: 'Network Mismatch' })
+        expect.objectContaining({ retryable: true, reason: 'INTERNAL_ERROR' })
       );
     });
 
-    it('should return 400 for expired payment', async () => {
-      const payload = buildPermit2Payload({
-        permit: {
-          permitted: [
-            { token: TEST_TOKEN, amount: '995000' },
-            { token: TEST_TOKEN, amount: '5000' },
-          ],
-          nonce: String(Date.now()),
-          deadline: Math.floor(Date.now() / 1000) - 60,
-        },
-      });
-      req = createMockRequest({
-        headers: {
-          [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
-        },
-      });
+    it('should burn the nonce when the facilitator rejects the payload', async () => {
+      facilitatorFetch.mockResolvedValueOnce(
+        facilitatorReply({ error: 'TX_REVERTED', message: 'reverted' }, 400)
+      );
+      const payload = await buildPermit2Payload();
 
-      await middleware(req, res, next);
+      await middleware(paymentRequest(payload), res, next);
 
-      expect(res.status).toHaveBeenCalledWith(400);
       expect(res.json).toHaveBeenCalledWith(
-        expect.objectContaining({ error: 'Payment Expired' })
+        expect.objectContaining({ retryable: false, reason: 'TX_REVERTED' })
       );
+
+      const res2 = createMockResponse();
+      await middleware(paymentRequest(payload), res2, next);
+      expect(res2.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'NONCE_REPLAYED' })
+      );
+      expect(next).not.toHaveBeenCalled();
     });
 
-    it('should return 402 for insufficient payment amount', async () => {
-      const payload = buildPermit2Payload({
-        permit: {
-          permitted: [
-            { token: TEST_TOKEN, amount: '50' },
-            { token: TEST_TOKEN, amount: '5' },
-          ],
-          nonce: String(Date.now()),
-          deadline: Math.floor(Date.now() / 1000) + 300,
-        },
-      });
-      req = createMockRequest({
-        headers: {
-          [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
-        },
-      });
+    it('should burn the nonce when the facilitator reports a pending settlement', async () => {
+      const pendingHash = '0x' + 'cd'.repeat(32);
+      facilitatorFetch.mockResolvedValueOnce(facilitatorReply(
+        { error: 'SETTLEMENT_PENDING', message: 'not confirmed', txHash: pendingHash, settlementId: 's-1' },
+        400
+      ));
+      const payload = await buildPermit2Payload();
 
-      await middleware(req, res, next);
+      await middleware(paymentRequest(payload), res, next);
 
-      expect(res.status).toHaveBeenCalledWith(402);
-      expect(res.json).toHaveBeenCalledWith(
-        expect.objectContaining({ error: 'Insufficient Payment' })
-      );
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'SETTLEMENT_PENDING',
+        retryable: false,
+        txHash: pendingHash,
+        settlementId: 's-1',
+      }));
+
+      const res2 = createMockResponse();
+      await middleware(paymentRequest(payload), res2, next);
+      expect(res2.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'NONCE_REPLAYED' }));
     });
 
-    it('should return 402 for replayed nonce', async () => {
-      const nonce = String(Date.now());
-      const payload = buildPermit2Payload({
-        permit: {
-          permitted: [
-            { token: TEST_TOKEN, amount: '995000' },
-            { token: TEST_TOKEN, amount: '5000' },
-          ],
-          nonce,
-          deadline: Math.floor(Date.now() / 1000) + 300,
-        },
+    it('should hold a short lease while settling and commit for the full validity', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      const claim = vi.spyOn(nonceStore, 'claim');
+      const commit = vi.spyOn(nonceStore, 'commit');
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        facilitatorUrl,
+        nonceStore,
       });
+      facilitatorFetch.mockResolvedValueOnce(facilitatorReply(
+        { success: true, txHash: '0x' + 'ab'.repeat(32), network: BASE_CAIP_ID }
+      ));
+
+      await middleware(paymentRequest(await buildPermit2Payload()), res, next);
 
-      // First request succeeds
-      req = createMockRequest({
-        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
-      });
-      await middleware(req, res, next);
       expect(next).toHaveBeenCalled();
+      expect(claim.mock.calls[0]![1]).toBe(120_000);
+      expect(commit.mock.calls[0]![1]).toBeGreaterThanOrEqual(300_000);
+    });
 
-      // Second request with same nonce fails
-      const res2 = createMockResponse();
-      const next2 = vi.fn();
-      req = createMockRequest({
-        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+    it('should release the nonce when an unexpected error occurs mid-settlement', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      const release = vi.spyOn(nonceStore, 'release');
+      vi.spyOn(nonceStore, 'commit').mockRejectedValueOnce(new Error('store down'));
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        nonceStore,
       });
-      await middleware(req, res2, next2);
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      expect(res2.status).toHaveBeenCalledWith(402);
-      expect(res2.json).toHaveBeenCalledWith(
-        expect.objectContaining({ error: 'Replay Detected' })
-      );
+      await middleware(paymentRequest(await buildPermit2Payload()), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(release).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
     });
   });
 
-  describe('excluded routes', () => {
-    it('should skip payment check for excluded routes', async () => {
+  describe('local settlement', () => {
+    const txHash = ('0x' + 'cd'.repeat(32)) as `0x${string}`;
+
+    function paymentRequest(payload: object): X402Request {
+      return createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+    }
+
+    it('should settle in-process through the given viem clients', async () => {
+      const writeContract = vi.fn().mockResolvedValue(txHash);
+      const walletClient = {
+        writeContract,
+        account: { address: TEST_TREASURY },
+        chain: { id: 8453 },
+      } as unknown as WalletClient;
+      const publicClient = {
+        waitForTransactionReceipt: vi.fn().mockResolvedValue({
+          status: 'success',
+          gasUsed: BigInt(65_000),
+          effectiveGasPrice: BigInt(1_000_000),
+        }),
+      } as unknown as PublicClient;
       middleware = x402Middleware({
         recipientAddress: TEST_RECIPIENT,
         amount,
         tokenAddress: TEST_TOKEN,
         settlementAddress: TEST_SETTLEMENT,
         treasuryAddress: TEST_TREASURY,
-        excludeRoutes: ['/health', '/public'],
+        settlement: {
+          publicClients: { [BASE_CAIP_ID]: publicClient },
+          walletClients: { [BASE_CAIP_ID]: walletClient },
+        },
       });
 
-      req = createMockRequest({ path: '/health' });
+      req = paymentRequest(await buildPermit2Payload());
       await middleware(req, res, next);
 
+      expect(writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({ address: TEST_SETTLEMENT, functionName: 'settle' })
+      );
+      expect(facilitatorFetch).not.toHaveBeenCalled();
       expect(next).toHaveBeenCalled();
-      expect(res.status).not.toHaveBeenCalled();
+      expect(req.x402?.settlementResult).toEqual(
+        expect.objectContaining({ success: true, txHash, network: BASE_CAIP_ID })
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(X402_HEADERS.PAYMENT_RESPONSE, expect.any(String));
     });
 
-    it('should skip payment check for routes starting with excluded prefix', async () => {
+    it('should settle through a PaymentSettler such as a SettlementService', async () => {
+      const settleX402 = vi.fn().mockResolvedValue({ success: true, txHash, network: BASE_CAIP_ID });
       middleware = x402Middleware({
         recipientAddress: TEST_RECIPIENT,
         amount,
         tokenAddress: TEST_TOKEN,
         settlementAddress: TEST_SETTLEMENT,
         treasuryAddress: TEST_TREASURY,
-        excludeRoutes: ['/public'],
+        settlement: { settleX402 },
       });
+      const payload = await buildPermit2Payload();
 
-      req = createMockRequest({ path: '/public/assets/image.png' });
-      await middleware(req, res, next);
+      await middleware(paymentRequest(payload), res, next);
 
+      expect(settleX402).toHaveBeenCalledWith(expect.objectContaining({ signature: payload.signature }));
       expect(next).toHaveBeenCalled();
     });
 
-    it('should require payment for non-excluded routes', async () => {
+    it('should burn the nonce when the settler reports a final error', async () => {
+      const settleX402 = vi.fn().mockRejectedValue(
+        new SettlementError('Transaction reverted on-chain.', 'TX_REVERTED')
+      );
       middleware = x402Middleware({
         recipientAddress: TEST_RECIPIENT,
         amount,
         tokenAddress: TEST_TOKEN,
         settlementAddress: TEST_SETTLEMENT,
         treasuryAddress: TEST_TREASURY,
-        excludeRoutes: ['/health'],
+        settlement: { settleX402 },
       });
+      const payload = await buildPermit2Payload();
 
-      req = createMockRequest({ path: '/api/paid' });
-      await middleware(req, res, next);
+      await middleware(paymentRequest(payload), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'SETTLEMENT_FAILED', retryable: false, reason: 'TX_REVERTED' })
+      );
+
+      const res2 = createMockResponse();
+      await middleware(paymentRequest(payload), res2, next);
+      expect(res2.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'NONCE_REPLAYED' }));
+    });
+
+    it('should burn the nonce and name the transaction when settlement is pending', async () => {
+      const settleX402 = vi.fn().mockRejectedValue(
+        new SettlementError('Settlement was submitted but not confirmed: timeout', 'SETTLEMENT_PENDING', {
+          txHash,
+          settlementId: 'settlement-1',
+        })
+      );
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        settlement: { settleX402 },
+      });
+      const payload = await buildPermit2Payload();
+
+      await middleware(paymentRequest(payload), res, next);
 
       expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'SETTLEMENT_PENDING',
+        retryable: false,
+        txHash,
+        settlementId: 'settlement-1',
+      }));
+
+      const res2 = createMockResponse();
+      await middleware(paymentRequest(payload), res2, next);
+      expect(res2.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'NONCE_REPLAYED' }));
+      expect(settleX402).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting for local settlement before the nonce lease lapses', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        let started!: () => void;
+        const settling = new Promise<void>(resolve => { started = resolve; });
+        const settleX402 = vi.fn(() => {
+          started();
+          return new Promise<never>(() => {});
+        });
+        const nonceStore = new InMemoryNonceStore();
+        const claim = vi.spyOn(nonceStore, 'claim');
+        const commit = vi.spyOn(nonceStore, 'commit');
+        const release = vi.spyOn(nonceStore, 'release');
+        middleware = x402Middleware({
+          recipientAddress: TEST_RECIPIENT,
+          amount,
+          tokenAddress: TEST_TOKEN,
+          settlementAddress: TEST_SETTLEMENT,
+          treasuryAddress: TEST_TREASURY,
+          settlement: { settleX402 },
+          nonceStore,
+        });
+        const payload = await buildPermit2Payload();
+
+        const handled = middleware(paymentRequest(payload), res, next);
+        await settling;
+        await vi.advanceTimersByTimeAsync(90_000);
+        await handled;
+
+        expect(claim.mock.calls[0]![1]).toBeGreaterThan(90_000);
+        expect(res.json).toHaveBeenCalledWith(
+          expect.objectContaining({ code: 'SETTLEMENT_FAILED', retryable: false, reason: 'SETTLEMENT_TIMEOUT' })
+        );
+        expect(commit).toHaveBeenCalled();
+        expect(release).not.toHaveBeenCalled();
+        expect(next).not.toHaveBeenCalled();
+      } finally {
+        consoleSpy.mockRestore();
+        vi.useRealTimers();
+      }
+    });
+
+    it('should release the nonce on unexpected settler errors', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const settleX402 = vi.fn()
+        .mockRejectedValueOnce(new Error('RPC timeout'))
+        .mockResolvedValueOnce({ success: true, txHash, network: BASE_CAIP_ID });
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        settlement: { settleX402 },
+      });
+      const payload = await buildPermit2Payload();
+
+      await middleware(paymentRequest(payload), res, next);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ retryable: true }));
+
+      await middleware(paymentRequest(payload), createMockResponse(), next);
+      expect(next).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should refuse both a facilitator URL and local settlement', () => {
+      expect(() => x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        facilitatorUrl: 'https://facilitator.example.com',
+        settlement: { settleX402: vi.fn() },
+      })).toThrow('not both');
+    });
+  });
+
+  describe('settle-after-handler mode', () => {
+    const facilitatorUrl = 'https://facilitator.example.com';
+    const settled = {
+      success: true,
+      txHash: '0x' + 'ab'.repeat(32),
+      network: BASE_CAIP_ID,
+    };
+
+    beforeEach(() => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        facilitatorUrl,
+        settlementMode: 'after-handler',
+      });
+    });
+
+    /** Run the middleware, then a handler that responds via `respond` */
+    async function serve(
+      payload: object,
+      respond: (res: ReturnType<typeof createStreamingResponse>) => void
+    ) {
+      const streamRes = createStreamingResponse();
+      const request = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+      await middleware(request, streamRes as unknown as Response, () => respond(streamRes));
+      await streamRes.finished;
+      return { res: streamRes, req: request };
+    }
+
+    it('should settle after a 2xx response and send the payment-response header', async () => {
+      facilitatorFetch.mockResolvedValueOnce(facilitatorReply(settled));
+      const handler = vi.fn((r: ReturnType<typeof createStreamingResponse>) => {
+        expect(facilitatorFetch).not.toHaveBeenCalled();
+        r.status(200).json({ data: 'paid content' });
+      });
+
+      const { res: out, req: request } = await serve(await buildPermit2Payload(), handler);
+
+      expect(handler).toHaveBeenCalled();
+      expect(facilitatorFetch).toHaveBeenCalledTimes(1);
+      expect(out.statusCode).toBe(200);
+      expect(JSON.parse(out.body)).toEqual({ data: 'paid content' });
+      expect(JSON.parse(out.headers[X402_HEADERS.PAYMENT_RESPONSE]!)).toEqual(settled);
+      expect(request.x402?.settlementResult).toEqual(settled);
+    });
+
+    it('should skip settlement and release the nonce when the handler fails', async () => {
+      const payload = await buildPermit2Payload();
+
+      const { res: out } = await serve(payload, r => r.status(500).json({ error: 'boom' }));
+
+      expect(facilitatorFetch).not.toHaveBeenCalled();
+      expect(out.statusCode).toBe(500);
+      expect(JSON.parse(out.body)).toEqual({ error: 'boom' });
+      expect(out.headers[X402_HEADERS.PAYMENT_RESPONSE]).toBeUndefined();
+
+      // The same payload can be used once the handler succeeds
+      facilitatorFetch.mockResolvedValueOnce(facilitatorReply(settled));
+      const { res: retry } = await serve(payload, r => r.json({ ok: true }));
+      expect(retry.statusCode).toBe(200);
+      expect(facilitatorFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should withhold the handler response when settlement fails', async () => {
+      facilitatorFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const { res: out } = await serve(
+        await buildPermit2Payload(),
+        r => r.json({ data: 'paid content' })
+      );
+
+      expect(out.statusCode).toBe(402);
+      expect(JSON.parse(out.body)).toEqual(
+        expect.objectContaining({ code: 'SETTLEMENT_FAILED', retryable: true })
+      );
+      expect(out.body).not.toContain('paid content');
+    });
+
+    it('should drop the handler\'s headers when settlement fails', async () => {
+      facilitatorFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const { res: out } = await serve(await buildPermit2Payload(), r => {
+        r.setHeader('set-cookie', 'session=paid');
+        r.setHeader('cache-control', 'public, max-age=3600');
+        r.writeHead(200, { 'content-type': 'text/plain' });
+        r.end('paid content');
+      });
+
+      expect(out.statusCode).toBe(402);
+      expect(out.headers['set-cookie']).toBeUndefined();
+      expect(out.headers['cache-control']).toBeUndefined();
+      expect(out.headers['content-type']).toBe('application/json');
+    });
+
+    it('should buffer streamed writes and an explicit writeHead', async () => {
+      facilitatorFetch.mockResolvedValueOnce(facilitatorReply(settled));
+
+      const { res: out } = await serve(await buildPermit2Payload(), r => {
+        r.writeHead(201, { 'content-type': 'text/plain' });
+        r.write('chunk-1 ');
+        r.write('chunk-2 ');
+        r.end('done');
+      });
+
+      expect(out.statusCode).toBe(201);
+      expect(out.body).toBe('chunk-1 chunk-2 done');
+      expect(out.headers['content-type']).toBe('text/plain');
+      expect(out.headers[X402_HEADERS.PAYMENT_RESPONSE]).toBeDefined();
+    });
+
+    it('should burn the nonce after a 2xx without a facilitator', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        settlementMode: 'after-handler',
+      });
+      const payload = await buildPermit2Payload();
+
+      await serve(payload, r => r.json({ ok: true }));
+
+      const replay = createMockResponse();
+      await middleware(createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      }), replay, vi.fn());
+      expect(replay.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'NONCE_REPLAYED' })
+      );
+    });
+  });
+
+  describe('with invalid payment', () => {
+    it('should return 400 for invalid JSON in x-payment header', async () => {
+      req = createMockRequest({
+        headers: {
+          [X402_HEADERS.PAYMENT]: 'not-json',
+        },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Invalid Payment' })
+      );
+    });
+
+    it('should return 400 for invalid payload schema', async () => {
+      req = createMockRequest({
+        headers: {
+          [X402_HEADERS.PAYMENT]: JSON.stringify({ scheme: 'unknown' }),
+        },
+      });
+
+      await middleware(req, res, next);
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 400 for network mismatch', async () => {
+      const payload = await buildPermit2Payload({ network: 'eip155:1' });
+      req = createMockRequest({
+        headers: {
+          [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
+        },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Network Mismatch' })
+      );
+    });
+
+    it('should return 400 for expired payment', async () => {
+      const payload = await buildPermit2Payload({
+        permit: {
+          permitted: [
+            { token: TEST_TOKEN, amount: '995000' },
+            { token: TEST_TOKEN, amount: '5000' },
+          ],
+          nonce: String(Date.now()),
+          deadline: Math.floor(Date.now() / 1000) - 60,
+        },
+      });
+      req = createMockRequest({
+        headers: {
+          [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
+        },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Payment Expired' })
+      );
+    });
+
+    it('should treat a deadline of now as expired', async () => {
+      vi.useFakeTimers({ now: Date.now(), toFake: ['Date'] });
+      const payload = await buildPermit2Payload({
+        permit: {
+          permitted: [
+            { token: TEST_TOKEN, amount: '995000' },
+            { token: TEST_TOKEN, amount: '5000' },
+          ],
+          nonce: String(Date.now()),
+          deadline: Math.floor(Date.now() / 1000),
+        },
+      });
+      req = createMockRequest({
+        headers: {
+          [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
+        },
+      });
+
+      await middleware(req, res, next);
+      vi.useRealTimers();
+
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'PAYMENT_EXPIRED' })
+      );
+    });
+
+    it('should return 402 for insufficient payment amount', async () => {
+      const payload = await buildPermit2Payload({
+        permit: {
+          permitted: [
+            { token: TEST_TOKEN, amount: '50' },
+            { token: TEST_TOKEN, amount: '5' },
+          ],
+          nonce: String(Date.now()),
+          deadline: Math.floor(Date.now() / 1000) + 300,
+        },
+      });
+      req = createMockRequest({
+        headers: {
+          [X402_HEADERS.PAYMENT]: JSON.stringify(payload),
+        },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Insufficient Payment' })
+      );
+    });
+
+    it('should return 402 for replayed nonce', async () => {
+      const nonce = String(Date.now());
+      const payload = await buildPermit2Payload({
+        permit: {
+          permitted: [
+            { token: TEST_TOKEN, amount: '995000' },
+            { token: TEST_TOKEN, amount: '5000' },
+          ],
+          nonce,
+          deadline: Math.floor(Date.now() / 1000) + 300,
+        },
+      });
+
+      // First request succeeds
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+      await middleware(req, res, next);
+      expect(next).toHaveBeenCalled();
+
+      // Second request with same nonce fails
+      const res2 = createMockResponse();
+      const next2 = vi.fn();
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+      await middleware(req, res2, next2);
+
+      expect(res2.status).toHaveBeenCalledWith(402);
+      expect(res2.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Replay Detected' })
+      );
+    });
+  });
+
+  describe('requirement binding', () => {
+    async function expectRejected(payload: PaymentPayload, status: number, code: string) {
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(status);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code }));
+      expect(next).not.toHaveBeenCalled();
+    }
+
+    it('should reject a payment to another recipient', async () => {
+      const payload = await buildPermit2Payload({
+        witness: { recipient: '0x' + '99'.repeat(20), feeBps: 50 },
+      });
+      await expectRejected(payload, 400, 'RECIPIENT_MISMATCH');
+    });
+
+    it('should reject a payment in another token', async () => {
+      const worthless = '0x' + '77'.repeat(20);
+      const payload = await buildPermit2Payload({
+        permit: {
+          permitted: [
+            { token: worthless, amount: '995000' },
+            { token: worthless, amount: '5000' },
+          ],
+          nonce: String(Date.now() * 1000 + 999),
+          deadline: Math.floor(Date.now() / 1000) + 300,
+        },
+      });
+      await expectRejected(payload, 400, 'TOKEN_MISMATCH');
+    });
+
+    it('should reject a payment through another settlement contract', async () => {
+      const payload = await buildPermit2Payload({ spender: '0x' + '55'.repeat(20) });
+      await expectRejected(payload, 400, 'SETTLEMENT_MISMATCH');
+    });
+
+    it('should reject a payment with another fee rate', async () => {
+      const payload = await buildPermit2Payload({
+        witness: { recipient: TEST_RECIPIENT, feeBps: 0 },
+      });
+      await expectRejected(payload, 400, 'FEE_MISMATCH');
+    });
+
+    it('should reject a payment that shortchanges the fee split', async () => {
+      const payload = await buildPermit2Payload({
+        permit: {
+          permitted: [
+            { token: TEST_TOKEN, amount: '1000000' },
+            { token: TEST_TOKEN, amount: '0' },
+          ],
+          nonce: String(Date.now() * 1000 + 998),
+          deadline: Math.floor(Date.now() / 1000) + 300,
+        },
+      });
+      await expectRejected(payload, 400, 'FEE_MISMATCH');
+    });
+
+    it('should reject a scheme that was not advertised', async () => {
+      const payload = await buildERC3009Payload();
+      await expectRejected(payload, 400, 'SCHEME_NOT_ACCEPTED');
+    });
+
+    it('should reject an ERC-3009 authorization to another contract', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['erc3009'],
+      });
+      const payload = await buildERC3009Payload({
+        authorization: {
+          from: payerAccount.address,
+          to: '0x' + '55'.repeat(20),
+          value: '1000000',
+          validAfter: 0,
+          validBefore: Math.floor(Date.now() / 1000) + 300,
+          nonce: '0x' + 'cd'.repeat(32),
+        },
+      });
+      await expectRejected(payload, 400, 'SETTLEMENT_MISMATCH');
+    });
+
+    it('should reject an ERC-3009 authorization before validAfter', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['erc3009'],
+      });
+      const now = Math.floor(Date.now() / 1000);
+      const payload = await buildERC3009Payload({
+        authorization: {
+          from: payerAccount.address,
+          to: TEST_SETTLEMENT,
+          value: '1000000',
+          validAfter: now + 60,
+          validBefore: now + 300,
+          nonce: '0x' + 'ce'.repeat(32),
+        },
+      });
+      await expectRejected(payload, 400, 'PAYMENT_NOT_YET_VALID');
+    });
+
+    it('should reject an ERC-3009 payment to another recipient', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['erc3009'],
+      });
+      const payload = await buildERC3009Payload({ recipient: '0x' + '99'.repeat(20) });
+      await expectRejected(payload, 400, 'RECIPIENT_MISMATCH');
+    });
+
+    it('should reject an ERC-3009 signature over another token', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['erc3009'],
+      });
+      const payload = await buildERC3009Payload();
+      await expectRejected(payload, 400, 'SIGNER_MISMATCH');
+    });
+
+    it('should report INSUFFICIENT_AMOUNT for underpayment', async () => {
+      const payload = await buildPermit2Payload({
+        permit: {
+          permitted: [
+            { token: TEST_TOKEN, amount: '9950' },
+            { token: TEST_TOKEN, amount: '50' },
+          ],
+          nonce: String(Date.now() * 1000 + 997),
+          deadline: Math.floor(Date.now() / 1000) + 300,
+        },
+      });
+      await expectRejected(payload, 402, 'INSUFFICIENT_AMOUNT');
+    });
+  });
+
+  describe('nonce store', () => {
+    it('should claim nonces in the configured store, scoped by network and payer', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      const claim = vi.spyOn(nonceStore, 'claim');
+      const commit = vi.spyOn(nonceStore, 'commit');
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        nonceStore,
+      });
+      const payload = await buildPermit2Payload();
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(claim).toHaveBeenCalledWith(
+        `${BASE_CAIP_ID}:${payerAccount.address.toLowerCase()}:${payload.permit.nonce}`,
+        expect.any(Number)
+      );
+      // Burned at least until the payload's deadline
+      expect(commit).toHaveBeenCalledWith(claim.mock.calls[0]![0], expect.any(Number));
+      expect(commit.mock.calls[0]![1]).toBeGreaterThanOrEqual(300_000);
+    });
+
+    it('should reject a nonce already claimed by another replica', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      const config = {
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        nonceStore,
+      };
+      const replicaA = x402Middleware(config);
+      const replicaB = x402Middleware(config);
+      const payload = await buildPermit2Payload();
+      const header = { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) };
+
+      await replicaA(createMockRequest({ headers: header }), res, next);
+      const res2 = createMockResponse();
+      await replicaB(createMockRequest({ headers: header }), res2, vi.fn());
+
+      expect(next).toHaveBeenCalled();
+      expect(res2.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'NONCE_REPLAYED' })
+      );
+    });
+
+    it('should accept the same nonce value from another payer', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        nonceStore,
+      });
+      const first = await buildPermit2Payload();
+      const second = await buildPermit2Payload(
+        { permit: first.permit, payer: otherAccount.address },
+        otherAccount
+      );
+
+      await middleware(createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(first) },
+      }), res, next);
+      const next2 = vi.fn();
+      await middleware(createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(second) },
+      }), createMockResponse(), next2);
+
+      expect(next).toHaveBeenCalled();
+      expect(next2).toHaveBeenCalled();
+    });
+  });
+
+  describe('pre-flight checks', () => {
+    /** Public client answering the pre-flight reads */
+    function chainState(state: {
+      balance?: bigint;
+      allowance?: bigint;
+      nonceBitmap?: bigint;
+      authorizationUsed?: boolean;
+    } = {}) {
+      const readContract = vi.fn(async ({ functionName }: { functionName: string }) => {
+        switch (functionName) {
+          case 'balanceOf': return state.balance ?? BigInt(5_000_000);
+          case 'allowance': return state.allowance ?? BigInt(5_000_000);
+          case 'nonceBitmap': return state.nonceBitmap ?? BigInt(0);
+          case 'authorizationState': return state.authorizationUsed ?? false;
+          default: throw new Error(`unexpected read ${functionName}`);
+        }
+      });
+      return { readContract } as unknown as PublicClient & { readContract: typeof readContract };
+    }
+
+    function preflightMiddleware(publicClient: PublicClient | Record<string, PublicClient>) {
+      return x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['permit2', 'erc3009'],
+        publicClient,
+      });
+    }
+
+    async function pay(payload: object, mw: ReturnType<typeof x402Middleware>) {
+      await mw(createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      }), res, next);
+    }
+
+    it('should serve payments the chain would accept', async () => {
+      const client = chainState();
+
+      await pay(await buildPermit2Payload(), preflightMiddleware(client));
+
+      expect(next).toHaveBeenCalled();
+      const reads = client.readContract.mock.calls.map(([call]) => call.functionName);
+      expect(reads).toEqual(['balanceOf', 'allowance', 'nonceBitmap']);
+    });
+
+    it('should reject a payer without enough balance', async () => {
+      await pay(await buildPermit2Payload(), preflightMiddleware(chainState({ balance: BigInt(999_999) })));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.jsonData).toEqual(expect.objectContaining({ code: 'INSUFFICIENT_BALANCE' }));
+    });
+
+    it('should reject a payer who has not approved Permit2', async () => {
+      await pay(await buildPermit2Payload(), preflightMiddleware(chainState({ allowance: BigInt(0) })));
+
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.jsonData).toEqual(expect.objectContaining({ code: 'ALLOWANCE_MISSING' }));
+    });
+
+    it('should reject a Permit2 nonce already used on-chain', async () => {
+      const payload = await buildPermit2Payload();
+      const bit = BigInt(payload.permit!.nonce) & BigInt(0xff);
+
+      await pay(payload, preflightMiddleware(chainState({ nonceBitmap: BigInt(1) << bit })));
+
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.jsonData).toEqual(expect.objectContaining({ code: 'NONCE_USED' }));
+    });
+
+    it('should reject an ERC-3009 authorization already used on-chain', async () => {
+      const client = chainState({ authorizationUsed: true });
+
+      await pay(await buildERC3009Payload(), preflightMiddleware(client));
+
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.jsonData).toEqual(expect.objectContaining({ code: 'NONCE_USED' }));
+      expect(client.readContract).not.toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: 'allowance' })
+      );
+    });
+
+    it('should leave the nonce unclaimed when the check fails', async () => {
+      const payload = await buildPermit2Payload();
+      await pay(payload, preflightMiddleware(chainState({ balance: BigInt(0) })));
+
+      // The payer tops up and retries the same payload
+      await pay(payload, preflightMiddleware(chainState()));
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should skip networks without a client', async () => {
+      const client = chainState({ balance: BigInt(0) });
+
+      await pay(await buildPermit2Payload(), preflightMiddleware({ [BSC_CAIP_ID]: client }));
+
+      expect(client.readContract).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('signature verification', () => {
+    it('should reject a payload signed by someone other than the payer', async () => {
+      const payload = await buildPermit2Payload({}, otherAccount);
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Invalid Signature', code: 'SIGNER_MISMATCH' })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject a malformed signature', async () => {
+      const payload = await buildPermit2Payload({ signature: '0x' + 'ab'.repeat(65) });
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Invalid Signature' })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject a payload whose signed fields were tampered with', async () => {
+      const payload = await buildPermit2Payload();
+      payload.permit.permitted[0]!.amount = '9950000';
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should not burn the nonce of a rejected forgery', async () => {
+      const forged = await buildPermit2Payload({}, otherAccount);
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(forged) },
+      });
+      await middleware(req, res, next);
+      expect(next).not.toHaveBeenCalled();
+
+      const genuine = await buildPermit2Payload({ permit: forged.permit });
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(genuine) },
+      });
+      await middleware(req, createMockResponse(), next);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should attach the recovered signer and verification result', async () => {
+      const payload = await buildPermit2Payload();
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(req.x402?.signer).toBe(payerAccount.address);
+      expect(req.x402?.verification).toEqual(
+        expect.objectContaining({ valid: true, signer: payerAccount.address })
+      );
+    });
+
+    it('should accept a valid ERC-3009 payment', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['erc3009'],
+      });
+      const payload = await buildERC3009Payload();
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.x402?.signer).toBe(payerAccount.address);
+    });
+
+    it('should reject an ERC-3009 authorization debiting another account', async () => {
+      const payload = await buildERC3009Payload({
+        authorization: {
+          from: otherAccount.address,
+          to: TEST_SETTLEMENT,
+          value: '1000000',
+          validAfter: 0,
+          validBefore: Math.floor(Date.now() / 1000) + 300,
+          nonce: '0x' + 'ef'.repeat(32),
+        },
+      });
+
+      const result = await verifyPaymentSignature(payload as never, TEST_TOKEN);
+
+      expect(result.valid).toBe(false);
+      expect(result.code).toBe('SIGNER_MISMATCH');
+    });
+  });
+
+  describe('per-request pricing', () => {
+    const priceByModel = (r: Request) =>
+      (r.query as Record<string, string>)?.model === 'large' ? '2000000' : '1000000';
+
+    beforeEach(() => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount: priceByModel,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+      });
+    });
+
+    it('should quote the price derived from the request', async () => {
+      req = createMockRequest({ query: { model: 'large' } } as Partial<Request>);
+
+      await middleware(req, res, next);
+
+      const requirement = JSON.parse(res.headersSent[X402_HEADERS.PAYMENT_REQUIRED]!);
+      expect(requirement.accepts[0].amount).toBe('2000000');
+    });
+
+    it('should re-derive the price on retry and accept a payload that covers it', async () => {
+      req = createMockRequest({
+        query: { model: 'small' },
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(await buildPermit2Payload()) },
+      } as Partial<Request>);
+
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.x402?.accept.amount).toBe('1000000');
+    });
+
+    it('should reject a payload quoted for a cheaper request', async () => {
+      req = createMockRequest({
+        query: { model: 'large' },
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(await buildPermit2Payload()) },
+      } as Partial<Request>);
+
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(402);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INSUFFICIENT_AMOUNT' })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should resolve async token and recipient functions', async () => {
+      const otherRecipient = '0x' + '77'.repeat(20) as `0x${string}`;
+      middleware = x402Middleware({
+        recipientAddress: async () => otherRecipient,
+        amount,
+        tokenAddress: async () => TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+      });
+
+      await middleware(req, res, next);
+
+      const requirement = JSON.parse(res.headersSent[X402_HEADERS.PAYMENT_REQUIRED]!);
+      expect(requirement.accepts[0].recipient).toBe(otherRecipient);
+      expect(requirement.accepts[0].token).toBe(TEST_TOKEN);
+    });
+
+    it('should route resolver errors to the error handler', async () => {
+      const onError = vi.fn();
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount: async () => { throw new Error('pricing unavailable'); },
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        onError,
+      });
+
+      await middleware(req, res, next);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), req, res);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('route table', () => {
+    beforeEach(() => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        routes: [
+          { method: 'GET', path: '/reports/:id', amount: '1000000', description: 'Report' },
+          {
+            method: 'POST',
+            path: '/models/:model/*',
+            amount: (_req, { params }) => (params.model === 'large' ? '2000000' : '500000'),
+            acceptedSchemes: ['permit2', 'erc3009'],
+          },
+          { path: '/reports/sample', free: true },
+        ],
+        excludeRoutes: ['/health'],
+      });
+    });
+
+    function requirementFor(method: string, path: string) {
+      return (async () => {
+        const r = createMockResponse();
+        await middleware(createMockRequest({ method, path } as Partial<Request>), r, next);
+        const header = r.headersSent[X402_HEADERS.PAYMENT_REQUIRED];
+        return header ? JSON.parse(header) : null;
+      })();
+    }
+
+    it('should price each route from the table', async () => {
+      const report = await requirementFor('GET', '/reports/7');
+      expect(report.accepts[0].amount).toBe('1000000');
+      expect(report.description).toBe('Report');
+
+      const model = await requirementFor('POST', '/models/large/completions');
+      expect(model.accepts.map((a: { amount: string }) => a.amount)).toEqual(['2000000', '2000000']);
+      expect(model.accepts.map((a: { scheme: string }) => a.scheme)).toEqual(['permit2', 'erc3009']);
+    });
+
+    it('should pass path params to resolvers', async () => {
+      const model = await requirementFor('POST', '/models/small/completions');
+      expect(model.accepts[0].amount).toBe('500000');
+    });
+
+    it('should serve free routes and excluded prefixes without payment', async () => {
+      expect(await requirementFor('GET', '/reports/sample')).toBeNull();
+      expect(await requirementFor('GET', '/healthz')).toBeNull();
+      expect(await requirementFor('GET', '/HEALTH')).toBeNull();
+      expect(next).toHaveBeenCalledTimes(3);
+    });
+
+    it('should charge mixed-case paths like the route they match', async () => {
+      const report = await requirementFor('GET', '/REPORTS/7');
+      expect(report.accepts[0].amount).toBe('1000000');
+      expect(await requirementFor('GET', '/Reports/Sample')).toBeNull();
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse unmatched requests when there is no top-level price', async () => {
+      const r = createMockResponse();
+      await middleware(createMockRequest({ method: 'DELETE', path: '/reports/7' } as Partial<Request>), r, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(r.statusCode).toBe(403);
+      expect(r.jsonData).toMatchObject({ code: 'ROUTE_NOT_PRICED' });
+    });
+
+    it('should serve unmatched requests when unmatchedRoutes is pass', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        routes: [{ path: '/reports/:id', amount: '1000' }],
+        unmatchedRoutes: 'pass',
+      });
+
+      expect(await requirementFor('DELETE', '/other')).toBeNull();
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it('should match case-sensitively when asked', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        routes: [{ path: '/reports/:id', amount: '1000' }],
+        unmatchedRoutes: 'pass',
+        caseSensitiveRoutes: true,
+      });
+
+      expect((await requirementFor('GET', '/reports/7')).accepts[0].amount).toBe('1000');
+      expect(await requirementFor('GET', '/REPORTS/7')).toBeNull();
+    });
+
+    it('should charge unmatched requests the top-level amount when set', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount: '3000000',
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        routes: [{ path: '/cheap', amount: '1000' }],
+      });
+
+      expect((await requirementFor('GET', '/cheap')).accepts[0].amount).toBe('1000');
+      expect((await requirementFor('GET', '/other')).accepts[0].amount).toBe('3000000');
+    });
+
+    it('should verify the paid retry against the matched route', async () => {
+      req = createMockRequest({
+        method: 'GET',
+        path: '/reports/7',
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(await buildPermit2Payload()) },
+      } as Partial<Request>);
+
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.x402?.accept.amount).toBe('1000000');
+    });
+
+    it('should reject configs with a priced route and no amount', () => {
+      expect(() => x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        routes: [{ path: '/a' }],
+      })).toThrow('has no amount');
+
+      expect(() => x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+      })).toThrow('requires `amount`, `price` or a `routes` table');
+    });
+  });
+
+  describe('multiple offers', () => {
+    const BSC_SETTLEMENT = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' as `0x${string}`;
+
+    beforeEach(() => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount: '10000',
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['permit2', 'erc3009'],
+        offers: [
+          { networkId: BSC_CAIP_ID, tokenAddress: BSC_USDT.address, settlementAddress: BSC_SETTLEMENT },
+        ],
+      });
+    });
+
+    it('should advertise every offer, scaled to each token\'s decimals', async () => {
+      await middleware(req, res, next);
+
+      const requirement = JSON.parse(res.headersSent[X402_HEADERS.PAYMENT_REQUIRED]!);
+      expect(requirement.accepts.map((a: Record<string, unknown>) => [a.network, a.scheme, a.amount])).toEqual([
+        [BASE_CAIP_ID, 'permit2', '10000'],
+        [BASE_CAIP_ID, 'erc3009', '10000'],
+        // BSC USDT has 18 decimals and no ERC-3009 support
+        [BSC_CAIP_ID, 'permit2', '10000000000000000'],
+      ]);
+      expect(requirement.accepts[2].settlement).toBe(BSC_SETTLEMENT);
+    });
+
+    it('should verify a payload against the offer it pays', async () => {
+      const payload = await buildPermit2Payload({
+        network: BSC_CAIP_ID,
+        permit: {
+          permitted: [
+            { token: BSC_USDT.address, amount: '9950000000000000' },
+            { token: BSC_USDT.address, amount: '50000000000000' },
+          ],
+          nonce: String(Date.now() * 1000 + ++nonceCounter),
+          deadline: Math.floor(Date.now() / 1000) + 300,
+        },
+        spender: BSC_SETTLEMENT,
+      });
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.x402?.accept.network).toBe(BSC_CAIP_ID);
+      expect(req.x402?.accept.token).toBe(BSC_USDT.address);
+    });
+
+    it('should reject a payload that pays an offer in the wrong token', async () => {
+      const payload = await buildPermit2Payload({
+        network: BSC_CAIP_ID,
+        permit: {
+          permitted: [
+            { token: TEST_TOKEN, amount: '9950000000000000' },
+            { token: TEST_TOKEN, amount: '50000000000000' },
+          ],
+          nonce: String(Date.now() * 1000 + ++nonceCounter),
+          deadline: Math.floor(Date.now() / 1000) + 300,
+        },
+        spender: BSC_SETTLEMENT,
+      });
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'TOKEN_MISMATCH' })
+      );
+    });
+
+    it('should match ERC-3009 payloads to an offer by their signed token', async () => {
+      const otherToken = '0x' + '99'.repeat(20) as `0x${string}`;
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount: '1000000',
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        acceptedSchemes: ['erc3009'],
+        offers: [{
+          networkId: BASE_CAIP_ID,
+          tokenAddress: otherToken,
+          settlementAddress: TEST_SETTLEMENT,
+          amount: '1000000',
+        }],
+      });
+      const unsigned = await buildERC3009Payload({ signature: '0x' });
+      const payload = {
+        ...unsigned,
+        signature: await signERC3009(unsigned, payerAccount, otherToken),
+      };
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(payload) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.x402?.accept.token).toBe(otherToken);
+    });
+
+    it('should require an explicit amount for offers in unlisted tokens', () => {
+      expect(() => x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount: '10000',
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        offers: [{
+          networkId: BSC_CAIP_ID,
+          tokenAddress: '0x' + '99'.repeat(20) as `0x${string}`,
+          settlementAddress: BSC_SETTLEMENT,
+        }],
+      })).toThrow('not in SUPPORTED_NETWORKS');
+    });
+  });
+
+  describe('USD pricing', () => {
+    const usdConfig = {
+      recipientAddress: TEST_RECIPIENT,
+      tokenAddress: TEST_TOKEN,
+      settlementAddress: TEST_SETTLEMENT,
+      treasuryAddress: TEST_TREASURY,
+    };
+
+    async function accepts() {
+      await middleware(req, res, next);
+      const requirement = JSON.parse(res.headersSent[X402_HEADERS.PAYMENT_REQUIRED]!);
+      return requirement.accepts as Array<{ network: string; token: string; amount: string }>;
+    }
+
+    it('should convert the price for each offer\'s token', async () => {
+      middleware = x402Middleware({
+        ...usdConfig,
+        price: '$0.01',
+        offers: [
+          { networkId: BSC_CAIP_ID, tokenAddress: BSC_USDC.address, settlementAddress: TEST_SETTLEMENT },
+        ],
+      });
+
+      expect((await accepts()).map(a => a.amount)).toEqual(['10000', '10000000000000000']);
+    });
+
+    it('should accept a payload covering the converted price', async () => {
+      middleware = x402Middleware({ ...usdConfig, price: '$1' });
+      req = createMockRequest({
+        headers: { [X402_HEADERS.PAYMENT]: JSON.stringify(await buildPermit2Payload()) },
+      });
+
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.x402?.accept.amount).toBe('1000000');
+    });
+
+    it('should price routes in USD and resolve per-request prices', async () => {
+      middleware = x402Middleware({
+        ...usdConfig,
+        amount: '1',
+        routes: [{ path: '/api/resource', price: async () => '$0.25' }],
+      });
+
+      expect((await accepts())[0]!.amount).toBe('250000');
+    });
+
+    it('should value non-stablecoins with the price source', async () => {
+      middleware = x402Middleware({
+        ...usdConfig,
+        tokenAddress: BASE_WETH.address,
+        price: '$0.01',
+        priceSource: async () => '2000',
+      });
+
+      expect((await accepts())[0]!.amount).toBe('5000000000000');
+    });
+
+    it('should reuse a quote for new 402s until it is older than priceQuoteTtlMs', async () => {
+      const priceSource = vi.fn(async () => '2000');
+      middleware = x402Middleware({
+        ...usdConfig,
+        tokenAddress: BASE_WETH.address,
+        price: '$0.01',
+        priceSource,
+      });
+
+      await accepts();
+      await accepts();
+
+      expect(priceSource).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept a payment quoted before the price moved', async () => {
+      // $1 at $2000 per WETH is quoted; WETH then falls to $1600
+      const priceSource = vi.fn().mockResolvedValueOnce('2000').mockResolvedValue('1600');
+      middleware = x402Middleware({
+        ...usdConfig,
+        tokenAddress: BASE_WETH.address,
+        price: '$1',
+        priceSource,
+        priceQuoteTtlMs: 0,
+      });
+      expect((await accepts())[0]!.amount).toBe('500000000000000');
+
+      req = createMockRequest({
+        headers: {
+          [X402_HEADERS.PAYMENT]: JSON.stringify(await buildPermit2Payload({
+            permit: {
+              permitted: [
+                { token: BASE_WETH.address, amount: '497500000000000' },
+                { token: BASE_WETH.address, amount: '2500000000000' },
+              ],
+              nonce: String(Date.now() * 1000 + nonceCounter),
+              deadline: Math.floor(Date.now() / 1000) + 300,
+            },
+          })),
+        },
+      });
+      await middleware(req, res, next);
+
+      expect(priceSource).toHaveBeenCalledTimes(2);
+      expect(next).toHaveBeenCalled();
+      expect(req.x402?.accept.amount).toBe('500000000000000');
+    });
+
+    it('should refuse non-stablecoins without a price source at initialization', () => {
+      expect(() => x402Middleware({
+        ...usdConfig,
+        tokenAddress: BASE_WETH.address,
+        price: '$0.01',
+      })).toThrow('not a stablecoin');
+
+      expect(() => x402Middleware({
+        ...usdConfig,
+        price: '$0.01',
+        offers: [{ networkId: BASE_CAIP_ID, tokenAddress: BASE_WETH.address, settlementAddress: TEST_SETTLEMENT }],
+      })).toThrow('not a stablecoin');
+    });
+
+    it('should refuse configs with both amount and price', () => {
+      expect(() => x402Middleware({ ...usdConfig, amount: '1', price: '$1' })).toThrow('not both');
+      expect(() => x402Middleware({
+        ...usdConfig,
+        routes: [{ path: '/a', amount: '1', price: '$1' }],
+      })).toThrow('not both');
+    });
+  });
+
+  describe('excluded routes', () => {
+    it('should skip payment check for excluded routes', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        excludeRoutes: ['/health', '/public'],
+      });
+
+      req = createMockRequest({ path: '/health' });
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should skip payment check for routes starting with excluded prefix', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        excludeRoutes: ['/public'],
+      });
+
+      req = createMockRequest({ path: '/public/assets/image.png' });
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should require payment for non-excluded routes', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        excludeRoutes: ['/health'],
+      });
+
+      req = createMockRequest({ path: '/api/paid' });
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(402);
+    });
+
+    it('should ignore empty prefixes', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        amount,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        excludeRoutes: [''],
+      });
+
+      req = createMockRequest({ path: '/api/paid' });
+      await middleware(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(402);
+    });
+
+    it('should exclude paths even where a priced route matches', async () => {
+      middleware = x402Middleware({
+        recipientAddress: TEST_RECIPIENT,
+        tokenAddress: TEST_TOKEN,
+        settlementAddress: TEST_SETTLEMENT,
+        treasuryAddress: TEST_TREASURY,
+        routes: [{ path: '/public/reports/:id', amount }],
+        excludeRoutes: ['/public'],
+      });
+
+      req = createMockRequest({ path: '/public/reports/42' });
+      await middleware(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
     });
   });
 
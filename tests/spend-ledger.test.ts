@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemorySpendLedger, enforceSpendingPolicy, type PendingSpend } from '../src/client/spend-ledger.js';
+import { FileSpendLedger } from '../src/client/node.js';
+import { BudgetExceededError, type SpendingPolicy, type SpendLedger, type SpendRecord } from '../src/types/index.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const RECIPIENT = '0x742d35Cc6634C0532925a3b844Bc9e7595f4b123';
+const HOUR_MS = 60 * 60 * 1000;
+
+function buildSpend(overrides: Partial<PendingSpend> = {}): PendingSpend {
+  return {
+    host: 'api.example.com',
+    network: 'eip155:8453',
+    token: USDC,
+    recipient: RECIPIENT,
+    amount: '1000000',
+    ...overrides,
+  };
+}
+
+function buildRecord(overrides: Partial<SpendRecord> = {}): SpendRecord {
+  return { ...buildSpend(), timestamp: Date.now(), ...overrides };
+}
+
+/** The error `enforceSpendingPolicy` throws, or null if the spend is allowed */
+async function refusal(policy: SpendingPolicy, ledger: SpendLedger, spend = buildSpend()) {
+  try {
+    await enforceSpendingPolicy(policy, ledger, spend);
+    return null;
+  } catch (error) {
+    return error as BudgetExceededError;
+  }
+}
+
+// ============================================================================
+// Shared behaviour
+// ============================================================================
+
+function describeSpendLedger(name: string, create: () => Promise<SpendLedger>) {
+  describe(name, () => {
+    let ledger: SpendLedger;
+
+    beforeEach(async () => {
+      ledger = await create();
+    });
+
+    it('should start empty', async () => {
+      expect(await ledger.total({ token: USDC })).toBe(BigInt(0));
+    });
+
+    it('should total recorded spend by token, case-insensitively', async () => {
+      await ledger.record(buildRecord({ amount: '100' }));
+      await ledger.record(buildRecord({ amount: '250', token: USDC.toLowerCase() }));
+      await ledger.record(buildRecord({ amount: '999', token: USDT }));
+
+      expect(await ledger.total({ token: USDC })).toBe(BigInt(350));
+      expect(await ledger.total({ token: USDT.toLowerCase() })).toBe(BigInt(999));
+    });
+
+    it('should filter by host and time', async () => {
+      await ledger.record(buildRecord({ amount: '100', timestamp: Date.now() - 2 * HOUR_MS }));
+      await ledger.record(buildRecord({ amount: '200' }));
+      await ledger.record(buildRecord({ amount: '400', host: 'other.example.com' }));
+
+      expect(await ledger.total({ token: USDC, host: 'API.example.com' })).toBe(BigInt(300));
+      expect(await ledger.total({ token: USDC, since: Date.now() - HOUR_MS })).toBe(BigInt(600));
+      expect(await ledger.total({ token: USDC, host: 'api.example.com', since: Date.now() - HOUR_MS }))
+        .toBe(BigInt(200));
+    });
+  });
+}
+
+describeSpendLedger('InMemorySpendLedger', async () => new InMemorySpendLedger());
+
+describe('FileSpendLedger', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'x402-spend-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describeSpendLedger('contract', async () => new FileSpendLedger(join(directory, 'spend.json')));
+
+  it('should keep spend across instances (restarts)', async () => {
+    const path = join(directory, 'spend.json');
+    await new FileSpendLedger(path).record(buildRecord({ amount: '123' }));
+
+    expect(await new FileSpendLedger(path).total({ token: USDC })).toBe(BigInt(123));
+  });
+
+  it('should create missing directories and write every record', async () => {
+    const path = join(directory, 'a', 'b', 'spend.json');
+    const ledger = new FileSpendLedger(path);
+
+    await Promise.all([
+      ledger.record(buildRecord({ amount: '1' })),
+      ledger.record(buildRecord({ amount: '2' })),
+    ]);
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toHaveLength(2);
+  });
+
+  it('should refuse a file that is not a JSON array', async () => {
+    const path = join(directory, 'spend.json');
+    await writeFile(path, '{"not":"records"}');
+
+    await expect(new FileSpendLedger(path).total({ token: USDC })).rejects.toThrow('JSON array');
+  });
+});
+
+// ============================================================================
+// enforceSpendingPolicy
+// ============================================================================
+
+describe('enforceSpendingPolicy', () => {
+  let ledger: InMemorySpendLedger;
+
+  beforeEach(() => {
+    ledger = new InMemorySpendLedger();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow anything under an empty policy', async () => {
+    expect(await refusal({}, ledger)).toBeNull();
+  });
+
+  it('should refuse payments over the per-payment limit of their token', async () => {
+    const policy = { maxPerPayment: { [USDC.toLowerCase()]: '999999' } };
+
+    const error = await refusal(policy, ledger);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error?.code).toBe('BUDGET_EXCEEDED');
+    expect(error?.rule).toBe('maxPerPayment');
+    expect(error?.details).toEqual(expect.objectContaining({ amount: '1000000', limit: '999999' }));
+    expect(await refusal(policy, ledger, buildSpend({ amount: '999999' }))).toBeNull();
+  });
+
+  it('should not limit tokens a cap does not list', async () => {
+    expect(await refusal({ maxPerPayment: { [USDT]: '1' } }, ledger)).toBeNull();
+  });
+
+  it('should cap spend per host over the last hour', async () => {
+    const policy = { maxPerHostHourly: { [USDC]: '2500000' } };
+    await ledger.record(buildRecord({ amount: '1000000', timestamp: Date.now() - 2 * HOUR_MS }));
+    await ledger.record(buildRecord({ amount: '1000000' }));
+    await ledger.record(buildRecord({ amount: '5000000', host: 'other.example.com' }));
+
+    expect(await refusal(policy, ledger)).toBeNull();
+
+    await ledger.record(buildRecord({ amount: '1000000' }));
+    const error = await refusal(policy, ledger);
+
+    expect(error?.rule).toBe('maxPerHostHourly');
+    expect(error?.details).toEqual(expect.objectContaining({ spent: '2000000', limit: '2500000' }));
+  });
+
+  it('should cap spend per host over the last day', async () => {
+    const policy = { maxPerHostDaily: { [USDC]: '2000000' } };
+    await ledger.record(buildRecord({ amount: '1500000', timestamp: Date.now() - 23 * HOUR_MS }));
+
+    expect((await refusal(policy, ledger))?.rule).toBe('maxPerHostDaily');
+
+    vi.useFakeTimers({ now: Date.now() + 2 * HOUR_MS });
+    expect(await refusal(policy, ledger)).toBeNull();
+  });
+
+  it('should hold total spend of a token to its budget across hosts', async () => {
+    const policy = { budget: { [USDC]: '3000000' } };
+    await ledger.record(buildRecord({ amount: '1000000', host: 'a.example.com' }));
+    await ledger.record(buildRecord({ amount: '1000000', host: 'b.example.com', timestamp: 0 }));
+
+    expect(await refusal(policy, ledger)).toBeNull();
+    expect((await refusal(policy, ledger, buildSpend({ amount: '1000001' })))?.rule).toBe('budget');
+  });
+
+  it('should apply host allow and deny lists, with subdomain patterns', async () => {
+    expect((await refusal({ denyHosts: ['API.example.com'] }, ledger))?.rule).toBe('host');
+    expect((await refusal({ denyHosts: ['*.example.com'] }, ledger))?.rule).toBe('host');
+    expect(await refusal({ denyHosts: ['*.example.com'] }, ledger, buildSpend({ host: 'example.com' }))).toBeNull();
+    expect(await refusal({ allowHosts: ['*.example.com'] }, ledger)).toBeNull();
+    expect((await refusal({ allowHosts: ['api.example.org'] }, ledger))?.rule).toBe('host');
+  });
+
+  it('should apply recipient allow and deny lists, case-insensitively', async () => {
+    const other = '0x4444444444444444444444444444444444444444';
+
+    expect((await refusal({ denyRecipients: [RECIPIENT.toLowerCase()] }, ledger))?.rule).toBe('recipient');
+    expect(await refusal({ allowRecipients: [RECIPIENT] }, ledger)).toBeNull();
+    expect((await refusal({ allowRecipients: [other] }, ledger))?.rule).toBe('recipient');
+  });
+
+  it('should let a deny list win over an allow list', async () => {
+    const policy = { allowHosts: ['api.example.com'], denyHosts: ['api.example.com'] };
+
+    expect((await refusal(policy, ledger))?.rule).toBe('host');
+  });
+});
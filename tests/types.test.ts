@@ -22,6 +22,7 @@ import {
   generateBytes32Nonce,
   calculateDeadline,
   calculateFeeSplit,
+  scaleAmount,
   getPermit2Domain,
   getERC3009Domain,
 } from '../src/types/index.js';
@@ -665,6 +666,24 @@ describe('calculateDeadline', () => {
   });
 });
 
+describe('scaleAmount', () => {
+  it('should scale up to more decimals', () => {
+    expect(scaleAmount(BigInt(10000), 6, 18)).toBe(BigInt('10000000000000000'));
+  });
+
+  it('should scale down to fewer decimals', () => {
+    expect(scaleAmount(BigInt('10000000000000000'), 18, 6)).toBe(BigInt(10000));
+  });
+
+  it('should round up when precision is lost', () => {
+    expect(scaleAmount(BigInt('10000000000000001'), 18, 6)).toBe(BigInt(10001));
+  });
+
+  it('should leave equal decimals unchanged', () => {
+    expect(scaleAmount(BigInt(123), 6, 6)).toBe(BigInt(123));
+  });
+});
+
 describe('calculateFeeSplit', () => {
   it('should split gross amount into fee and net', () => {
     const result = calculateFeeSplit(BigInt(1000000), 50);
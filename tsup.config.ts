@@ -4,7 +4,15 @@ export default defineConfig({
   entry: {
     index: 'src/index.ts',
     'client/index': 'src/client/index.ts',
+    'client/node': 'src/client/node.ts',
     'server/index': 'src/server/index.ts',
+    'server/express': 'src/server/adapters/express.ts',
+    'server/fastify': 'src/server/adapters/fastify.ts',
+    'server/hono': 'src/server/adapters/hono.ts',
+    'server/koa': 'src/server/adapters/koa.ts',
+    'server/node': 'src/server/adapters/node.ts',
+    'server/fetch': 'src/server/adapters/fetch.ts',
+    'server/file-nonce-store': 'src/server/file-nonce-store.ts',
     'types/index': 'src/types/index.ts',
     'chains/index': 'src/chains/index.ts',
     'facilitator/index': 'src/facilitator/index.ts',
@@ -17,7 +25,7 @@ export default defineConfig({
   sourcemap: true,
   minify: false,
   treeshake: true,
-  external: ['express', 'viem', 'crypto'],
+  external: ['express', 'viem', 'crypto', 'pg', 'better-sqlite3'],
   esbuildOptions(options) {
     options.banner = {
       js: '/* @wazabiai/x402 - x402 v2 Payment Protocol SDK */',